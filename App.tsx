@@ -9,6 +9,7 @@ import { ThemeProvider } from './contexts/ThemeContext';
 import './global.css';
 import { queryClient } from './lib/queryClient';
 import AppNavigator from './navigation/AppNavigator';
+import { linking } from './navigation/linking';
 import AuthScreen from './screens/AuthScreen';
 
 // Main App Component that handles auth state
@@ -37,7 +38,7 @@ function AppContent() {
   }
 
   return (
-    <NavigationContainer theme={navigationTheme}>
+    <NavigationContainer theme={navigationTheme} linking={linking}>
       {user ? <AppNavigator /> : <AuthScreen />}
       <StatusBar style="light" />
     </NavigationContainer>
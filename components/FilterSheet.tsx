@@ -0,0 +1,175 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+import {
+  DATE_RANGES,
+  DEFAULT_FILE_FILTERS,
+  DateRange,
+  FILE_TYPE_PATTERNS,
+  FileFilters,
+  FileTypeFilter,
+  SIZE_RANGES,
+  SizeRange,
+  parseDay,
+} from '../lib/fileFilters';
+import Button from './Button';
+
+interface FilterSheetProps {
+  filters: FileFilters;
+  // Name of the folder a "this folder and below" scope starts from
+  currentFolderName: string;
+  onApply: (filters: FileFilters) => void;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<FileTypeFilter, string> = {
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio',
+  pdf: 'PDFs',
+  document: 'Documents',
+  spreadsheet: 'Spreadsheets',
+  presentation: 'Presentations',
+  text: 'Text',
+  archive: 'Archives',
+  code: 'Code',
+};
+
+const Chip: React.FC<{ label: string; selected: boolean; onPress: () => void }> = ({
+  label,
+  selected,
+  onPress,
+}) => (
+  <Pressable
+    onPress={onPress}
+    className={`mb-2 mr-2 rounded-full border px-3 py-1.5 ${
+      selected ? 'border-zinc-200 bg-zinc-200' : 'border-zinc-700 bg-zinc-900'
+    }`}>
+    <Text className={`text-sm ${selected ? 'text-zinc-950' : 'text-zinc-300'}`}>{label}</Text>
+  </Pressable>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <View className="mb-5">
+    <Text className="mb-3 text-sm font-semibold text-zinc-400">{title}</Text>
+    <View className="flex-row flex-wrap">{children}</View>
+  </View>
+);
+
+export const FilterSheet: React.FC<FilterSheetProps> = ({
+  filters,
+  currentFolderName,
+  onApply,
+  onClose,
+}) => {
+  // Changes only take effect on Apply
+  const [draft, setDraft] = useState<FileFilters>(filters);
+
+  const toggleType = (type: FileTypeFilter) =>
+    setDraft((current) => ({
+      ...current,
+      types: current.types.includes(type)
+        ? current.types.filter((selected) => selected !== type)
+        : [...current.types, type],
+    }));
+
+  return (
+    <View className="flex-1 bg-zinc-950">
+      <View className="flex-row items-center justify-between border-b border-zinc-800 px-6 py-4">
+        <Text className="text-xl font-bold text-zinc-100">Filters</Text>
+        <Pressable
+          onPress={onClose}
+          className="h-10 w-10 items-center justify-center rounded-xl bg-zinc-900">
+          <Ionicons name="close" size={20} color="#a1a1aa" />
+        </Pressable>
+      </View>
+
+      <ScrollView className="flex-1" contentContainerStyle={{ padding: 24 }}>
+        <Section title="Type">
+          {(Object.keys(FILE_TYPE_PATTERNS) as FileTypeFilter[]).map((type) => (
+            <Chip
+              key={type}
+              label={TYPE_LABELS[type]}
+              selected={draft.types.includes(type)}
+              onPress={() => toggleType(type)}
+            />
+          ))}
+        </Section>
+
+        <Section title="Size">
+          {(Object.keys(SIZE_RANGES) as SizeRange[]).map((size) => (
+            <Chip
+              key={size}
+              label={SIZE_RANGES[size].label}
+              selected={draft.size === size}
+              onPress={() => setDraft((current) => ({ ...current, size }))}
+            />
+          ))}
+        </Section>
+
+        <Section title="Date">
+          <Chip
+            label="Created"
+            selected={draft.dateField === 'created_at'}
+            onPress={() => setDraft((current) => ({ ...current, dateField: 'created_at' }))}
+          />
+          <Chip
+            label="Modified"
+            selected={draft.dateField === 'updated_at'}
+            onPress={() => setDraft((current) => ({ ...current, dateField: 'updated_at' }))}
+          />
+          <View className="w-full" />
+          {(Object.keys(DATE_RANGES) as DateRange[]).map((date) => (
+            <Chip
+              key={date}
+              label={DATE_RANGES[date]}
+              selected={draft.date === date}
+              onPress={() => setDraft((current) => ({ ...current, date }))}
+            />
+          ))}
+          {draft.date === 'custom' && (
+            <View className="mt-1 w-full flex-row gap-3">
+              {(['dateFrom', 'dateTo'] as const).map((bound) => (
+                <TextInput
+                  key={bound}
+                  value={draft[bound] ?? ''}
+                  onChangeText={(day) => setDraft((current) => ({ ...current, [bound]: day }))}
+                  placeholder={bound === 'dateFrom' ? 'From (YYYY-MM-DD)' : 'To (YYYY-MM-DD)'}
+                  placeholderTextColor="#71717a"
+                  keyboardType="numbers-and-punctuation"
+                  autoCapitalize="none"
+                  className={`flex-1 rounded-2xl border bg-zinc-900 px-4 py-3 text-base text-zinc-100 ${
+                    draft[bound] && !parseDay(draft[bound]) ? 'border-red-400' : 'border-zinc-900'
+                  }`}
+                />
+              ))}
+            </View>
+          )}
+        </Section>
+
+        <Section title="Look in">
+          <Chip
+            label="Everywhere"
+            selected={draft.scope === 'everywhere'}
+            onPress={() => setDraft((current) => ({ ...current, scope: 'everywhere' }))}
+          />
+          <Chip
+            label={`${currentFolderName} and below`}
+            selected={draft.scope === 'folder'}
+            onPress={() => setDraft((current) => ({ ...current, scope: 'folder' }))}
+          />
+        </Section>
+      </ScrollView>
+
+      <View className="flex-row gap-3 border-t border-zinc-800 px-6 py-4">
+        <Button
+          variant="outline"
+          title="Reset"
+          onPress={() => setDraft(DEFAULT_FILE_FILTERS)}
+          className="flex-1"
+        />
+        <Button title="Apply" onPress={() => onApply(draft)} className="flex-1" />
+      </View>
+    </View>
+  );
+};
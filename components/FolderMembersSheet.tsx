@@ -0,0 +1,210 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, Pressable, Text, TextInput, View } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  useFolderMembersQuery,
+  useFolderRoleQuery,
+  useRemoveFolderMemberMutation,
+  useShareFolderMutation,
+  useUpdateFolderMemberMutation,
+} from '../queries';
+import { Folder, FolderMember, FolderRole } from '../types/database';
+import Button from './Button';
+
+interface FolderMembersSheetProps {
+  folder: Folder;
+  onClose: () => void;
+}
+
+const ROLES: { role: FolderRole; label: string; description: string }[] = [
+  { role: 'viewer', label: 'Viewer', description: 'Can view and download' },
+  { role: 'editor', label: 'Editor', description: 'Can upload, rename, move and delete' },
+  { role: 'owner', label: 'Owner', description: 'Can also manage who has access' },
+];
+
+export const FolderMembersSheet: React.FC<FolderMembersSheetProps> = ({ folder, onClose }) => {
+  const { user } = useAuth();
+  const { data: members = [], isLoading } = useFolderMembersQuery(folder.id);
+  const { data: role } = useFolderRoleQuery(folder.id);
+  const shareMutation = useShareFolderMutation();
+  const updateMutation = useUpdateFolderMemberMutation();
+  const removeMutation = useRemoveFolderMemberMutation();
+
+  const [email, setEmail] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<FolderRole>('viewer');
+
+  const canManage = role === 'owner';
+
+  const handleShare = async () => {
+    if (!email.trim()) return;
+
+    try {
+      await shareMutation.mutateAsync({ folderId: folder.id, email, role: newMemberRole });
+      setEmail('');
+    } catch (error) {
+      Alert.alert('Share Failed', (error as Error).message);
+    }
+  };
+
+  const handleChangeRole = (member: FolderMember) => {
+    Alert.alert(member.email, 'Choose a role', [
+      ...ROLES.map(({ role: nextRole, label }) => ({
+        text: label,
+        onPress: async () => {
+          try {
+            await updateMutation.mutateAsync({
+              memberId: member.id,
+              folderId: folder.id,
+              role: nextRole,
+            });
+          } catch (error) {
+            Alert.alert('Error', `Failed to update role. ${(error as Error).message}`);
+          }
+        },
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleRemove = (member: FolderMember) => {
+    const isSelf = member.user_id === user?.id;
+    Alert.alert(
+      isSelf ? 'Leave Folder' : 'Remove Access',
+      isSelf
+        ? `You will no longer have access to "${folder.name}".`
+        : `${member.email} will no longer have access to "${folder.name}".`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: isSelf ? 'Leave' : 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeMutation.mutateAsync({ memberId: member.id, folderId: folder.id });
+              if (isSelf) onClose();
+            } catch (error) {
+              Alert.alert('Error', `Failed to remove access. ${(error as Error).message}`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderMember = ({ item }: { item: FolderMember }) => {
+    const isSelf = item.user_id === user?.id;
+
+    return (
+      <View className="mx-4 mb-3 flex-row items-center rounded-2xl bg-zinc-900 p-4">
+        <View className="mr-4 h-10 w-10 items-center justify-center rounded-xl bg-zinc-800">
+          <Ionicons name="person" size={20} color="#71717a" />
+        </View>
+        <View className="flex-1">
+          <Text className="text-sm font-semibold text-zinc-100" numberOfLines={1}>
+            {item.email}
+            {isSelf ? ' (you)' : ''}
+          </Text>
+          <Pressable disabled={!canManage} onPress={() => handleChangeRole(item)}>
+            <Text className="mt-1 text-xs capitalize text-zinc-500">
+              {item.role}
+              {canManage ? ' ▾' : ''}
+            </Text>
+          </Pressable>
+        </View>
+        {(canManage || isSelf) && (
+          <Pressable
+            onPress={() => handleRemove(item)}
+            disabled={removeMutation.isPending}
+            className="h-9 w-9 items-center justify-center rounded-xl">
+            <Ionicons
+              name={isSelf ? 'exit-outline' : 'close-circle-outline'}
+              size={18}
+              color="#a1a1aa"
+            />
+          </Pressable>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View className="flex-1 bg-zinc-950">
+      <View className="flex-row items-center justify-between border-b border-zinc-800 px-6 py-4">
+        <View className="flex-1">
+          <Text className="text-xl font-bold text-zinc-100">Share Folder</Text>
+          <Text className="mt-1 text-sm text-zinc-500" numberOfLines={1}>
+            {folder.name}
+          </Text>
+        </View>
+        <Pressable
+          onPress={onClose}
+          className="h-10 w-10 items-center justify-center rounded-xl bg-zinc-900">
+          <Ionicons name="close" size={20} color="#a1a1aa" />
+        </Pressable>
+      </View>
+
+      {canManage && (
+        <View className="border-b border-zinc-800 px-6 py-4">
+          <TextInput
+            value={email}
+            onChangeText={setEmail}
+            placeholder="Email address"
+            placeholderTextColor="#71717a"
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+            className="mb-3 rounded-2xl bg-zinc-900 px-4 py-3 text-base text-zinc-100"
+          />
+          <View className="mb-1 flex-row gap-2">
+            {ROLES.map(({ role: option, label }) => (
+              <Pressable
+                key={option}
+                onPress={() => setNewMemberRole(option)}
+                className={`rounded-xl px-3 py-2 ${
+                  newMemberRole === option ? 'bg-zinc-200' : 'bg-zinc-900'
+                }`}>
+                <Text
+                  className={`text-sm ${newMemberRole === option ? 'text-zinc-900' : 'text-zinc-400'}`}>
+                  {label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text className="mb-4 text-xs text-zinc-500">
+            {ROLES.find((option) => option.role === newMemberRole)?.description}. Applies to every
+            subfolder and file.
+          </Text>
+          <Button
+            variant="primary"
+            size="lg"
+            title="Share"
+            onPress={handleShare}
+            disabled={!email.trim()}
+            loading={shareMutation.isPending}
+            leftIcon={<Ionicons name="person-add-outline" size={20} color="#18181b" />}
+            className="w-full"
+          />
+        </View>
+      )}
+
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="small" color="#71717a" />
+        </View>
+      ) : (
+        <FlatList
+          data={members}
+          keyExtractor={(item) => item.id}
+          renderItem={renderMember}
+          contentContainerStyle={{ paddingVertical: 16 }}
+          ListEmptyComponent={
+            <Text className="px-8 py-8 text-center text-sm text-zinc-500">
+              This folder isn&apos;t shared with anyone yet.
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+};
@@ -75,12 +75,11 @@ export const FolderPicker: React.FC<FolderPickerProps> = ({
     }
   };
 
-  const filteredFolders = folders.filter((folder: Folder) => {
-    if (itemType === 'folder' && folder.id === movingItemId) {
-      return false; // Prevent moving a folder into itself
-    }
-    return true;
-  });
+  // A folder cannot go into itself or anything below it. Its subfolders can only be reached
+  // through it, so disabling the folder covers them too; the path check is a backstop.
+  const isMovingFolder = (folderId: string | null) =>
+    itemType === 'folder' && folderId === movingItemId;
+  const isInsideMovingFolder = path.some((p) => isMovingFolder(p.id));
 
   const loadMore = () => {
     if (hasNextPage && !isFetchingNextPage) {
@@ -88,17 +87,26 @@ export const FolderPicker: React.FC<FolderPickerProps> = ({
     }
   };
 
-  const renderItem = ({ item }: { item: Folder }) => (
-    <Pressable
-      onPress={() => handleNavigate(item)}
-      className="mx-4 mb-3 flex-row items-center rounded-2xl bg-zinc-900 p-4 active:bg-zinc-800">
-      <View className="mr-4 h-10 w-10 items-center justify-center rounded-xl bg-zinc-800">
-        <Ionicons name="folder" size={20} color="#71717a" />
-      </View>
-      <Text className="flex-1 text-base font-semibold text-zinc-100">{item.name}</Text>
-      <Ionicons name="chevron-forward" size={18} color="#71717a" />
-    </Pressable>
-  );
+  const renderItem = ({ item }: { item: Folder }) => {
+    const disabled = isMovingFolder(item.id);
+    return (
+      <Pressable
+        onPress={() => handleNavigate(item)}
+        disabled={disabled}
+        className={`mx-4 mb-3 flex-row items-center rounded-2xl bg-zinc-900 p-4 active:bg-zinc-800 ${
+          disabled ? 'opacity-50' : ''
+        }`}>
+        <View className="mr-4 h-10 w-10 items-center justify-center rounded-xl bg-zinc-800">
+          <Ionicons name="folder" size={20} color="#71717a" />
+        </View>
+        <View className="flex-1">
+          <Text className="text-base font-semibold text-zinc-100">{item.name}</Text>
+          {disabled && <Text className="text-xs text-zinc-500">The folder being moved</Text>}
+        </View>
+        {!disabled && <Ionicons name="chevron-forward" size={18} color="#71717a" />}
+      </Pressable>
+    );
+  };
 
   return (
     <View className="flex-1 bg-zinc-950">
@@ -189,7 +197,7 @@ export const FolderPicker: React.FC<FolderPickerProps> = ({
         </View>
       ) : (
         <FlatList
-          data={filteredFolders}
+          data={folders}
           keyExtractor={(item) => item.id}
           renderItem={renderItem}
           contentContainerStyle={{ paddingVertical: 16 }}
@@ -203,7 +211,7 @@ export const FolderPicker: React.FC<FolderPickerProps> = ({
             ) : null
           }
           ListEmptyComponent={
-            !isLoading && filteredFolders.length === 0 ? (
+            !isLoading && folders.length === 0 ? (
               <View className="items-center justify-center px-8 py-16">
                 <View className="mb-4 h-20 w-20 items-center justify-center rounded-3xl bg-zinc-900">
                   <Ionicons name="folder-open-outline" size={32} color="#71717a" />
@@ -224,7 +232,7 @@ export const FolderPicker: React.FC<FolderPickerProps> = ({
           variant="primary"
           size="lg"
           onPress={() => onSelectFolder(activeFolderId)}
-          disabled={activeFolderId === currentFolderId}
+          disabled={activeFolderId === currentFolderId || isInsideMovingFolder}
           title={`Move to "${path[path.length - 1].name}"`}
           className="w-full"
         />
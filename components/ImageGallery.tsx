@@ -0,0 +1,288 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Image,
+  Linking,
+  Pressable,
+  ScrollView,
+  Text,
+  useWindowDimensions,
+  View,
+} from 'react-native';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from 'react-native-reanimated';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useImageUrlQuery } from '../queries';
+import { File, formatFileSize, ImageMetadata } from '../types/database';
+
+interface ImageGalleryProps {
+  images: File[];
+  initialFileId: string;
+  // Called near the last image, so the next page of the folder can be loaded
+  onEndReached?: () => void;
+  onClose: () => void;
+}
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+
+const ZoomableImage: React.FC<{
+  file: File;
+  width: number;
+  height: number;
+  onZoomChange: (zoomed: boolean) => void;
+}> = ({ file, width, height, onZoomChange }) => {
+  const { data: url, error } = useImageUrlQuery(file);
+  const [zoomed, setZoomed] = useState(false);
+
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const updateZoomed = (isZoomed: boolean) => {
+    setZoomed(isZoomed);
+    onZoomChange(isZoomed);
+  };
+
+  // Keeps the zoomed image covering the screen instead of panning off it
+  const settle = (nextScale: number) => {
+    'worklet';
+    const maxX = ((nextScale - 1) * width) / 2;
+    const maxY = ((nextScale - 1) * height) / 2;
+    scale.value = withTiming(nextScale);
+    savedScale.value = nextScale;
+    savedTranslateX.value = Math.min(maxX, Math.max(-maxX, translateX.value));
+    savedTranslateY.value = Math.min(maxY, Math.max(-maxY, translateY.value));
+    translateX.value = withTiming(savedTranslateX.value);
+    translateY.value = withTiming(savedTranslateY.value);
+    runOnJS(updateZoomed)(nextScale > 1);
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((event) => {
+      scale.value = Math.min(MAX_SCALE, Math.max(1, savedScale.value * event.scale));
+    })
+    .onEnd(() => {
+      settle(scale.value);
+    });
+
+  // Only while zoomed, otherwise a horizontal drag swipes to the next image
+  const pan = Gesture.Pan()
+    .enabled(zoomed)
+    .onUpdate((event) => {
+      translateX.value = savedTranslateX.value + event.translationX;
+      translateY.value = savedTranslateY.value + event.translationY;
+    })
+    .onEnd(() => {
+      settle(scale.value);
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      if (savedScale.value > 1) {
+        translateX.value = 0;
+        translateY.value = 0;
+        settle(1);
+      } else {
+        settle(DOUBLE_TAP_SCALE);
+      }
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  if (error) {
+    return (
+      <View className="flex-1 items-center justify-center px-8">
+        <Text className="text-center text-sm text-zinc-500">
+          Failed to load image. {(error as Error).message}
+        </Text>
+      </View>
+    );
+  }
+
+  if (!url) {
+    return (
+      <View className="flex-1 items-center justify-center">
+        <ActivityIndicator size="small" color="#71717a" />
+      </View>
+    );
+  }
+
+  return (
+    <GestureDetector gesture={Gesture.Race(doubleTap, Gesture.Simultaneous(pinch, pan))}>
+      <Animated.View style={[{ width, height }, animatedStyle]}>
+        <Image source={{ uri: url }} style={{ width, height }} resizeMode="contain" />
+      </Animated.View>
+    </GestureDetector>
+  );
+};
+
+const formatExposureTime = (seconds: number) =>
+  seconds >= 1 ? `${seconds}s` : `1/${Math.round(1 / seconds)}s`;
+
+const ImageDetails: React.FC<{ file: File }> = ({ file }) => {
+  const metadata = (file.image_metadata ?? {}) as ImageMetadata;
+  const camera = [metadata.cameraMake, metadata.cameraModel].filter(Boolean).join(' ');
+  const exposure = [
+    metadata.fNumber && `f/${metadata.fNumber}`,
+    metadata.exposureTime && formatExposureTime(metadata.exposureTime),
+    metadata.iso && `ISO ${metadata.iso}`,
+    metadata.focalLength && `${metadata.focalLength}mm`,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+  const hasLocation = metadata.latitude !== undefined && metadata.longitude !== undefined;
+
+  const rows: { icon: keyof typeof Ionicons.glyphMap; label: string; value: string }[] = [
+    {
+      icon: 'calendar-outline',
+      label: metadata.capturedAt ? 'Taken' : 'Uploaded',
+      value: new Date(metadata.capturedAt ?? file.created_at!).toLocaleString(),
+    },
+    {
+      icon: 'image-outline',
+      label: 'Dimensions',
+      value:
+        metadata.width && metadata.height
+          ? `${metadata.width} × ${metadata.height} • ${formatFileSize(file.size_bytes)}`
+          : formatFileSize(file.size_bytes),
+    },
+  ];
+  if (camera) rows.push({ icon: 'camera-outline', label: 'Camera', value: camera });
+  if (metadata.lensModel) {
+    rows.push({ icon: 'aperture-outline', label: 'Lens', value: metadata.lensModel });
+  }
+  if (exposure) rows.push({ icon: 'options-outline', label: 'Exposure', value: exposure });
+
+  return (
+    <ScrollView className="max-h-80 rounded-t-3xl border-t border-zinc-800 bg-zinc-950 px-6 py-5">
+      <Text className="mb-4 text-lg font-bold text-zinc-100" numberOfLines={2}>
+        {file.name}
+      </Text>
+      {rows.map((row) => (
+        <View key={row.label} className="mb-3 flex-row items-center">
+          <Ionicons name={row.icon} size={18} color="#71717a" />
+          <View className="ml-3 flex-1">
+            <Text className="text-xs text-zinc-500">{row.label}</Text>
+            <Text className="text-sm text-zinc-200">{row.value}</Text>
+          </View>
+        </View>
+      ))}
+      {hasLocation && (
+        <Pressable
+          onPress={() =>
+            Linking.openURL(`https://maps.google.com/?q=${metadata.latitude},${metadata.longitude}`)
+          }
+          className="mb-3 flex-row items-center">
+          <Ionicons name="location-outline" size={18} color="#71717a" />
+          <View className="ml-3 flex-1">
+            <Text className="text-xs text-zinc-500">Location</Text>
+            <Text className="text-sm text-blue-400">
+              {metadata.latitude!.toFixed(5)}, {metadata.longitude!.toFixed(5)}
+            </Text>
+          </View>
+        </Pressable>
+      )}
+      {file.thumbnail_status === 'pending' && (
+        <Text className="mb-3 text-xs text-zinc-500">Photo details are still being read.</Text>
+      )}
+    </ScrollView>
+  );
+};
+
+export const ImageGallery: React.FC<ImageGalleryProps> = ({
+  images,
+  initialFileId,
+  onEndReached,
+  onClose,
+}) => {
+  const { width, height } = useWindowDimensions();
+  const insets = useSafeAreaInsets();
+  const [initialIndex] = useState(() =>
+    Math.max(
+      0,
+      images.findIndex((image) => image.id === initialFileId)
+    )
+  );
+  const [index, setIndex] = useState(initialIndex);
+  const [zoomed, setZoomed] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const current = images[index];
+
+  return (
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <View className="flex-1 bg-black">
+        <FlatList
+          data={images}
+          keyExtractor={(item) => item.id}
+          horizontal
+          pagingEnabled
+          scrollEnabled={!zoomed}
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={initialIndex}
+          getItemLayout={(_, itemIndex) => ({
+            length: width,
+            offset: width * itemIndex,
+            index: itemIndex,
+          })}
+          windowSize={3}
+          onMomentumScrollEnd={(event) =>
+            setIndex(Math.round(event.nativeEvent.contentOffset.x / width))
+          }
+          onEndReached={onEndReached}
+          onEndReachedThreshold={2}
+          renderItem={({ item }) => (
+            <View style={{ width, height }} className="items-center justify-center overflow-hidden">
+              <ZoomableImage file={item} width={width} height={height} onZoomChange={setZoomed} />
+            </View>
+          )}
+        />
+
+        <View
+          className="absolute left-0 right-0 flex-row items-center justify-between px-5"
+          style={{ top: insets.top + 10 }}>
+          <Pressable onPress={onClose} className="rounded-full bg-zinc-900/80 p-2">
+            <Ionicons name="close" size={28} color="#f4f4f5" />
+          </Pressable>
+          <Text className="text-sm font-semibold text-zinc-300">
+            {index + 1} / {images.length}
+          </Text>
+          <Pressable
+            onPress={() => setShowDetails((visible) => !visible)}
+            className="rounded-full bg-zinc-900/80 p-2">
+            <Ionicons
+              name={showDetails ? 'information-circle' : 'information-circle-outline'}
+              size={28}
+              color="#f4f4f5"
+            />
+          </Pressable>
+        </View>
+
+        {showDetails && current && (
+          <View
+            className="absolute bottom-0 left-0 right-0"
+            style={{ paddingBottom: insets.bottom }}>
+            <ImageDetails file={current} />
+          </View>
+        )}
+      </View>
+    </GestureHandlerRootView>
+  );
+};
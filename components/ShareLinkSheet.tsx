@@ -0,0 +1,220 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  Share,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import {
+  useCreateShareLinkMutation,
+  useRevokeShareLinkMutation,
+  useShareLinksQuery,
+} from '../queries';
+import { File, ShareLink } from '../types/database';
+import Button from './Button';
+
+interface ShareLinkSheetProps {
+  file: File;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: { label: string; hours?: number }[] = [
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: 'Never' },
+];
+
+const getLinkStatus = (link: ShareLink) => {
+  if (link.revoked_at) return 'Revoked';
+  if (link.expires_at && new Date(link.expires_at) <= new Date()) return 'Expired';
+  if (link.max_downloads !== null && link.download_count >= link.max_downloads) {
+    return 'Download limit reached';
+  }
+  return null;
+};
+
+export const ShareLinkSheet: React.FC<ShareLinkSheetProps> = ({ file, onClose }) => {
+  const { data: links = [], isLoading } = useShareLinksQuery(file.id);
+  const createMutation = useCreateShareLinkMutation();
+  const revokeMutation = useRevokeShareLinkMutation();
+
+  const [expiryIndex, setExpiryIndex] = useState(1);
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [password, setPassword] = useState('');
+
+  const shareLink = async (link: ShareLink) => {
+    await Share.share({ message: link.url, url: link.url, title: file.name });
+  };
+
+  const handleCreate = async () => {
+    const limit = maxDownloads.trim() ? Number(maxDownloads) : undefined;
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+      Alert.alert('Invalid Limit', 'Download limit must be a whole number greater than zero.');
+      return;
+    }
+
+    try {
+      const link = await createMutation.mutateAsync({
+        fileId: file.id,
+        password: password.trim() || undefined,
+        expiresInHours: EXPIRY_OPTIONS[expiryIndex].hours,
+        maxDownloads: limit,
+      });
+      setMaxDownloads('');
+      setPassword('');
+      await shareLink(link);
+    } catch (error) {
+      Alert.alert('Error', `Failed to create share link. ${(error as Error).message}`);
+    }
+  };
+
+  const handleRevoke = (link: ShareLink) => {
+    Alert.alert('Revoke Link', 'Anyone with this link will no longer be able to download.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Revoke',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await revokeMutation.mutateAsync({ linkId: link.id, fileId: file.id });
+          } catch (error) {
+            Alert.alert('Error', `Failed to revoke link. ${(error as Error).message}`);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderLink = ({ item }: { item: ShareLink }) => {
+    const status = getLinkStatus(item);
+    const details = [
+      item.expires_at ? `Expires ${new Date(item.expires_at).toLocaleString()}` : 'No expiry',
+      `${item.download_count}${item.max_downloads !== null ? `/${item.max_downloads}` : ''} downloads`,
+      item.has_password ? 'Password' : null,
+    ]
+      .filter(Boolean)
+      .join(' • ');
+
+    return (
+      <View className="mx-4 mb-3 flex-row items-center rounded-2xl bg-zinc-900 p-4">
+        <View className="mr-4 h-10 w-10 items-center justify-center rounded-xl bg-zinc-800">
+          <Ionicons name={item.has_password ? 'lock-closed' : 'link'} size={20} color="#71717a" />
+        </View>
+        <View className="flex-1">
+          <Text
+            className={`text-sm font-semibold ${status ? 'text-zinc-500' : 'text-zinc-100'}`}
+            numberOfLines={1}>
+            {status ?? `Created ${new Date(item.created_at!).toLocaleDateString()}`}
+          </Text>
+          <Text className="mt-1 text-xs text-zinc-500">{details}</Text>
+        </View>
+        {!status && (
+          <View className="flex-row">
+            <Pressable
+              onPress={() => shareLink(item)}
+              className="h-9 w-9 items-center justify-center rounded-xl">
+              <Ionicons name="share-outline" size={18} color="#a1a1aa" />
+            </Pressable>
+            <Pressable
+              onPress={() => handleRevoke(item)}
+              disabled={revokeMutation.isPending}
+              className="h-9 w-9 items-center justify-center rounded-xl">
+              <Ionicons name="close-circle-outline" size={18} color="#a1a1aa" />
+            </Pressable>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View className="flex-1 bg-zinc-950">
+      <View className="flex-row items-center justify-between border-b border-zinc-800 px-6 py-4">
+        <View className="flex-1">
+          <Text className="text-xl font-bold text-zinc-100">Share Link</Text>
+          <Text className="mt-1 text-sm text-zinc-500" numberOfLines={1}>
+            {file.name}
+          </Text>
+        </View>
+        <Pressable
+          onPress={onClose}
+          className="h-10 w-10 items-center justify-center rounded-xl bg-zinc-900">
+          <Ionicons name="close" size={20} color="#a1a1aa" />
+        </Pressable>
+      </View>
+
+      <View className="border-b border-zinc-800 px-6 py-4">
+        <Text className="mb-2 text-sm text-zinc-400">Expires after</Text>
+        <View className="mb-4 flex-row gap-2">
+          {EXPIRY_OPTIONS.map((option, index) => (
+            <Pressable
+              key={option.label}
+              onPress={() => setExpiryIndex(index)}
+              className={`rounded-xl px-3 py-2 ${
+                expiryIndex === index ? 'bg-zinc-200' : 'bg-zinc-900'
+              }`}>
+              <Text
+                className={`text-sm ${expiryIndex === index ? 'text-zinc-900' : 'text-zinc-400'}`}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <View className="mb-3 flex-row gap-3">
+          <TextInput
+            value={maxDownloads}
+            onChangeText={setMaxDownloads}
+            placeholder="Max downloads"
+            placeholderTextColor="#71717a"
+            keyboardType="number-pad"
+            className="flex-1 rounded-2xl bg-zinc-900 px-4 py-3 text-base text-zinc-100"
+          />
+          <TextInput
+            value={password}
+            onChangeText={setPassword}
+            placeholder="Password (optional)"
+            placeholderTextColor="#71717a"
+            secureTextEntry
+            autoCapitalize="none"
+            className="flex-1 rounded-2xl bg-zinc-900 px-4 py-3 text-base text-zinc-100"
+          />
+        </View>
+
+        <Button
+          variant="primary"
+          size="lg"
+          title="Create Link"
+          onPress={handleCreate}
+          loading={createMutation.isPending}
+          leftIcon={<Ionicons name="link-outline" size={20} color="#18181b" />}
+          className="w-full"
+        />
+      </View>
+
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="small" color="#71717a" />
+        </View>
+      ) : (
+        <FlatList
+          data={links}
+          keyExtractor={(item) => item.id}
+          renderItem={renderLink}
+          contentContainerStyle={{ paddingVertical: 16 }}
+          ListEmptyComponent={
+            <Text className="px-8 py-8 text-center text-sm text-zinc-500">
+              No share links yet. Anyone with a link can download this file without signing in.
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+};
@@ -0,0 +1,63 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Pressable, Text, View } from 'react-native';
+import { SORT_FIELDS, SortField, SortOrder } from '../lib/sortOrder';
+
+interface SortSheetProps {
+  sort: SortOrder;
+  onChange: (sort: SortOrder) => void;
+}
+
+// Names read best A to Z, everything else newest or largest first
+const DEFAULT_ASCENDING: Record<SortField, boolean> = {
+  name: true,
+  size: false,
+  type: true,
+  created_at: false,
+  updated_at: false,
+};
+
+const DIRECTION_LABELS: Record<SortField, [string, string]> = {
+  name: ['A to Z', 'Z to A'],
+  size: ['Smallest first', 'Largest first'],
+  type: ['A to Z', 'Z to A'],
+  created_at: ['Oldest first', 'Newest first'],
+  updated_at: ['Oldest first', 'Newest first'],
+};
+
+export const SortSheet: React.FC<SortSheetProps> = ({ sort, onChange }) => (
+  <View>
+    <Text className="mb-4 text-xl font-bold text-zinc-100">Sort by</Text>
+    {(Object.keys(SORT_FIELDS) as SortField[]).map((field) => {
+      const selected = sort.field === field;
+      return (
+        <Pressable
+          key={field}
+          // Picking the current field again flips its direction
+          onPress={() =>
+            onChange({
+              field,
+              ascending: selected ? !sort.ascending : DEFAULT_ASCENDING[field],
+            })
+          }
+          className={`mb-2 flex-row items-center justify-between rounded-xl px-4 py-3 ${
+            selected ? 'bg-zinc-800' : 'bg-zinc-900'
+          }`}>
+          <View>
+            <Text className={`text-base ${selected ? 'text-zinc-100' : 'text-zinc-300'}`}>
+              {SORT_FIELDS[field]}
+            </Text>
+            {selected && (
+              <Text className="text-xs text-zinc-500">
+                {DIRECTION_LABELS[field][sort.ascending ? 0 : 1]}
+              </Text>
+            )}
+          </View>
+          {selected && (
+            <Ionicons name={sort.ascending ? 'arrow-up' : 'arrow-down'} size={18} color="#a1a1aa" />
+          )}
+        </Pressable>
+      );
+    })}
+  </View>
+);
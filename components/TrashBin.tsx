@@ -0,0 +1,186 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useMemo } from 'react';
+import { ActivityIndicator, Alert, FlatList, Pressable, Text, View } from 'react-native';
+import { SAFE_LIMITS } from '../config/safeLimits';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  useDeleteForeverMutation,
+  useEmptyTrashMutation,
+  useRestoreItemMutation,
+  useTrashQuery,
+} from '../queries';
+import { File, Folder, formatFileSize } from '../types/database';
+import Button from './Button';
+
+interface TrashBinProps {
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysUntilPurge = (deletedAt: string | null) => {
+  if (!deletedAt) return SAFE_LIMITS.TRASH_RETENTION_DAYS;
+  const elapsed = Date.now() - new Date(deletedAt).getTime();
+  return Math.max(0, Math.ceil(SAFE_LIMITS.TRASH_RETENTION_DAYS - elapsed / DAY_MS));
+};
+
+export const TrashBin: React.FC<TrashBinProps> = ({ onClose }) => {
+  const { user } = useAuth();
+  const { data, isLoading } = useTrashQuery(user?.id);
+  const restoreMutation = useRestoreItemMutation();
+  const emptyTrashMutation = useEmptyTrashMutation();
+  const deleteForeverMutation = useDeleteForeverMutation();
+
+  const items = useMemo(
+    () =>
+      [
+        ...(data?.folders ?? []).map((folder) => ({ ...folder, type: 'folder' as const })),
+        ...(data?.files ?? []).map((file) => ({ ...file, type: 'file' as const })),
+      ].sort((a, b) => new Date(b.deleted_at!).getTime() - new Date(a.deleted_at!).getTime()),
+    [data]
+  );
+
+  const handleRestore = async (item: Folder | File) => {
+    try {
+      await restoreMutation.mutateAsync({ id: item.id, type: item.type });
+    } catch (error) {
+      Alert.alert('Error', `Failed to restore ${item.name}. ${(error as Error).message}`);
+    }
+  };
+
+  const handleDeleteForever = (item: Folder | File) => {
+    Alert.alert(
+      'Delete Forever',
+      item.type === 'folder'
+        ? `Permanently delete "${item.name}" and everything in it? This action cannot be undone.`
+        : `Permanently delete "${item.name}"? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteForeverMutation.mutateAsync({ id: item.id, type: item.type });
+            } catch (error) {
+              Alert.alert('Error', `Failed to delete ${item.name}. ${(error as Error).message}`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${items.length} item${items.length === 1 ? '' : 's'}? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await emptyTrashMutation.mutateAsync();
+            } catch (error) {
+              Alert.alert('Error', `Failed to empty trash. ${(error as Error).message}`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: Folder | File }) => (
+    <View className="mx-4 mb-3 flex-row items-center rounded-2xl bg-zinc-900 p-4">
+      <View className="mr-4 h-10 w-10 items-center justify-center rounded-xl bg-zinc-800">
+        <Ionicons
+          name={item.type === 'folder' ? 'folder' : 'document-text'}
+          size={20}
+          color="#71717a"
+        />
+      </View>
+      <View className="flex-1">
+        <Text className="text-base font-semibold text-zinc-100" numberOfLines={1}>
+          {item.name}
+        </Text>
+        <Text className="mt-1 text-xs text-zinc-500">
+          {item.type === 'file' ? `${formatFileSize(item.size_bytes)} • ` : ''}
+          Deleted forever in {daysUntilPurge(item.deleted_at)} days
+        </Text>
+      </View>
+      <Button
+        variant="ghost"
+        size="sm"
+        title="Restore"
+        onPress={() => handleRestore(item)}
+        disabled={restoreMutation.isPending}
+        leftIcon={<Ionicons name="arrow-undo-outline" size={16} color="#a1a1aa" />}
+      />
+      <Pressable
+        onPress={() => handleDeleteForever(item)}
+        disabled={deleteForeverMutation.isPending}
+        className="ml-1 h-8 w-8 items-center justify-center rounded-lg active:bg-zinc-800">
+        <Ionicons name="trash-outline" size={16} color="#a1a1aa" />
+      </Pressable>
+    </View>
+  );
+
+  return (
+    <View className="flex-1 bg-zinc-950">
+      <View className="flex-row items-center justify-between border-b border-zinc-800 px-6 py-4">
+        <View className="flex-1">
+          <Text className="text-xl font-bold text-zinc-100">Trash</Text>
+          <Text className="mt-1 text-sm text-zinc-500">
+            Items are deleted forever after {SAFE_LIMITS.TRASH_RETENTION_DAYS} days
+          </Text>
+        </View>
+        <Pressable
+          onPress={onClose}
+          className="h-10 w-10 items-center justify-center rounded-xl bg-zinc-900">
+          <Ionicons name="close" size={20} color="#a1a1aa" />
+        </Pressable>
+      </View>
+
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="small" color="#71717a" />
+          <Text className="mt-3 text-sm text-zinc-500">Loading trash...</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={items}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          contentContainerStyle={{ paddingVertical: 16 }}
+          ListEmptyComponent={
+            <View className="items-center justify-center px-8 py-16">
+              <View className="mb-4 h-20 w-20 items-center justify-center rounded-3xl bg-zinc-900">
+                <Ionicons name="trash-outline" size={32} color="#71717a" />
+              </View>
+              <Text className="mb-2 text-lg font-semibold text-zinc-100">Trash is Empty</Text>
+              <Text className="text-center text-sm text-zinc-500">
+                Deleted files and folders will appear here.
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      {items.length > 0 && (
+        <View className="border-t border-zinc-800 px-6 py-4">
+          <Button
+            variant="danger"
+            size="lg"
+            title="Empty Trash"
+            onPress={handleEmptyTrash}
+            loading={emptyTrashMutation.isPending}
+            leftIcon={<Ionicons name="trash-outline" size={20} color="#d4d4d8" />}
+            className="w-full"
+          />
+        </View>
+      )}
+    </View>
+  );
+};
@@ -0,0 +1,53 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ActivityIndicator, Pressable, Text, View } from 'react-native';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import { summarizeUploads } from '../lib/uploadQueue';
+
+interface UploadProgressIndicatorProps {
+  bottomOffset: number;
+  onPress: () => void;
+}
+
+// Floats above the tab bar while uploads run, and stays to point at any that failed
+export const UploadProgressIndicator: React.FC<UploadProgressIndicatorProps> = ({
+  bottomOffset,
+  onPress,
+}) => {
+  const queue = useUploadQueue();
+  const { active, paused, failed, total, totalBytes, bytesSent } = summarizeUploads(queue);
+  const running = active - paused;
+  const progress = totalBytes > 0 ? bytesSent / totalBytes : 0;
+
+  if (active === 0 && failed === 0) return null;
+
+  return (
+    <Pressable
+      onPress={onPress}
+      className="absolute left-4 right-4 rounded-2xl border border-zinc-800 bg-zinc-900 px-4 py-3"
+      style={{ bottom: bottomOffset }}>
+      <View className="flex-row items-center">
+        {running > 0 ? (
+          <ActivityIndicator size="small" color="#a1a1aa" />
+        ) : active > 0 ? (
+          <Ionicons name="pause-circle" size={20} color="#a1a1aa" />
+        ) : (
+          <Ionicons name="alert-circle" size={20} color="#f87171" />
+        )}
+        <Text className="ml-3 flex-1 text-sm font-medium text-zinc-100" numberOfLines={1}>
+          {running > 0
+            ? `Uploading ${total - active + 1} of ${total} • ${Math.round(progress * 100)}%`
+            : active > 0
+              ? `Uploads paused • ${Math.round(progress * 100)}%`
+              : `${failed} upload${failed === 1 ? '' : 's'} failed`}
+        </Text>
+        <Ionicons name="chevron-forward" size={18} color="#71717a" />
+      </View>
+      {active > 0 && (
+        <View className="mt-2 h-1 rounded-full bg-zinc-800">
+          <View className="h-1 rounded-full bg-blue-500" style={{ width: `${progress * 100}%` }} />
+        </View>
+      )}
+    </Pressable>
+  );
+};
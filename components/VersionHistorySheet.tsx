@@ -0,0 +1,169 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ActivityIndicator, Alert, FlatList, Pressable, Text, View } from 'react-native';
+import {
+  useFileVersionsQuery,
+  usePruneFileVersionsMutation,
+  useRestoreFileVersionMutation,
+} from '../queries';
+import { File, FileVersion, formatFileSize } from '../types/database';
+
+interface VersionHistorySheetProps {
+  file: File;
+  // Viewers can download old versions but not restore or delete them
+  canEdit: boolean;
+  onDownload: (version: FileVersion) => void;
+  onClose: () => void;
+}
+
+const PRUNE_OPTIONS: { label: string; keep?: number; olderThanDays?: number }[] = [
+  { label: 'Keep the latest 5', keep: 5 },
+  { label: 'Keep the latest 1', keep: 1 },
+  { label: 'Older than 30 days', olderThanDays: 30 },
+];
+
+export const VersionHistorySheet: React.FC<VersionHistorySheetProps> = ({
+  file,
+  canEdit,
+  onDownload,
+  onClose,
+}) => {
+  const { data: versions = [], isLoading } = useFileVersionsQuery(file.id);
+  const restoreMutation = useRestoreFileVersionMutation();
+  const pruneMutation = usePruneFileVersionsMutation();
+
+  const handleRestore = (version: FileVersion) => {
+    Alert.alert(
+      `Restore version ${version.version}`,
+      'The current contents will be kept as a version, so you can switch back later.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            try {
+              await restoreMutation.mutateAsync({ versionId: version.id, fileId: file.id });
+              onClose();
+            } catch (error) {
+              Alert.alert('Error', `Failed to restore version. ${(error as Error).message}`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handlePrune = () => {
+    Alert.alert('Delete Old Versions', 'Deleted versions cannot be recovered.', [
+      ...PRUNE_OPTIONS.map(({ label, keep, olderThanDays }) => ({
+        text: label,
+        style: 'destructive' as const,
+        onPress: async () => {
+          try {
+            const removed = await pruneMutation.mutateAsync({
+              fileId: file.id,
+              keep,
+              before: olderThanDays
+                ? new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000).toISOString()
+                : undefined,
+            });
+            Alert.alert(
+              'Versions Deleted',
+              `${removed} version${removed === 1 ? '' : 's'} deleted.`
+            );
+          } catch (error) {
+            Alert.alert('Error', `Failed to delete versions. ${(error as Error).message}`);
+          }
+        },
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const renderVersion = ({ item }: { item: FileVersion }) => (
+    <View className="mx-4 mb-3 flex-row items-center rounded-2xl bg-zinc-900 p-4">
+      <View className="mr-4 h-10 w-10 items-center justify-center rounded-xl bg-zinc-800">
+        <Text className="text-sm font-semibold text-zinc-400">v{item.version}</Text>
+      </View>
+      <View className="flex-1">
+        <Text className="text-sm font-semibold text-zinc-100" numberOfLines={1}>
+          {new Date(item.created_at!).toLocaleString()}
+        </Text>
+        <Text className="mt-1 text-xs text-zinc-500">{formatFileSize(item.size_bytes)}</Text>
+      </View>
+      <View className="flex-row">
+        <Pressable
+          onPress={() => onDownload(item)}
+          className="h-9 w-9 items-center justify-center rounded-xl">
+          <Ionicons name="download-outline" size={18} color="#a1a1aa" />
+        </Pressable>
+        {canEdit && (
+          <Pressable
+            onPress={() => handleRestore(item)}
+            disabled={restoreMutation.isPending}
+            className="h-9 w-9 items-center justify-center rounded-xl">
+            <Ionicons name="arrow-undo-outline" size={18} color="#a1a1aa" />
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <View className="flex-1 bg-zinc-950">
+      <View className="flex-row items-center justify-between border-b border-zinc-800 px-6 py-4">
+        <View className="flex-1">
+          <Text className="text-xl font-bold text-zinc-100">Version History</Text>
+          <Text className="mt-1 text-sm text-zinc-500" numberOfLines={1}>
+            {file.name}
+          </Text>
+        </View>
+        {canEdit && versions.length > 0 && (
+          <Pressable
+            onPress={handlePrune}
+            disabled={pruneMutation.isPending}
+            className="mr-2 h-10 w-10 items-center justify-center rounded-xl bg-zinc-900">
+            <Ionicons name="trash-outline" size={20} color="#a1a1aa" />
+          </Pressable>
+        )}
+        <Pressable
+          onPress={onClose}
+          className="h-10 w-10 items-center justify-center rounded-xl bg-zinc-900">
+          <Ionicons name="close" size={20} color="#a1a1aa" />
+        </Pressable>
+      </View>
+
+      <View className="mx-4 mt-4 flex-row items-center rounded-2xl border border-zinc-800 p-4">
+        <View className="mr-4 h-10 w-10 items-center justify-center rounded-xl bg-zinc-800">
+          <Text className="text-sm font-semibold text-zinc-100">v{file.version}</Text>
+        </View>
+        <View className="flex-1">
+          <Text className="text-sm font-semibold text-zinc-100">Current version</Text>
+          <Text className="mt-1 text-xs text-zinc-500">
+            {file.version_created_at ? new Date(file.version_created_at).toLocaleString() : ''}
+            {file.version_created_at ? ' • ' : ''}
+            {formatFileSize(file.size_bytes)}
+          </Text>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="small" color="#71717a" />
+        </View>
+      ) : (
+        <FlatList
+          data={versions}
+          keyExtractor={(item) => item.id}
+          renderItem={renderVersion}
+          contentContainerStyle={{ paddingVertical: 16 }}
+          ListEmptyComponent={
+            <Text className="px-8 py-8 text-center text-sm text-zinc-500">
+              No earlier versions. Uploading a file with the same name to this folder adds one.
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+};
@@ -49,12 +49,22 @@ export const SAFE_LIMITS = {
 
   // Performance limits
   MAX_CONCURRENT_UPLOADS: 3,
+  UPLOAD_MAX_ATTEMPTS: 3, // Attempts per file in the upload queue before it is marked failed
   UPLOAD_TIMEOUT: 300000, // 5 minutes in milliseconds
   DOWNLOAD_TIMEOUT: 300000, // 5 minutes in milliseconds
 
+  // Multipart upload limits
+  MULTIPART_THRESHOLD: 10 * 1024 * 1024, // Files above one part go up in parts, so hashing never reads more than a part
+  MULTIPART_PART_SIZE: 10 * 1024 * 1024, // 10MB per part (S3 minimum is 5MB)
+  MULTIPART_URL_BATCH_SIZE: 20, // Part URLs presigned per request
+  MULTIPART_MAX_RETRIES: 5, // Attempts per part before the upload fails
+
   // Cache limits
   MAX_CACHE_SIZE: 100 * 1024 * 1024, // 100MB
   CACHE_EXPIRY: 24 * 60 * 60 * 1000, // 24 hours in milliseconds
+
+  // Trash limits
+  TRASH_RETENTION_DAYS: 30, // Must match TRASH_RETENTION_DAYS of the purge-trash function
 };
 
 // Helper functions to check limits
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getUploadQueue, subscribeToUploadQueue } from '../lib/uploadQueue';
+
+// The signed in user's uploads, oldest first, re-rendering as they progress
+export function useUploadQueue() {
+  const { user } = useAuth();
+  const items = useSyncExternalStore(subscribeToUploadQueue, getUploadQueue);
+  return items.filter((item) => item.userId === user?.id);
+}
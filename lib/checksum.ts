@@ -0,0 +1,57 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { SAFE_LIMITS } from '../config/safeLimits';
+
+const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+
+const bytesToBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const sha256 = async (bytes: Uint8Array) =>
+  new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, bytes));
+
+/**
+ * SHA-256 of a byte range of a local file, base64 encoded like S3's x-amz-checksum-sha256.
+ * expo-crypto can only hash a whole buffer, so callers keep ranges to one upload part.
+ */
+export const hashFileRange = async (uri: string, position: number, length: number) => {
+  const chunk = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length,
+  });
+  return bytesToBase64(await sha256(base64ToBytes(chunk)));
+};
+
+// S3's composite checksum for multipart uploads: the hash of the part hashes plus the part count
+const combinePartChecksums = async (partChecksums: string[]) => {
+  const digests = new Uint8Array(partChecksums.length * 32);
+  partChecksums.forEach((checksum, index) => digests.set(base64ToBytes(checksum), index * 32));
+  return `${bytesToBase64(await sha256(digests))}-${partChecksums.length}`;
+};
+
+/**
+ * Checksum of a local file in the format S3 reports for it: a plain SHA-256 for single
+ * uploads, or a composite checksum when the file was uploaded in parts of partSize.
+ */
+export const computeFileChecksum = async (uri: string, size: number, partSize?: number) => {
+  if (!partSize) {
+    return hashFileRange(uri, 0, size);
+  }
+
+  const partChecksums: string[] = [];
+  for (let position = 0; position < size || partChecksums.length === 0; position += partSize) {
+    partChecksums.push(await hashFileRange(uri, position, Math.min(partSize, size - position)));
+  }
+  return combinePartChecksums(partChecksums);
+};
+
+// Composite checksums end in "-<part count>" and were uploaded in MULTIPART_PART_SIZE parts
+export const verifyFileChecksum = async (uri: string, size: number, expected: string) => {
+  const isComposite = /-\d+$/.test(expected);
+  const actual = await computeFileChecksum(
+    uri,
+    size,
+    isComposite ? SAFE_LIMITS.MULTIPART_PART_SIZE : undefined
+  );
+  return actual === expected;
+};
@@ -0,0 +1,45 @@
+/**
+ * Splits CSV text into rows of fields, following RFC 4180 quoting. A quoted field can
+ * contain line breaks, so unless the text is complete a row still open at the end is left
+ * out; it is parsed once the rest of it has been loaded.
+ */
+export const parseCsv = (text: string, complete: boolean): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (complete && (field || row.length > 0)) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
@@ -0,0 +1,19 @@
+import { getFileIcon } from '../types/database';
+import { isCodeFileName } from './syntaxHighlight';
+
+export type DocumentPreviewType = 'pdf' | 'csv' | 'code' | 'text';
+
+// How the document viewer shows a file, or null when it cannot. Source files mostly arrive
+// as text/plain, so their extension decides before the type does.
+export const getDocumentPreviewType = (
+  mimeType: string | null | undefined,
+  fileName: string
+): DocumentPreviewType | null => {
+  const iconType = getFileIcon(mimeType || undefined);
+
+  if (iconType === 'pdf') return 'pdf';
+  if (mimeType === 'text/csv' || fileName.toLowerCase().endsWith('.csv')) return 'csv';
+  if (isCodeFileName(fileName) || iconType === 'code') return 'code';
+  if (iconType === 'text') return 'text';
+  return null;
+};
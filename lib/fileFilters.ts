@@ -0,0 +1,116 @@
+import { FileIconType } from '../types/database';
+
+export type FileTypeFilter = Exclude<FileIconType, 'unknown'>;
+
+export type SizeRange = 'any' | 'small' | 'medium' | 'large' | 'huge';
+export type DateRange = 'any' | 'today' | 'week' | 'month' | 'year' | 'custom';
+
+export interface FileFilters {
+  types: FileTypeFilter[];
+  size: SizeRange;
+  dateField: 'created_at' | 'updated_at';
+  date: DateRange;
+  // Days of a custom range as YYYY-MM-DD, both included; either may be left open
+  dateFrom?: string;
+  dateTo?: string;
+  // 'folder' is the current folder and everything below it
+  scope: 'folder' | 'everywhere';
+}
+
+export const DEFAULT_FILE_FILTERS: FileFilters = {
+  types: [],
+  size: 'any',
+  dateField: 'created_at',
+  date: 'any',
+  scope: 'everywhere',
+};
+
+// MIME type patterns for each category, in PostgREST's like syntax. These follow
+// getFileIcon, which is how the categories look in the file list.
+export const FILE_TYPE_PATTERNS: Record<FileTypeFilter, string[]> = {
+  image: ['image/*'],
+  video: ['video/*'],
+  audio: ['audio/*'],
+  pdf: ['application/pdf'],
+  document: ['*msword*', '*wordprocessing*', '*opendocument.text*', 'application/rtf'],
+  spreadsheet: ['*spreadsheet*', '*excel*'],
+  presentation: ['*presentation*', '*powerpoint*'],
+  text: ['text/*'],
+  archive: ['*zip*', '*rar*', '*tar*'],
+  code: ['*javascript*', '*json*', '*xml*'],
+};
+
+const MB = 1024 * 1024;
+
+export const SIZE_RANGES: Record<SizeRange, { label: string; min?: number; max?: number }> = {
+  any: { label: 'Any size' },
+  small: { label: 'Under 1 MB', max: MB },
+  medium: { label: '1–10 MB', min: MB, max: 10 * MB },
+  large: { label: '10–100 MB', min: 10 * MB, max: 100 * MB },
+  huge: { label: 'Over 100 MB', min: 100 * MB },
+};
+
+export const DATE_RANGES: Record<DateRange, string> = {
+  any: 'Any time',
+  today: 'Today',
+  week: 'Last 7 days',
+  month: 'Last 30 days',
+  year: 'Last year',
+  custom: 'Custom range',
+};
+
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Local midnight of a YYYY-MM-DD day, or undefined when it is not a real date
+export const parseDay = (day: string | undefined): Date | undefined => {
+  const match = day?.trim().match(DAY_PATTERN);
+  if (!match) return undefined;
+
+  const [year, month, date] = match.slice(1).map(Number);
+  const start = new Date(year, month - 1, date);
+  // Date rolls 2025-02-30 over into March rather than failing
+  if (start.getMonth() !== month - 1 || start.getDate() !== date) return undefined;
+  return start;
+};
+
+/**
+ * Bounds of the date filter as ISO timestamps, `from` included and `to` excluded. The preset
+ * ranges start at midnight and end now, which keeps the values the same for every page of a
+ * query. A custom range runs from the start of its first day to the end of its last.
+ */
+export const getDateRangeBounds = (filters: FileFilters): { from?: string; to?: string } => {
+  if (filters.date === 'any') return {};
+
+  if (filters.date === 'custom') {
+    const from = parseDay(filters.dateFrom);
+    const to = parseDay(filters.dateTo);
+    to?.setDate(to.getDate() + 1);
+    return { from: from?.toISOString(), to: to?.toISOString() };
+  }
+
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  if (filters.date === 'week') start.setDate(start.getDate() - 7);
+  if (filters.date === 'month') start.setDate(start.getDate() - 30);
+  if (filters.date === 'year') start.setFullYear(start.getFullYear() - 1);
+  return { from: start.toISOString() };
+};
+
+export const countActiveFilters = (filters: FileFilters) =>
+  (filters.types.length > 0 ? 1 : 0) +
+  (filters.size !== 'any' ? 1 : 0) +
+  (filters.date !== 'any' ? 1 : 0) +
+  (filters.scope !== DEFAULT_FILE_FILTERS.scope ? 1 : 0);
+
+export const hasActiveFilters = (filters: FileFilters) => countActiveFilters(filters) > 0;
+
+// An `or` filter matching any of the selected categories
+export const getMimeTypeFilter = (types: FileTypeFilter[]) =>
+  types
+    .flatMap((type) => FILE_TYPE_PATTERNS[type])
+    .map((pattern) => `mime_type.ilike.${pattern}`)
+    .join(',');
+
+// The same patterns for search_items, which matches them with SQL ILIKE
+export const getMimeTypePatterns = (types: FileTypeFilter[]) =>
+  types.flatMap((type) => FILE_TYPE_PATTERNS[type]).map((pattern) => pattern.replace(/\*/g, '%'));
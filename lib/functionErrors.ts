@@ -0,0 +1,41 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// Codes returned alongside `error` by the upload-to-s3 function
+export type FunctionErrorCode =
+  | 'INVALID_KEY'
+  | 'OBJECT_NOT_FOUND'
+  | 'SIZE_MISMATCH'
+  | 'TYPE_MISMATCH'
+  | 'CHECKSUM_MISMATCH'
+  | 'QUOTA_EXCEEDED'
+  | 'NAME_CONFLICT';
+
+export class FunctionError extends Error {
+  code?: FunctionErrorCode;
+  status?: number;
+  details?: unknown;
+
+  constructor(message: string, code?: FunctionErrorCode, status?: number, details?: unknown) {
+    super(message);
+    this.name = 'FunctionError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * supabase-js only reports "Edge Function returned a non-2xx status code". This reads the
+ * JSON body of the response so callers get the server's message and error code.
+ */
+export const toFunctionError = async (error: unknown): Promise<Error> => {
+  if (!(error instanceof FunctionsHttpError)) return error as Error;
+
+  const response = error.context as Response;
+  try {
+    const body = await response.json();
+    return new FunctionError(body.error ?? error.message, body.code, response.status, body.details);
+  } catch {
+    return error;
+  }
+};
@@ -0,0 +1,15 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const LAST_FOLDER_STORAGE_KEY = 'last-folder-id';
+
+// The folder the Files tab was showing, so the next launch opens there; null is the top level
+export const getLastFolderId = async (): Promise<string | null> =>
+  AsyncStorage.getItem(LAST_FOLDER_STORAGE_KEY);
+
+export const saveLastFolderId = async (folderId: string | null) => {
+  if (folderId) {
+    await AsyncStorage.setItem(LAST_FOLDER_STORAGE_KEY, folderId);
+  } else {
+    await AsyncStorage.removeItem(LAST_FOLDER_STORAGE_KEY);
+  }
+};
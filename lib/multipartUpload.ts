@@ -0,0 +1,302 @@
+import * as FileSystem from 'expo-file-system';
+import { SAFE_LIMITS } from '../config/safeLimits';
+import { hashFileRange } from './checksum';
+import { toFunctionError } from './functionErrors';
+import { createStoredMap } from './storedMap';
+import { supabase } from './supabase';
+import { TransferAbortedError, TransferOptions, transferFile } from './transfer';
+
+const SESSIONS_STORAGE_KEY = 'multipart-upload-sessions';
+const PART_CACHE_DIRECTORY = `${FileSystem.cacheDirectory}multipart-parts/`;
+
+export interface MultipartUploadFile {
+  name: string;
+  uri: string;
+  type: string;
+  size: number;
+}
+
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+  checksum: string;
+}
+
+/**
+ * Everything needed to pick an interrupted upload back up, persisted after every part
+ * so it survives the app being killed.
+ */
+export interface MultipartUploadSession {
+  // The file's checksum and destination folder, see getFingerprint
+  fingerprint: string;
+  fileName: string;
+  fileUri: string;
+  fileType: string;
+  fileSize: number;
+  // Missing on sessions started before keys were stored in the folder owner's account, which
+  // were all uploaded to the user's own
+  folderId?: string | null;
+  s3Key: string;
+  uploadId: string;
+  partSize: number;
+  // Missing on sessions started before parts carried SHA-256 checksums
+  checksumAlgorithm?: 'SHA256';
+  completedParts: CompletedPart[];
+  updatedAt: number;
+}
+
+export const shouldUseMultipart = (size: number): boolean => {
+  return size > SAFE_LIMITS.MULTIPART_THRESHOLD;
+};
+
+// Different files can share a name and size, their contents cannot. The same file going to
+// two folders is two uploads.
+const getFingerprint = (checksumSha256: string, folderId: string | null) =>
+  `${folderId ?? 'root'}:${checksumSha256}`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const invokeUploadAction = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('upload-to-s3', { body });
+  if (error) throw await toFunctionError(error);
+  return data as T;
+};
+
+// Sessions are kept until their upload completes or is discarded, their parts wait in S3
+const sessions = createStoredMap<MultipartUploadSession>(SESSIONS_STORAGE_KEY);
+
+export const getPendingMultipartUploads = async (): Promise<MultipartUploadSession[]> => {
+  return Object.values(await sessions.read()).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const discardMultipartUpload = async (session: MultipartUploadSession) => {
+  try {
+    await invokeUploadAction({
+      action: 'abort-multipart-upload',
+      s3Key: session.s3Key,
+      uploadId: session.uploadId,
+      folderId: session.folderId ?? null,
+    });
+  } finally {
+    await sessions.remove(session.fingerprint);
+  }
+};
+
+// Aborts the interrupted upload of this content to the folder, if there is one
+export const discardMultipartUploadFor = async (
+  checksumSha256: string,
+  folderId: string | null
+) => {
+  const session = await sessions.get(getFingerprint(checksumSha256, folderId));
+  if (session) await discardMultipartUpload(session);
+};
+
+const getPartRange = (
+  file: MultipartUploadFile,
+  session: MultipartUploadSession,
+  partNumber: number
+) => {
+  const position = (partNumber - 1) * session.partSize;
+  return { position, length: Math.min(session.partSize, file.size - position) };
+};
+
+const getUploadedBytes = (file: MultipartUploadFile, session: MultipartUploadSession) =>
+  session.completedParts.reduce(
+    (sum, part) => sum + getPartRange(file, session, part.partNumber).length,
+    0
+  );
+
+const uploadPart = async (
+  file: MultipartUploadFile,
+  session: MultipartUploadSession,
+  partNumber: number,
+  url: string,
+  checksum: string,
+  options: TransferOptions
+): Promise<CompletedPart> => {
+  const { position, length } = getPartRange(file, session, partNumber);
+  const partUri = `${PART_CACHE_DIRECTORY}${session.uploadId}-${partNumber}`;
+
+  // Parts are staged in the cache so the native uploader can stream them from disk
+  const chunk = await FileSystem.readAsStringAsync(file.uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length,
+  });
+  await FileSystem.writeAsStringAsync(partUri, chunk, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  try {
+    const result = await transferFile(
+      url,
+      partUri,
+      {
+        httpMethod: 'PUT',
+        uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+      },
+      options
+    );
+
+    if (result.status < 200 || result.status >= 300) {
+      throw new Error(`Part ${partNumber} failed with status ${result.status}`);
+    }
+
+    const etag = result.headers.ETag ?? result.headers.etag ?? result.headers.Etag;
+    if (!etag) {
+      throw new Error(`Part ${partNumber} returned no ETag`);
+    }
+
+    return { partNumber, etag, checksum };
+  } finally {
+    await FileSystem.deleteAsync(partUri, { idempotent: true });
+  }
+};
+
+const uploadPartWithRetry = async (
+  file: MultipartUploadFile,
+  session: MultipartUploadSession,
+  partNumber: number,
+  url: string,
+  checksum: string,
+  options: TransferOptions
+): Promise<CompletedPart> => {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < SAFE_LIMITS.MULTIPART_MAX_RETRIES; attempt++) {
+    try {
+      return await uploadPart(file, session, partNumber, url, checksum, options);
+    } catch (error) {
+      if (error instanceof TransferAbortedError) throw error;
+      lastError = error;
+      await sleep(Math.min(1000 * 2 ** attempt, 30000));
+      if (options.signal?.aborted) throw new TransferAbortedError();
+    }
+  }
+
+  throw lastError;
+};
+
+/**
+ * Uploads a file to S3 in parts. If a previous attempt to upload the same contents to the
+ * folder was interrupted, the parts that already reached S3 are skipped. folderId is the destination folder, which decides
+ * the account the object is stored in, and checksumSha256 the file's composite checksum.
+ * Progress is reported in bytes of the file. Aborting the signal stops after the current
+ * request and keeps the session, so the upload can be picked up again later.
+ * Returns the S3 key of the assembled object, or null when the same content is already
+ * stored and nothing was uploaded.
+ */
+export const uploadFileMultipart = async (
+  file: MultipartUploadFile,
+  folderId: string | null,
+  checksumSha256: string,
+  { signal, onProgress }: TransferOptions = {}
+): Promise<string | null> => {
+  const fingerprint = getFingerprint(checksumSha256, folderId);
+  let session = await sessions.get(fingerprint);
+
+  // Parts of older sessions have no checksums, so the upload cannot be completed with them
+  if (session && !session.checksumAlgorithm) {
+    await discardMultipartUpload(session).catch(() => {});
+    session = undefined;
+  }
+
+  if (!session) {
+    const { s3Key, uploadId, duplicate } = await invokeUploadAction<{
+      s3Key: string;
+      uploadId: string;
+      duplicate?: boolean;
+    }>({
+      action: 'create-multipart-upload',
+      fileName: file.name,
+      fileType: file.type,
+      fileSize: file.size,
+      folderId,
+      checksumSha256,
+    });
+
+    if (duplicate) {
+      onProgress?.(file.size);
+      return null;
+    }
+
+    session = {
+      fingerprint,
+      fileName: file.name,
+      fileUri: file.uri,
+      fileType: file.type,
+      fileSize: file.size,
+      folderId,
+      s3Key,
+      uploadId,
+      partSize: SAFE_LIMITS.MULTIPART_PART_SIZE,
+      checksumAlgorithm: 'SHA256',
+      completedParts: [],
+      updatedAt: Date.now(),
+    };
+    await sessions.set(fingerprint, session);
+  } else {
+    // The picker may have handed us a fresh copy of the same file
+    session = { ...session, fileUri: file.uri };
+  }
+
+  await FileSystem.makeDirectoryAsync(PART_CACHE_DIRECTORY, { intermediates: true }).catch(
+    () => {}
+  );
+
+  const totalParts = Math.max(1, Math.ceil(file.size / session.partSize));
+  const completed = new Set(session.completedParts.map((part) => part.partNumber));
+  const remaining = Array.from({ length: totalParts }, (_, i) => i + 1).filter(
+    (partNumber) => !completed.has(partNumber)
+  );
+
+  onProgress?.(getUploadedBytes(file, session));
+
+  // Presign in small batches so URLs don't expire while earlier parts are still uploading
+  for (let i = 0; i < remaining.length; i += SAFE_LIMITS.MULTIPART_URL_BATCH_SIZE) {
+    const partNumbers = remaining.slice(i, i + SAFE_LIMITS.MULTIPART_URL_BATCH_SIZE);
+
+    // Each URL is signed with its part's checksum, so S3 rejects a part that arrives corrupted
+    const checksums: Record<number, string> = {};
+    for (const partNumber of partNumbers) {
+      if (signal?.aborted) throw new TransferAbortedError();
+      const { position, length } = getPartRange(file, session, partNumber);
+      checksums[partNumber] = await hashFileRange(file.uri, position, length);
+    }
+
+    const { parts } = await invokeUploadAction<{ parts: { partNumber: number; url: string }[] }>({
+      action: 'get-multipart-part-urls',
+      s3Key: session.s3Key,
+      uploadId: session.uploadId,
+      folderId: session.folderId ?? null,
+      partNumbers,
+      checksums,
+    });
+
+    for (const { partNumber, url } of parts) {
+      const sentBefore = getUploadedBytes(file, session);
+      const completedPart = await uploadPartWithRetry(
+        file,
+        session,
+        partNumber,
+        url,
+        checksums[partNumber],
+        { signal, onProgress: (bytesSent) => onProgress?.(sentBefore + bytesSent) }
+      );
+      session = { ...session, completedParts: [...session.completedParts, completedPart] };
+      await sessions.set(fingerprint, session);
+      onProgress?.(getUploadedBytes(file, session));
+    }
+  }
+
+  await invokeUploadAction({
+    action: 'complete-multipart-upload',
+    s3Key: session.s3Key,
+    uploadId: session.uploadId,
+    folderId: session.folderId ?? null,
+    parts: session.completedParts,
+  });
+  await sessions.remove(fingerprint);
+
+  return session.s3Key;
+};
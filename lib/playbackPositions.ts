@@ -0,0 +1,32 @@
+import { createStoredMap } from './storedMap';
+
+const POSITIONS_STORAGE_KEY = 'playback-positions';
+const MAX_STORED_POSITIONS = 200;
+// Closer than this to either end counts as not started or finished
+const POSITION_MARGIN_SECONDS = 5;
+
+interface StoredPosition {
+  position: number;
+  updatedAt: number;
+}
+
+const positions = createStoredMap<StoredPosition>(POSITIONS_STORAGE_KEY, MAX_STORED_POSITIONS);
+
+export const getPlaybackPosition = async (fileId: string): Promise<number> => {
+  return (await positions.get(fileId))?.position ?? 0;
+};
+
+/**
+ * Remembers where playback of a file got to. Positions near the start or the end are
+ * forgotten instead, so a finished file plays from the beginning next time.
+ */
+export const savePlaybackPosition = async (fileId: string, position: number, duration: number) => {
+  if (
+    position < POSITION_MARGIN_SECONDS ||
+    (duration > 0 && duration - position < POSITION_MARGIN_SECONDS)
+  ) {
+    await positions.remove(fileId);
+  } else {
+    await positions.set(fileId, { position });
+  }
+};
@@ -0,0 +1,61 @@
+import { Buffer } from 'buffer';
+
+// Enough for a screenful of most files without fetching megabytes up front
+export const TEXT_CHUNK_SIZE = 256 * 1024;
+
+export interface TextChunk {
+  text: string;
+  // Where the next chunk starts; bytes after the last full line are fetched again with it
+  nextOffset: number;
+  done: boolean;
+}
+
+const NEWLINE = 0x0a;
+
+// Index just past the last complete UTF-8 character, so a character split by the range is
+// left for the next chunk
+const lastCharacterBoundary = (bytes: Uint8Array) => {
+  for (let back = 1; back <= Math.min(3, bytes.length); back++) {
+    const byte = bytes[bytes.length - back];
+    if ((byte & 0xc0) === 0x80) continue; // continuation byte
+    const expected = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return expected > back ? bytes.length - back : bytes.length;
+  }
+  return bytes.length;
+};
+
+/**
+ * Reads part of a text file through its signed URL with a Range request, so previews of
+ * large files only download what is shown. Chunks end on a line break where there is one.
+ */
+export const fetchTextChunk = async (
+  url: string,
+  offset: number,
+  totalSize: number,
+  chunkSize = TEXT_CHUNK_SIZE
+): Promise<TextChunk> => {
+  const end = Math.min(offset + chunkSize, totalSize) - 1;
+  const response = await fetch(url, { headers: { Range: `bytes=${offset}-${end}` } });
+  if (!response.ok) {
+    throw new Error(`Failed to read file (${response.status})`);
+  }
+
+  let bytes = new Uint8Array(await response.arrayBuffer());
+  // A server that ignores Range sends the whole file
+  if (response.status === 200 && offset > 0) {
+    bytes = bytes.subarray(offset, end + 1);
+  }
+
+  const done = offset + bytes.length >= totalSize;
+  let length = bytes.length;
+  if (!done) {
+    const lastNewline = bytes.lastIndexOf(NEWLINE);
+    length = lastNewline >= 0 ? lastNewline + 1 : lastCharacterBoundary(bytes);
+  }
+
+  return {
+    text: Buffer.from(bytes.subarray(0, length)).toString('utf8'),
+    nextOffset: offset + length,
+    done,
+  };
+};
@@ -0,0 +1,35 @@
+import * as FileSystem from 'expo-file-system';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import PdfThumbnail from 'react-native-pdf-thumbnail';
+
+// A second in, the first frame of a video is often black
+const VIDEO_FRAME_TIME_MS = 1000;
+
+// Videos and PDFs cannot be decoded by the thumbnail generator, so the device captures the
+// image their renditions are made from; keep in step with canRenderFromFrame on the server
+export const needsRenditionFrame = (mimeType: string) =>
+  mimeType.startsWith('video/') || mimeType === 'application/pdf';
+
+/**
+ * Captures a video's poster frame or a PDF's first page as a JPEG in the cache, or returns
+ * null when the file has none the device can read, e.g. a protected PDF. The caller deletes
+ * the file once it is uploaded.
+ */
+export const captureRenditionFrame = async (
+  uri: string,
+  mimeType: string
+): Promise<string | null> => {
+  try {
+    if (mimeType === 'application/pdf') {
+      return (await PdfThumbnail.generate(uri, 0, 90)).uri;
+    }
+    return (
+      await VideoThumbnails.getThumbnailAsync(uri, { time: VIDEO_FRAME_TIME_MS, quality: 0.9 })
+    ).uri;
+  } catch {
+    return null;
+  }
+};
+
+export const discardRenditionFrame = (uri: string) =>
+  FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
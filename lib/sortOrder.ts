@@ -0,0 +1,104 @@
+import { createStoredMap } from './storedMap';
+
+export type SortField = 'name' | 'size' | 'type' | 'created_at' | 'updated_at';
+
+export interface SortOrder {
+  field: SortField;
+  ascending: boolean;
+}
+
+export interface SortCursor {
+  value: string | number | null;
+  id: string;
+}
+
+export const DEFAULT_SORT_ORDER: SortOrder = { field: 'created_at', ascending: false };
+
+export const SORT_FIELDS: Record<SortField, string> = {
+  name: 'Name',
+  size: 'Size',
+  type: 'Type',
+  created_at: 'Created',
+  updated_at: 'Modified',
+};
+
+const FILE_SORT_COLUMNS: Record<SortField, string> = {
+  name: 'name',
+  size: 'size_bytes',
+  type: 'mime_type',
+  created_at: 'created_at',
+  updated_at: 'updated_at',
+};
+
+// Folders have no size or type, those sorts list them by name instead
+const FOLDER_SORT_COLUMNS: Record<SortField, string> = {
+  ...FILE_SORT_COLUMNS,
+  size: 'name',
+  type: 'name',
+};
+
+export const getSortColumn = (sort: SortOrder, table: 'files' | 'folders') =>
+  (table === 'files' ? FILE_SORT_COLUMNS : FOLDER_SORT_COLUMNS)[sort.field];
+
+// Every cursor value is quoted, names and timestamps can contain PostgREST's reserved characters
+const quoteFilterValue = (value: string | number) =>
+  `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Builds the `or` filter for the rows after a cursor in `column, id` order. The id breaks ties,
+ * so rows sharing a value are neither skipped nor repeated. NULLs follow Postgres' default of
+ * last when ascending and first when descending, which lets one index serve both directions.
+ */
+export const getCursorFilter = (column: string, ascending: boolean, cursor: SortCursor) => {
+  const op = ascending ? 'gt' : 'lt';
+  const id = quoteFilterValue(cursor.id);
+
+  if (cursor.value === null) {
+    return ascending
+      ? `and(${column}.is.null,id.${op}.${id})`
+      : `${column}.not.is.null,and(${column}.is.null,id.${op}.${id})`;
+  }
+
+  const value = quoteFilterValue(cursor.value);
+  const after = `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${id})`;
+  return ascending ? `${after},${column}.is.null` : after;
+};
+
+export const getSortCursor = (
+  row: Record<string, unknown> & { id: string },
+  column: string
+): SortCursor => ({
+  value: (row[column] ?? null) as SortCursor['value'],
+  id: row.id,
+});
+
+const SORT_ORDERS_STORAGE_KEY = 'folder-sort-orders';
+const MAX_STORED_SORT_ORDERS = 200;
+const ROOT_FOLDER_KEY = 'root';
+
+interface StoredSortOrder extends SortOrder {
+  updatedAt: number;
+}
+
+const sortOrders = createStoredMap<StoredSortOrder>(
+  SORT_ORDERS_STORAGE_KEY,
+  MAX_STORED_SORT_ORDERS
+);
+
+export const getFolderSortOrder = async (folderId: string | null): Promise<SortOrder> => {
+  const stored = await sortOrders.get(folderId ?? ROOT_FOLDER_KEY);
+  return stored ? { field: stored.field, ascending: stored.ascending } : DEFAULT_SORT_ORDER;
+};
+
+/**
+ * Remembers the sort chosen for a folder. Choosing the default forgets it again.
+ */
+export const saveFolderSortOrder = async (folderId: string | null, sort: SortOrder) => {
+  const key = folderId ?? ROOT_FOLDER_KEY;
+
+  if (sort.field === DEFAULT_SORT_ORDER.field && sort.ascending === DEFAULT_SORT_ORDER.ascending) {
+    await sortOrders.remove(key);
+  } else {
+    await sortOrders.set(key, sort);
+  }
+};
@@ -0,0 +1,46 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+interface StoredEntry {
+  updatedAt: number;
+}
+
+/**
+ * Entries kept as one JSON object under an AsyncStorage key. Changes are made one at a time,
+ * so callers running at once cannot drop each other's writes. With maxEntries, the entries
+ * updated longest ago are dropped past it, so the stored value stays small.
+ */
+export const createStoredMap = <T extends StoredEntry>(storageKey: string, maxEntries?: number) => {
+  let pendingWrite: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<Record<string, T>> => {
+    const stored = await AsyncStorage.getItem(storageKey);
+    return stored ? JSON.parse(stored) : {};
+  };
+
+  const update = (change: (entries: Record<string, T>) => void) => {
+    const write = pendingWrite.then(async () => {
+      const entries = await read();
+      change(entries);
+
+      const kept = Object.entries(entries)
+        .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+        .slice(0, maxEntries);
+      await AsyncStorage.setItem(storageKey, JSON.stringify(Object.fromEntries(kept)));
+    });
+    pendingWrite = write.catch(() => {});
+    return write;
+  };
+
+  return {
+    read,
+    get: async (key: string): Promise<T | undefined> => (await read())[key],
+    set: (key: string, value: Omit<T, 'updatedAt'>) =>
+      update((entries) => {
+        entries[key] = { ...value, updatedAt: Date.now() } as T;
+      }),
+    remove: (key: string) =>
+      update((entries) => {
+        delete entries[key];
+      }),
+  };
+};
@@ -0,0 +1,119 @@
+import { getFileExtension } from '../types/database';
+
+export type TokenKind = 'plain' | 'keyword' | 'string' | 'number' | 'comment';
+
+export interface Token {
+  text: string;
+  kind: TokenKind;
+}
+
+// Languages grouped by how they write comments, which is what tokenizing needs to know
+type Syntax = 'c' | 'hash' | 'sql' | 'markup';
+
+const SYNTAX_BY_EXTENSION: Record<string, Syntax> = {
+  '.js': 'c',
+  '.jsx': 'c',
+  '.ts': 'c',
+  '.tsx': 'c',
+  '.json': 'c',
+  '.java': 'c',
+  '.kt': 'c',
+  '.swift': 'c',
+  '.c': 'c',
+  '.h': 'c',
+  '.cpp': 'c',
+  '.cs': 'c',
+  '.go': 'c',
+  '.rs': 'c',
+  '.php': 'c',
+  '.css': 'c',
+  '.py': 'hash',
+  '.rb': 'hash',
+  '.sh': 'hash',
+  '.yml': 'hash',
+  '.yaml': 'hash',
+  '.toml': 'hash',
+  '.sql': 'sql',
+  '.html': 'markup',
+  '.xml': 'markup',
+  '.svg': 'markup',
+};
+
+export const isCodeFileName = (fileName: string) =>
+  getFileExtension(fileName).toLowerCase() in SYNTAX_BY_EXTENSION;
+
+// Common to most of the languages above; a keyword in one and a name in another is harmless
+const KEYWORDS = new Set(
+  (
+    'and as async await break case catch class const continue def default defer do elif else ' +
+    'enum except export extends false finally fn for from func function if impl import in ' +
+    'interface is let match mut new nil none not null or package private protected pub public ' +
+    'return self static struct super switch this throw true try type undefined use var void ' +
+    'while with yield select insert update delete where join table create into values set'
+  ).split(' ')
+);
+
+const COMMENT_PATTERNS: Record<Syntax, string> = {
+  c: '\\/\\/.*|\\/\\*.*?(?:\\*\\/|$)',
+  hash: '#.*',
+  sql: '--.*',
+  markup: '<!--.*?(?:-->|$)',
+};
+
+const buildPattern = (syntax: Syntax) =>
+  new RegExp(
+    [
+      `(${COMMENT_PATTERNS[syntax]})`,
+      '("(?:\\\\.|[^"\\\\])*"?|\'(?:\\\\.|[^\'\\\\])*\'?|`(?:\\\\.|[^`\\\\])*`?)',
+      '(\\b\\d+(?:\\.\\d+)?\\b)',
+      syntax === 'markup' ? '(<\\/?[\\w:-]+|\\/?>)' : '([A-Za-z_$][\\w$]*)',
+    ].join('|'),
+    'g'
+  );
+
+const PATTERNS: Record<Syntax, RegExp> = {
+  c: buildPattern('c'),
+  hash: buildPattern('hash'),
+  sql: buildPattern('sql'),
+  markup: buildPattern('markup'),
+};
+
+export const getSyntax = (fileName: string): Syntax =>
+  SYNTAX_BY_EXTENSION[getFileExtension(fileName).toLowerCase()] ?? 'c';
+
+/**
+ * Splits one line into coloured tokens. Lines are tokenized on their own, so a block
+ * comment or string spanning several lines is only coloured on its first line; good enough
+ * for reading, and it keeps chunks of a large file independent.
+ */
+export const highlightLine = (line: string, syntax: Syntax): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = PATTERNS[syntax];
+  let lastIndex = 0;
+
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(line); match; match = pattern.exec(line)) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+
+    const [text, comment, string, number, word] = match;
+    let kind: TokenKind = 'plain';
+    if (comment) kind = 'comment';
+    else if (string) kind = 'string';
+    else if (number) kind = 'number';
+    else if (word && (syntax === 'markup' || KEYWORDS.has(word.toLowerCase()))) kind = 'keyword';
+
+    if (match.index > lastIndex) {
+      tokens.push({ text: line.slice(lastIndex, match.index), kind: 'plain' });
+    }
+    tokens.push({ text, kind });
+    lastIndex = match.index + text.length;
+  }
+
+  if (lastIndex < line.length) {
+    tokens.push({ text: line.slice(lastIndex), kind: 'plain' });
+  }
+  return tokens;
+};
@@ -0,0 +1,49 @@
+import * as FileSystem from 'expo-file-system';
+
+export class TransferAbortedError extends Error {
+  constructor() {
+    super('The transfer was stopped');
+    this.name = 'TransferAbortedError';
+  }
+}
+
+export interface TransferOptions {
+  signal?: AbortSignal;
+  // Bytes of the request body sent so far
+  onProgress?: (bytesSent: number) => void;
+}
+
+/**
+ * Uploads a local file with the native uploader, reporting the bytes sent as they go. The
+ * background session keeps the transfer going while the app is not in the foreground.
+ * Aborting the signal cancels the request and rejects with TransferAbortedError.
+ */
+export const transferFile = async (
+  url: string,
+  uri: string,
+  options: FileSystem.FileSystemUploadOptions,
+  { signal, onProgress }: TransferOptions = {}
+): Promise<FileSystem.FileSystemUploadResult> => {
+  if (signal?.aborted) throw new TransferAbortedError();
+
+  const task = FileSystem.createUploadTask(
+    url,
+    uri,
+    { ...options, sessionType: FileSystem.FileSystemSessionType.BACKGROUND },
+    ({ totalBytesSent }) => onProgress?.(totalBytesSent)
+  );
+
+  const cancel = () => {
+    task.cancelAsync().catch(() => {});
+  };
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    const result = await task.uploadAsync();
+    // A cancelled task resolves without a result
+    if (!result || signal?.aborted) throw new TransferAbortedError();
+    return result;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+};
@@ -0,0 +1,535 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { AppState, NativeEventSubscription } from 'react-native';
+import { SAFE_LIMITS } from '../config/safeLimits';
+import { computeFileChecksum } from './checksum';
+import { FunctionError, toFunctionError } from './functionErrors';
+import {
+  discardMultipartUploadFor,
+  shouldUseMultipart,
+  uploadFileMultipart,
+} from './multipartUpload';
+import { queryClient } from './queryClient';
+import {
+  captureRenditionFrame,
+  discardRenditionFrame,
+  needsRenditionFrame,
+} from './renditionFrames';
+import { supabase } from './supabase';
+import { TransferAbortedError, TransferOptions, transferFile } from './transfer';
+
+const QUEUE_STORAGE_KEY = 'upload-queue';
+// Finished items are kept for the queue view up to this many, oldest first out
+const MAX_FINISHED_ITEMS = 100;
+// Shared text arrives as a data: URI, it is written here so it can be uploaded like any file
+const STAGING_DIRECTORY = `${FileSystem.documentDirectory}upload-queue/`;
+
+// What to do when a file with the same name is already in the folder
+export type ConflictResolution = 'skip' | 'overwrite' | 'keep-both';
+
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export type UploadOutcome = 'uploaded' | 'replaced' | 'renamed' | 'unchanged' | 'skipped';
+
+export interface UploadQueueItem {
+  id: string;
+  userId: string;
+  folderId: string | null;
+  name: string;
+  uri: string;
+  type: string;
+  size: number;
+  onConflict?: ConflictResolution;
+  status: UploadStatus;
+  bytesSent: number;
+  // Failed attempts so far, the file fails for good after UPLOAD_MAX_ATTEMPTS
+  attempts: number;
+  // A queued retry waits until this time
+  retryAt?: number;
+  outcome?: UploadOutcome;
+  // The new name for renamed files
+  savedAs?: string;
+  error?: string;
+  createdAt: number;
+  // Whether uri points into the staging directory and is deleted with the item
+  staged?: boolean;
+  // Set once the file is hashed, it identifies the file's interrupted multipart upload
+  checksumSha256?: string;
+}
+
+export interface UploadRequest {
+  name: string;
+  uri: string;
+  type: string;
+  size: number;
+  onConflict?: ConflictResolution;
+}
+
+// Maps the `outcome` of create-file-record to what the queue shows
+const RECORD_OUTCOMES: Record<string, UploadOutcome> = {
+  created: 'uploaded',
+  versioned: 'replaced',
+  renamed: 'renamed',
+  unchanged: 'unchanged',
+};
+
+let items: UploadQueueItem[] = [];
+let loaded = false;
+let currentUserId: string | null = null;
+let activeUploads = 0;
+let appStateSubscription: NativeEventSubscription | null = null;
+const listeners = new Set<() => void>();
+// Running uploads, and what to leave them as once they have stopped
+const controllers = new Map<string, AbortController>();
+const stopRequests = new Map<string, 'paused' | 'cancelled'>();
+
+export const isUploadFinished = (item: UploadQueueItem) =>
+  item.status === 'completed' || item.status === 'failed' || item.status === 'cancelled';
+
+// Requests the server turned down, like a full quota, fail the same way when sent again
+const isRetryable = (error: unknown) =>
+  !(error instanceof FunctionError && error.status !== undefined && error.status < 500);
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const discardStagedFile = (item: UploadQueueItem) => {
+  if (item.staged) FileSystem.deleteAsync(item.uri, { idempotent: true }).catch(() => {});
+};
+
+const persistQueue = async () => {
+  const finished = items.filter(isUploadFinished);
+  const dropped = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_ITEMS)));
+  if (dropped.size > 0) {
+    dropped.forEach((item) => discardStagedFile(item));
+    items = items.filter((item) => !dropped.has(item));
+  }
+
+  try {
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(items));
+  } catch (error) {
+    console.error('Failed to save upload queue:', error);
+  }
+};
+
+// Progress changes often and is not worth a write, everything else is persisted
+const updateItem = (id: string, changes: Partial<UploadQueueItem>, persist = true) => {
+  items = items.map((item) => (item.id === id ? { ...item, ...changes } : item));
+  notify();
+  if (persist) persistQueue();
+};
+
+const stageFile = async (id: string, request: UploadRequest) => {
+  const match = request.uri.match(/^data:[^;,]*;base64,(.*)$/);
+  if (!match) return { uri: request.uri, staged: false };
+
+  await FileSystem.makeDirectoryAsync(STAGING_DIRECTORY, { intermediates: true }).catch(() => {});
+  const uri = `${STAGING_DIRECTORY}${id}`;
+  await FileSystem.writeAsStringAsync(uri, match[1], { encoding: FileSystem.EncodingType.Base64 });
+  return { uri, staged: true };
+};
+
+const invokeUploadAction = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('upload-to-s3', { body });
+  if (error) throw await toFunctionError(error);
+  return data as T;
+};
+
+// Sends a small file in one POST to the presigned form. Returns null when the same content
+// is already stored and nothing was uploaded.
+const uploadSingle = async (
+  item: UploadQueueItem,
+  checksumSha256: string,
+  options: TransferOptions
+) => {
+  const presigned = await invokeUploadAction<{
+    uploadUrl: string;
+    formData: Record<string, string>;
+    s3Key: string;
+    duplicate?: boolean;
+  }>({
+    action: 'get-presigned-url',
+    fileName: item.name,
+    fileType: item.type,
+    fileSize: item.size,
+    folderId: item.folderId,
+    checksumSha256,
+  });
+
+  if (presigned.duplicate) return null;
+
+  const result = await transferFile(
+    presigned.uploadUrl,
+    item.uri,
+    {
+      httpMethod: 'POST',
+      uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+      fieldName: 'file',
+      mimeType: item.type,
+      parameters: presigned.formData,
+    },
+    options
+  );
+
+  if (result.status < 200 || result.status >= 300) {
+    throw new Error(`S3 upload failed with status ${result.status}`);
+  }
+
+  return presigned.s3Key;
+};
+
+// Sends the frame a video's or PDF's renditions are made from. It has to be stored before the
+// file record, whose creation starts the thumbnail generator. A file without one only misses
+// its thumbnail, so failures are not the upload's.
+const uploadRenditionFrame = async (item: UploadQueueItem, s3Key: string) => {
+  const frameUri = await captureRenditionFrame(item.uri, item.type);
+  if (!frameUri) return;
+
+  try {
+    const presigned = await invokeUploadAction<{
+      uploadUrl: string;
+      formData: Record<string, string>;
+    }>({
+      action: 'get-frame-upload-url',
+      s3Key,
+      fileType: item.type,
+      folderId: item.folderId,
+    });
+
+    await FileSystem.uploadAsync(presigned.uploadUrl, frameUri, {
+      httpMethod: 'POST',
+      uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+      fieldName: 'file',
+      mimeType: 'image/jpeg',
+      parameters: presigned.formData,
+    });
+  } catch (error) {
+    console.error(`Failed to upload the frame of ${item.name}:`, error);
+  } finally {
+    await discardRenditionFrame(frameUri);
+  }
+};
+
+const uploadItem = async (item: UploadQueueItem, signal: AbortSignal) => {
+  const multipart = shouldUseMultipart(item.size);
+
+  // Hashed before uploading so content that is already stored is skipped, and so S3 can
+  // verify the bytes it receives
+  const checksumSha256 = await computeFileChecksum(
+    item.uri,
+    item.size,
+    multipart ? SAFE_LIMITS.MULTIPART_PART_SIZE : undefined
+  );
+  updateItem(item.id, { checksumSha256 });
+
+  // The form fields count towards the bytes of a single upload, so they are capped at the size
+  const options: TransferOptions = {
+    signal,
+    onProgress: (bytesSent) =>
+      updateItem(item.id, { bytesSent: Math.min(bytesSent, item.size) }, false),
+  };
+
+  const s3Key = multipart
+    ? await uploadFileMultipart(item, item.folderId, checksumSha256, options)
+    : await uploadSingle(item, checksumSha256, options);
+  if (signal.aborted) throw new TransferAbortedError();
+
+  // Content that was already stored has its frame from the first upload
+  if (s3Key && needsRenditionFrame(item.type)) await uploadRenditionFrame(item, s3Key);
+
+  const record = await invokeUploadAction<{ outcome: string; fileRecord: { name: string } }>({
+    action: 'create-file-record',
+    s3Key,
+    fileName: item.name,
+    fileType: item.type,
+    fileSize: item.size,
+    folderId: item.folderId,
+    checksumSha256,
+    onConflict: item.onConflict,
+  });
+
+  const outcome = RECORD_OUTCOMES[record.outcome] ?? 'uploaded';
+  return { outcome, savedAs: outcome === 'renamed' ? record.fileRecord.name : undefined };
+};
+
+// Marks an item cancelled and drops what it left behind, including the parts of a multipart upload
+const cancelItem = (item: UploadQueueItem) => {
+  updateItem(item.id, { status: 'cancelled', retryAt: undefined });
+  discardStagedFile(item);
+
+  // The item may have been hashed since it was read
+  const { checksumSha256 } = items.find((entry) => entry.id === item.id) ?? item;
+  if (shouldUseMultipart(item.size) && checksumSha256) {
+    discardMultipartUploadFor(checksumSha256, item.folderId).catch((error) =>
+      console.error('Failed to abort multipart upload:', error)
+    );
+  }
+};
+
+const runItem = async (item: UploadQueueItem) => {
+  const controller = new AbortController();
+  controllers.set(item.id, controller);
+  updateItem(item.id, { status: 'uploading', retryAt: undefined, error: undefined });
+
+  try {
+    const info = await FileSystem.getInfoAsync(item.uri);
+    if (!info.exists) {
+      updateItem(item.id, {
+        status: 'failed',
+        error: 'The file is no longer available, select it again to upload it',
+      });
+      return;
+    }
+
+    const { outcome, savedAs } = await uploadItem(item, controller.signal);
+    updateItem(item.id, { status: 'completed', bytesSent: item.size, outcome, savedAs });
+    discardStagedFile(item);
+
+    queryClient.invalidateQueries({ queryKey: ['files', item.folderId] });
+    queryClient.invalidateQueries({ queryKey: ['folders'] });
+    queryClient.invalidateQueries({ queryKey: ['storage-stats'] });
+    queryClient.invalidateQueries({ queryKey: ['file-versions'] });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      if (stopRequests.get(item.id) === 'cancelled') {
+        cancelItem(item);
+      } else {
+        updateItem(item.id, { status: 'paused' });
+      }
+      return;
+    }
+
+    console.error(`Error uploading file ${item.name}:`, error);
+    const attempts = item.attempts + 1;
+
+    if (isRetryable(error) && attempts < SAFE_LIMITS.UPLOAD_MAX_ATTEMPTS) {
+      const delay = Math.min(1000 * 2 ** attempts, 60000);
+      updateItem(item.id, {
+        status: 'queued',
+        attempts,
+        retryAt: Date.now() + delay,
+        error: (error as Error).message,
+      });
+      setTimeout(processQueue, delay);
+    } else {
+      updateItem(item.id, { status: 'failed', attempts, error: (error as Error).message });
+    }
+  } finally {
+    controllers.delete(item.id);
+    stopRequests.delete(item.id);
+  }
+};
+
+// Starts queued items of the signed in user until MAX_CONCURRENT_UPLOADS are running
+const processQueue = () => {
+  while (currentUserId && activeUploads < SAFE_LIMITS.MAX_CONCURRENT_UPLOADS) {
+    const now = Date.now();
+    const next = items.find(
+      (item) =>
+        item.userId === currentUserId &&
+        item.status === 'queued' &&
+        (!item.retryAt || item.retryAt <= now)
+    );
+    if (!next) return;
+
+    activeUploads++;
+    runItem(next).finally(() => {
+      activeUploads--;
+      processQueue();
+    });
+  }
+};
+
+export const subscribeToUploadQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getUploadQueue = () => items;
+
+/**
+ * Loads the queue saved by an earlier run and starts uploading the user's queued files.
+ * Uploads that were running when the app was killed start over, a multipart upload picks
+ * up from its last part. The queue is kicked again whenever the app returns to the
+ * foreground, as JavaScript may have been suspended while the native transfer went on.
+ */
+export const startUploadQueue = async (userId: string) => {
+  currentUserId = userId;
+
+  if (!loaded) {
+    loaded = true;
+    try {
+      const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+      const saved: UploadQueueItem[] = stored ? JSON.parse(stored) : [];
+      const known = new Set(items.map((item) => item.id));
+      items = [
+        ...saved
+          .filter((item) => !known.has(item.id))
+          .map((item) =>
+            item.status === 'uploading' ? { ...item, status: 'queued' as const } : item
+          )
+          .map((item) => ({
+            ...item,
+            bytesSent: item.bytesSent ?? 0,
+            attempts: item.attempts ?? 0,
+          })),
+        ...items,
+      ];
+      notify();
+    } catch (error) {
+      console.error('Failed to load upload queue:', error);
+    }
+  }
+
+  appStateSubscription?.remove();
+  appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') processQueue();
+  });
+
+  processQueue();
+};
+
+// Uploads already running finish, nothing new starts until the queue is started again
+export const stopUploadQueue = () => {
+  currentUserId = null;
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+};
+
+/**
+ * Adds files to the end of the queue, to be uploaded into folderId. Files skipped because
+ * of a name conflict are listed as finished straight away.
+ */
+export const enqueueUploads = async (
+  userId: string,
+  folderId: string | null,
+  requests: UploadRequest[]
+) => {
+  const createdAt = Date.now();
+  const added: UploadQueueItem[] = [];
+
+  for (const [index, request] of requests.entries()) {
+    const id = `${createdAt}-${index}-${Math.random().toString(36).slice(2, 8)}`;
+    const skipped = request.onConflict === 'skip';
+    const { uri, staged } = skipped
+      ? { uri: request.uri, staged: false }
+      : await stageFile(id, request);
+
+    added.push({
+      ...request,
+      id,
+      userId,
+      folderId,
+      uri,
+      staged,
+      status: skipped ? 'completed' : 'queued',
+      bytesSent: skipped ? request.size : 0,
+      attempts: 0,
+      outcome: skipped ? 'skipped' : undefined,
+      createdAt,
+    });
+  }
+
+  items = [...items, ...added];
+  notify();
+  await persistQueue();
+  processQueue();
+};
+
+// Starts a failed or cancelled file over, with a fresh set of attempts
+export const retryUpload = (id: string) => {
+  updateItem(id, { status: 'queued', bytesSent: 0, attempts: 0, error: undefined });
+  processQueue();
+};
+
+/**
+ * Stops a file without losing its place. A running upload is cancelled at the native
+ * uploader; resuming a multipart upload continues from its last part, a single upload
+ * starts over.
+ */
+export const pauseUpload = (id: string) => {
+  const item = items.find((entry) => entry.id === id);
+  if (item?.status === 'queued') {
+    updateItem(id, { status: 'paused', retryAt: undefined });
+  } else if (item?.status === 'uploading') {
+    stopRequests.set(id, 'paused');
+    controllers.get(id)?.abort();
+  }
+};
+
+export const resumeUpload = (id: string) => {
+  const item = items.find((entry) => entry.id === id);
+  if (item?.status !== 'paused') return;
+
+  updateItem(id, { status: 'queued' });
+  processQueue();
+};
+
+export const cancelUpload = (id: string) => {
+  const item = items.find((entry) => entry.id === id);
+  if (item?.status === 'queued' || item?.status === 'paused') {
+    cancelItem(item);
+  } else if (item?.status === 'uploading') {
+    stopRequests.set(id, 'cancelled');
+    controllers.get(id)?.abort();
+  }
+};
+
+// The same, for every unfinished file of the user
+export const pauseAllUploads = (userId: string) =>
+  items.filter((item) => item.userId === userId).forEach((item) => pauseUpload(item.id));
+
+export const resumeAllUploads = (userId: string) =>
+  items.filter((item) => item.userId === userId).forEach((item) => resumeUpload(item.id));
+
+export const cancelAllUploads = (userId: string) =>
+  items.filter((item) => item.userId === userId).forEach((item) => cancelUpload(item.id));
+
+export const removeUpload = (id: string) => {
+  const item = items.find((entry) => entry.id === id);
+  if (!item || !isUploadFinished(item)) return;
+
+  discardStagedFile(item);
+  items = items.filter((entry) => entry.id !== id);
+  notify();
+  persistQueue();
+};
+
+export const clearFinishedUploads = (userId: string) => {
+  const cleared = items.filter((item) => item.userId === userId && isUploadFinished(item));
+  cleared.forEach(discardStagedFile);
+  items = items.filter((item) => !cleared.includes(item));
+  notify();
+  persistQueue();
+};
+
+export interface UploadQueueSummary {
+  // Files still queued, uploading or paused
+  active: number;
+  paused: number;
+  failed: number;
+  // Files in the current run: everything added since the oldest unfinished file
+  total: number;
+  totalBytes: number;
+  bytesSent: number;
+}
+
+export const summarizeUploads = (queue: UploadQueueItem[]): UploadQueueSummary => {
+  const unfinished = queue.filter((item) => !isUploadFinished(item));
+  const runStart = Math.min(...unfinished.map((item) => item.createdAt));
+  // Cancelled and skipped files send nothing, so they are left out of the byte counts
+  const run = queue.filter(
+    (item) =>
+      item.createdAt >= runStart && item.status !== 'cancelled' && item.outcome !== 'skipped'
+  );
+
+  return {
+    active: unfinished.length,
+    paused: queue.filter((item) => item.status === 'paused').length,
+    failed: queue.filter((item) => item.status === 'failed').length,
+    total: queue.filter((item) => item.createdAt >= runStart).length,
+    totalBytes: run.reduce((sum, item) => sum + item.size, 0),
+    bytesSent: run.reduce((sum, item) => sum + item.bytesSent, 0),
+  };
+};
@@ -1,23 +1,42 @@
 import { Ionicons } from '@expo/vector-icons';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { NavigatorScreenParams } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
+import { useEffect } from 'react';
 import { ActivityIndicator, Text, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { UploadProgressIndicator } from '../components/UploadProgressIndicator';
 import { useAuth } from '../contexts/AuthContext';
+import { startUploadQueue, stopUploadQueue } from '../lib/uploadQueue';
+import { File } from '../types/database';
 
 // Import screens
 import AuthScreen from '../screens/AuthScreen';
+import DocumentViewerScreen from '../screens/DocumentViewerScreen';
 import FileManagerScreen from '../screens/FileManagerScreen';
+import FileScreen from '../screens/FileScreen';
+import MediaViewerScreen from '../screens/MediaViewerScreen';
 import ProfileScreen from '../screens/ProfileScreen';
+import UploadQueueScreen from '../screens/UploadQueueScreen';
 import UploadScreen from '../screens/UploadScreen';
 
-type RootStackParamList = {
-  Main: undefined;
+export type TabParamList = {
+  // folderId opens that folder, null opens the top level; cleared once it has been opened
+  Files: { folderId?: string | null } | undefined;
+  Profile: undefined;
+};
+
+export type RootStackParamList = {
+  Main: NavigatorScreenParams<TabParamList> | undefined;
   Auth: undefined;
   Upload: { folderId?: string };
+  UploadQueue: undefined;
+  MediaViewer: { file: File };
+  DocumentViewer: { file: File };
+  File: { id: string };
 };
 
-const Tab = createBottomTabNavigator();
+const Tab = createBottomTabNavigator<TabParamList>();
 const Stack = createStackNavigator<RootStackParamList>();
 
 const tabPalette = {
@@ -28,66 +47,82 @@ const tabPalette = {
   border: '#27272a',
 };
 
-function TabNavigator() {
+function TabNavigator({ navigation }: { navigation: any }) {
   const insets = useSafeAreaInsets();
+  const tabBarHeight = 70 + Math.max(insets.bottom, 8);
 
   return (
-    <Tab.Navigator
-      screenOptions={({ route }) => ({
-        headerShown: false,
-        tabBarIcon: ({ focused, color }) => {
-          let iconName: keyof typeof Ionicons.glyphMap;
+    <View className="flex-1">
+      <Tab.Navigator
+        screenOptions={({ route }) => ({
+          headerShown: false,
+          tabBarIcon: ({ focused, color }) => {
+            let iconName: keyof typeof Ionicons.glyphMap;
 
-          if (route.name === 'Files') {
-            iconName = focused ? 'folder' : 'folder-outline';
-          } else if (route.name === 'Profile') {
-            iconName = focused ? 'person' : 'person-outline';
-          } else {
-            iconName = 'help-outline';
-          }
+            if (route.name === 'Files') {
+              iconName = focused ? 'folder' : 'folder-outline';
+            } else if (route.name === 'Profile') {
+              iconName = focused ? 'person' : 'person-outline';
+            } else {
+              iconName = 'help-outline';
+            }
 
-          return (
-            <View className="items-center justify-center">
-              <Ionicons name={iconName} size={24} color={color} />
-              {focused && (
-                <View
-                  className="absolute -top-4 h-1 w-12 rounded-full"
-                  style={{ backgroundColor: tabPalette.activeIndicator }}
-                />
-              )}
-            </View>
-          );
-        },
-        tabBarActiveTintColor: tabPalette.textActive,
-        tabBarInactiveTintColor: tabPalette.textInactive,
-        tabBarStyle: {
-          backgroundColor: tabPalette.tabBar,
-          borderTopColor: tabPalette.border,
-          borderTopWidth: 1,
-          elevation: 0,
-          shadowOpacity: 0,
-          paddingTop: 8,
-          paddingBottom: Math.max(insets.bottom, 8),
-          height: 70 + Math.max(insets.bottom, 8),
-        },
-        tabBarLabelStyle: {
-          fontWeight: '600',
-          fontSize: 12,
-          marginTop: 4,
-        },
-        tabBarItemStyle: {
-          paddingTop: 4,
-          paddingBottom: 4,
-        },
-      })}>
-      <Tab.Screen name="Files" component={FileManagerScreen} options={{ title: 'My Drive' }} />
-      <Tab.Screen name="Profile" component={ProfileScreen} />
-    </Tab.Navigator>
+            return (
+              <View className="items-center justify-center">
+                <Ionicons name={iconName} size={24} color={color} />
+                {focused && (
+                  <View
+                    className="absolute -top-4 h-1 w-12 rounded-full"
+                    style={{ backgroundColor: tabPalette.activeIndicator }}
+                  />
+                )}
+              </View>
+            );
+          },
+          tabBarActiveTintColor: tabPalette.textActive,
+          tabBarInactiveTintColor: tabPalette.textInactive,
+          tabBarStyle: {
+            backgroundColor: tabPalette.tabBar,
+            borderTopColor: tabPalette.border,
+            borderTopWidth: 1,
+            elevation: 0,
+            shadowOpacity: 0,
+            paddingTop: 8,
+            paddingBottom: Math.max(insets.bottom, 8),
+            height: tabBarHeight,
+          },
+          tabBarLabelStyle: {
+            fontWeight: '600',
+            fontSize: 12,
+            marginTop: 4,
+          },
+          tabBarItemStyle: {
+            paddingTop: 4,
+            paddingBottom: 4,
+          },
+        })}>
+        <Tab.Screen name="Files" component={FileManagerScreen} options={{ title: 'My Drive' }} />
+        <Tab.Screen name="Profile" component={ProfileScreen} />
+      </Tab.Navigator>
+      <UploadProgressIndicator
+        bottomOffset={tabBarHeight + 12}
+        onPress={() => navigation.navigate('UploadQueue')}
+      />
+    </View>
   );
 }
 
 function AppNavigator() {
   const { user, loading } = useAuth();
+
+  // Uploads run outside any screen, so leaving the upload screen or the app does not stop them
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    startUploadQueue(userId);
+    return () => stopUploadQueue();
+  }, [userId]);
+
   const stackPalette = {
     primary: '#a1a1aa',
     surface: '#111113',
@@ -140,6 +175,33 @@ function AppNavigator() {
               },
             }}
           />
+          <Stack.Screen
+            name="UploadQueue"
+            component={UploadQueueScreen}
+            options={{ title: 'Uploads', presentation: 'modal' }}
+          />
+          <Stack.Screen
+            name="MediaViewer"
+            component={MediaViewerScreen}
+            options={({ route }) => ({
+              title: route.params.file.name,
+              presentation: 'modal',
+              cardStyle: { backgroundColor: '#000000' },
+            })}
+          />
+          <Stack.Screen
+            name="File"
+            component={FileScreen}
+            options={{ title: 'File', presentation: 'modal' }}
+          />
+          <Stack.Screen
+            name="DocumentViewer"
+            component={DocumentViewerScreen}
+            options={({ route }) => ({
+              title: route.params.file.name,
+              presentation: 'modal',
+            })}
+          />
         </>
       ) : (
         <Stack.Screen name="Auth" component={AuthScreen} options={{ headerShown: false }} />
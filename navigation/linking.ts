@@ -0,0 +1,30 @@
+import { LinkingOptions } from '@react-navigation/native';
+import * as Linking from 'expo-linking';
+import { RootStackParamList } from './AppNavigator';
+
+export const FOLDER_LINK_PATH = 'folder';
+export const FILE_LINK_PATH = 'file';
+
+/**
+ * com.rapidstorage://folder/<id> opens a folder in the Files tab and
+ * com.rapidstorage://file/<id> opens a file. RLS decides whether the link works for whoever
+ * opens it, so links only need to carry the id.
+ */
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL('/')],
+  config: {
+    screens: {
+      Main: {
+        screens: {
+          Files: `${FOLDER_LINK_PATH}/:folderId`,
+        },
+      },
+      File: `${FILE_LINK_PATH}/:id`,
+    },
+  },
+};
+
+export const getFolderLink = (folderId: string) =>
+  Linking.createURL(`${FOLDER_LINK_PATH}/${folderId}`);
+
+export const getFileLink = (fileId: string) => Linking.createURL(`${FILE_LINK_PATH}/${fileId}`);
@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { File, FileVersion } from '../types/database';
+
+export const useFileVersionsQuery = (fileId: string | undefined) => {
+  return useQuery({
+    queryKey: ['file-versions', fileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('file_versions')
+        .select('*')
+        .eq('file_id', fileId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      return data as FileVersion[];
+    },
+    enabled: !!fileId,
+  });
+};
+
+export const useRestoreFileVersionMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ versionId }: { versionId: string; fileId: string }) => {
+      const { data, error } = await supabase
+        .rpc('restore_file_version', { p_version_id: versionId })
+        .single();
+
+      // Restoring keeps the current contents as a version, so it can hit the quota
+      if (error?.code === '53400') {
+        throw new Error('Not enough storage left to restore this version.');
+      }
+      if (error) throw error;
+      return data as Omit<File, 'type'>;
+    },
+    onSuccess: (_, { fileId }) => {
+      queryClient.invalidateQueries({ queryKey: ['file-versions', fileId] });
+      queryClient.invalidateQueries({ queryKey: ['files'] });
+      queryClient.invalidateQueries({ queryKey: ['storage-stats'] });
+    },
+  });
+};
+
+export const usePruneFileVersionsMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      fileId,
+      keep,
+      before,
+    }: {
+      fileId: string;
+      keep?: number;
+      before?: string;
+    }) => {
+      const { data, error } = await supabase.rpc('prune_file_versions', {
+        p_file_id: fileId,
+        p_keep: keep,
+        p_before: before,
+      });
+
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: (_, { fileId }) => {
+      queryClient.invalidateQueries({ queryKey: ['file-versions', fileId] });
+      queryClient.invalidateQueries({ queryKey: ['storage-stats'] });
+    },
+  });
+};
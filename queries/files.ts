@@ -1,38 +1,80 @@
-import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { SAFE_LIMITS, isFileNameValid } from '../config/safeLimits';
+import {
+  DEFAULT_FILE_FILTERS,
+  FileFilters,
+  SIZE_RANGES,
+  getDateRangeBounds,
+  getMimeTypeFilter,
+  hasActiveFilters,
+} from '../lib/fileFilters';
+import {
+  DEFAULT_SORT_ORDER,
+  getCursorFilter,
+  getSortColumn,
+  getSortCursor,
+  SortCursor,
+  SortOrder,
+} from '../lib/sortOrder';
 import { supabase } from '../lib/supabase';
-import { File } from '../types/database';
+import { File, getFileExtension } from '../types/database';
 
 const PAGE_SIZE = 20;
 
 export const useFilesQuery = (
   userId: string | undefined,
   currentFolderId: string | null,
-  searchQuery?: string
+  filters: FileFilters = DEFAULT_FILE_FILTERS,
+  sort: SortOrder = DEFAULT_SORT_ORDER
 ) => {
+  const filtered = hasActiveFilters(filters);
+  const sortColumn = getSortColumn(sort, 'files');
+
   return useInfiniteQuery({
-    queryKey: ['files', currentFolderId, searchQuery],
-    queryFn: async ({ pageParam }: { pageParam?: { created_at: string; id: string } }) => {
+    queryKey: ['files', currentFolderId, filtered ? filters : null, sort],
+    queryFn: async ({ pageParam }: { pageParam?: SortCursor }) => {
       let query = supabase
         .from('files')
         .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-        .order('id', { ascending: false });
+        .is('deleted_at', null)
+        .order(sortColumn, { ascending: sort.ascending })
+        .order('id', { ascending: sort.ascending });
 
-      if (searchQuery) {
-        query = query.ilike('name', `%${searchQuery}%`);
-        // When searching, don't filter by folder_id to search globally across all files
-      } else {
-        // Only apply folder_id filter when not searching
-        if (currentFolderId === null) {
-          query = query.is('folder_id', null);
-        } else {
-          query = query.eq('folder_id', currentFolderId);
+      if (filtered) {
+        // Filters look past the current folder: below it, or everywhere RLS lets us see
+        if (filters.scope === 'folder') {
+          if (currentFolderId === null) {
+            query = query.eq('user_id', userId);
+          } else {
+            const { data: folderIds, error: scopeError } = await supabase.rpc(
+              'folder_subtree_ids',
+              { p_folder_id: currentFolderId }
+            );
+            if (scopeError) throw scopeError;
+            query = query.in('folder_id', folderIds);
+          }
+        }
+
+        if (filters.types.length > 0) {
+          query = query.or(getMimeTypeFilter(filters.types));
         }
+
+        const { min, max } = SIZE_RANGES[filters.size];
+        if (min !== undefined) query = query.gte('size_bytes', min);
+        if (max !== undefined) query = query.lt('size_bytes', max);
+
+        const dates = getDateRangeBounds(filters);
+        if (dates.from) query = query.gte(filters.dateField, dates.from);
+        if (dates.to) query = query.lt(filters.dateField, dates.to);
+      } else if (currentFolderId === null) {
+        query = query.eq('user_id', userId).is('folder_id', null);
+      } else {
+        // RLS decides what is visible inside a folder, including folders shared with us
+        query = query.eq('folder_id', currentFolderId);
       }
 
-      if (pageParam?.created_at) {
-        query = query.lt('created_at', pageParam.created_at);
+      if (pageParam) {
+        query = query.or(getCursorFilter(sortColumn, sort.ascending, pageParam));
       }
 
       const { data, error } = await query.limit(PAGE_SIZE);
@@ -45,43 +87,44 @@ export const useFilesQuery = (
       if (!lastPage.data || lastPage.data.length < PAGE_SIZE) {
         return undefined;
       }
-      const lastItem = lastPage.data[lastPage.data.length - 1];
-      if (lastItem?.created_at) {
-        return {
-          created_at: lastItem.created_at,
-          id: lastItem.id,
-        };
-      }
-      return undefined;
+      return getSortCursor(lastPage.data[lastPage.data.length - 1], sortColumn);
     },
     enabled: !!userId,
   });
 };
 
+// A single file by id, for links; null when it is gone or not visible to the caller
+export const useFileQuery = (fileId: string) => {
+  return useQuery({
+    queryKey: ['file', fileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('files')
+        .select('*')
+        .eq('id', fileId)
+        .is('deleted_at', null)
+        .maybeSingle();
+      if (error) throw error;
+      return data as File | null;
+    },
+  });
+};
+
 export const useDeleteFileMutation = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ fileId, s3Key }: { fileId: string; s3Key: string }) => {
-      // First, delete the record from the database
-      const { error: dbError } = await supabase.from('files').delete().eq('id', fileId);
-      if (dbError) throw dbError;
-
-      // Then, delete the file from S3 via the Edge Function
-      const { error: s3Error } = await supabase.functions.invoke('upload-to-s3', {
-        body: {
-          action: 'delete-file',
-          s3Key: s3Key,
-        },
-      });
-      if (s3Error) {
-        console.error('S3 deletion failed, but DB record was deleted:', s3Error);
-        throw new Error(`S3 deletion failed: ${s3Error.message}`);
-      }
+    mutationFn: async ({ fileId }: { fileId: string }) => {
+      // Files go to the trash; S3 objects are queued for deletion once it is emptied or purged
+      const { error } = await supabase
+        .from('files')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', fileId);
+      if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['files'] });
-      queryClient.invalidateQueries({ queryKey: ['storage-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
     },
   });
 };
@@ -109,4 +152,51 @@ export const useMoveFileMutation = () => {
       queryClient.invalidateQueries({ queryKey: ['storage-stats'] });
     },
   });
-};
\ No newline at end of file
+};
+
+export const useRenameFileMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      fileId,
+      currentName,
+      newName,
+      keepExtension = true,
+    }: {
+      fileId: string;
+      currentName: string;
+      newName: string;
+      keepExtension?: boolean;
+    }) => {
+      let name = newName.trim();
+      const extension = getFileExtension(currentName);
+      if (keepExtension && extension && !name.toLowerCase().endsWith(extension.toLowerCase())) {
+        name = `${name}${extension}`;
+      }
+
+      if (!isFileNameValid(name)) {
+        throw new Error(
+          `File names must be between 1 and ${SAFE_LIMITS.MAX_FILE_NAME_LENGTH} characters.`
+        );
+      }
+
+      const { data, error } = await supabase
+        .from('files')
+        .update({ name })
+        .eq('id', fileId)
+        .select()
+        .single();
+
+      // Unique violation on (user_id, folder_id, name)
+      if (error?.code === '23505') {
+        throw new Error(`A file named "${name}" already exists in this folder.`);
+      }
+      if (error) throw error;
+      return data as File;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['files'] });
+    },
+  });
+};
@@ -0,0 +1,106 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { FolderMember, FolderRole, SharedFolder } from '../types/database';
+
+export const useSharedFoldersQuery = (userId: string | undefined) => {
+  return useQuery({
+    queryKey: ['shared-folders', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('shared_folders');
+      if (error) throw error;
+      return (data as Omit<SharedFolder, 'type'>[]).map((folder) => ({
+        ...folder,
+        type: 'folder' as const,
+      }));
+    },
+    enabled: !!userId,
+  });
+};
+
+export const useFolderRoleQuery = (folderId: string | null) => {
+  return useQuery({
+    queryKey: ['folder-role', folderId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('folder_role', { p_folder_id: folderId });
+      if (error) throw error;
+      return data as FolderRole | null;
+    },
+    enabled: !!folderId,
+  });
+};
+
+export const useFolderMembersQuery = (folderId: string | undefined) => {
+  return useQuery({
+    queryKey: ['folder-members', folderId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('folder_members_with_email', {
+        p_folder_id: folderId,
+      });
+      if (error) throw error;
+      return data as FolderMember[];
+    },
+    enabled: !!folderId,
+  });
+};
+
+export const useShareFolderMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      folderId,
+      email,
+      role,
+    }: {
+      folderId: string;
+      email: string;
+      role: FolderRole;
+    }) => {
+      const { error } = await supabase.rpc('share_folder', {
+        p_folder_id: folderId,
+        p_email: email.trim(),
+        p_role: role,
+      });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: (_, { folderId }) => {
+      queryClient.invalidateQueries({ queryKey: ['folder-members', folderId] });
+    },
+  });
+};
+
+export const useUpdateFolderMemberMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      memberId,
+      role,
+    }: {
+      memberId: string;
+      folderId: string;
+      role: FolderRole;
+    }) => {
+      const { error } = await supabase.from('folder_members').update({ role }).eq('id', memberId);
+      if (error) throw error;
+    },
+    onSuccess: (_, { folderId }) => {
+      queryClient.invalidateQueries({ queryKey: ['folder-members', folderId] });
+    },
+  });
+};
+
+export const useRemoveFolderMemberMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ memberId }: { memberId: string; folderId: string }) => {
+      const { error } = await supabase.from('folder_members').delete().eq('id', memberId);
+      if (error) throw error;
+    },
+    onSuccess: (_, { folderId }) => {
+      queryClient.invalidateQueries({ queryKey: ['folder-members', folderId] });
+      queryClient.invalidateQueries({ queryKey: ['shared-folders'] });
+    },
+  });
+};
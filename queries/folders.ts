@@ -1,38 +1,44 @@
-import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { SAFE_LIMITS, isFolderNameValid } from '../config/safeLimits';
+import {
+  DEFAULT_SORT_ORDER,
+  getCursorFilter,
+  getSortColumn,
+  getSortCursor,
+  SortCursor,
+  SortOrder,
+} from '../lib/sortOrder';
 import { supabase } from '../lib/supabase';
-import { Folder } from '../types/database';
+import { Folder, FolderPathEntry } from '../types/database';
 
 const PAGE_SIZE = 20;
 
 export const useFoldersQuery = (
   userId: string | undefined,
   currentFolderId: string | null,
-  searchQuery?: string
+  sort: SortOrder = DEFAULT_SORT_ORDER
 ) => {
+  const sortColumn = getSortColumn(sort, 'folders');
+
   return useInfiniteQuery({
-    queryKey: ['folders', currentFolderId, searchQuery],
-    queryFn: async ({ pageParam }: { pageParam?: { created_at: string; id: string } }) => {
+    queryKey: ['folders', currentFolderId, sort],
+    queryFn: async ({ pageParam }: { pageParam?: SortCursor }) => {
       let query = supabase
         .from('folders')
         .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-        .order('id', { ascending: false });
+        .is('deleted_at', null)
+        .order(sortColumn, { ascending: sort.ascending })
+        .order('id', { ascending: sort.ascending });
 
-      if (searchQuery) {
-        query = query.ilike('name', `%${searchQuery}%`);
-        // When searching, don't filter by parent_id to search globally across all folders
+      if (currentFolderId === null) {
+        query = query.eq('user_id', userId).is('parent_id', null);
       } else {
-        // Only apply parent_id filter when not searching
-        if (currentFolderId === null) {
-          query = query.is('parent_id', null);
-        } else {
-          query = query.eq('parent_id', currentFolderId);
-        }
+        // RLS decides what is visible inside a folder, including folders shared with us
+        query = query.eq('parent_id', currentFolderId);
       }
 
-      if (pageParam?.created_at) {
-        query = query.lt('created_at', pageParam.created_at);
+      if (pageParam) {
+        query = query.or(getCursorFilter(sortColumn, sort.ascending, pageParam));
       }
 
       const { data, error } = await query.limit(PAGE_SIZE);
@@ -45,14 +51,7 @@ export const useFoldersQuery = (
       if (!lastPage.data || lastPage.data.length < PAGE_SIZE) {
         return undefined;
       }
-      const lastItem = lastPage.data[lastPage.data.length - 1];
-      if (lastItem?.created_at) {
-        return {
-          created_at: lastItem.created_at,
-          id: lastItem.id,
-        };
-      }
-      return undefined;
+      return getSortCursor(lastPage.data[lastPage.data.length - 1], sortColumn);
     },
     enabled: !!userId,
   });
@@ -64,22 +63,22 @@ export const usePickerFoldersQuery = (
 ) => {
   return useInfiniteQuery({
     queryKey: ['picker-folders', activeFolderId],
-    queryFn: async ({ pageParam }: { pageParam?: { created_at: string; id: string } }) => {
+    queryFn: async ({ pageParam }: { pageParam?: SortCursor }) => {
       let query = supabase
         .from('folders')
         .select('*')
-        .eq('user_id', userId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false })
         .order('id', { ascending: false });
 
       if (activeFolderId === null) {
-        query = query.is('parent_id', null);
+        query = query.eq('user_id', userId).is('parent_id', null);
       } else {
         query = query.eq('parent_id', activeFolderId);
       }
 
-      if (pageParam?.created_at) {
-        query = query.lt('created_at', pageParam.created_at);
+      if (pageParam) {
+        query = query.or(getCursorFilter('created_at', false, pageParam));
       }
 
       const { data, error } = await query.limit(PAGE_SIZE);
@@ -91,19 +90,27 @@ export const usePickerFoldersQuery = (
       if (!lastPage.data || lastPage.data.length < PAGE_SIZE) {
         return undefined;
       }
-      const lastItem = lastPage.data[lastPage.data.length - 1];
-      if (lastItem?.created_at) {
-        return {
-          created_at: lastItem.created_at,
-          id: lastItem.id,
-        };
-      }
-      return undefined;
+      return getSortCursor(lastPage.data[lastPage.data.length - 1], 'created_at');
     },
     enabled: !!userId,
   });
 };
 
+// The folder and its ancestors from the top down, as far up as the caller can see.
+// placeholder is shown until the server answers, e.g. the path the user just walked.
+export const useFolderPathQuery = (folderId: string | null, placeholder?: FolderPathEntry[]) => {
+  return useQuery({
+    queryKey: ['folder-path', folderId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('folder_path', { p_folder_id: folderId });
+      if (error) throw error;
+      return data as FolderPathEntry[];
+    },
+    placeholderData: placeholder,
+    enabled: !!folderId,
+  });
+};
+
 export const useCreateFolderMutation = () => {
   const queryClient = useQueryClient();
 
@@ -142,13 +149,16 @@ export const useDeleteFolderMutation = () => {
 
   return useMutation({
     mutationFn: async (folderId: string) => {
-      const { error } = await supabase.from('folders').delete().eq('id', folderId);
+      // Moves the folder and everything inside it to the trash
+      const { error } = await supabase.rpc('trash_folder', { p_folder_id: folderId });
       if (error) throw error;
     },
-    onSuccess: (_, folderId) => {
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['folders'] });
+      queryClient.invalidateQueries({ queryKey: ['files'] });
       queryClient.invalidateQueries({ queryKey: ['picker-folders'] });
-      queryClient.invalidateQueries({ queryKey: ['storage-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['folder-path'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
     },
   });
 };
@@ -174,7 +184,43 @@ export const useMoveFolderMutation = () => {
     onSuccess: (_, { destinationFolderId }) => {
       queryClient.invalidateQueries({ queryKey: ['folders'] });
       queryClient.invalidateQueries({ queryKey: ['picker-folders'] });
+      queryClient.invalidateQueries({ queryKey: ['folder-path'] });
       queryClient.invalidateQueries({ queryKey: ['storage-stats'] });
     },
   });
-};
\ No newline at end of file
+};
+
+export const useRenameFolderMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ folderId, newName }: { folderId: string; newName: string }) => {
+      const name = newName.trim();
+
+      if (!isFolderNameValid(name)) {
+        throw new Error(
+          `Folder names must be between 1 and ${SAFE_LIMITS.MAX_FOLDER_NAME_LENGTH} characters.`
+        );
+      }
+
+      const { data, error } = await supabase
+        .from('folders')
+        .update({ name })
+        .eq('id', folderId)
+        .select()
+        .single();
+
+      // Unique violation on (user_id, parent_id, name)
+      if (error?.code === '23505') {
+        throw new Error(`A folder named "${name}" already exists here.`);
+      }
+      if (error) throw error;
+      return data as Folder;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['folders'] });
+      queryClient.invalidateQueries({ queryKey: ['picker-folders'] });
+      queryClient.invalidateQueries({ queryKey: ['folder-path'] });
+    },
+  });
+};
@@ -1,2 +1,9 @@
 export * from './folders';
-export * from './files';
\ No newline at end of file
+export * from './files';
+export * from './trash';
+export * from './shareLinks';
+export * from './folderMembers';
+export * from './storage';
+export * from './fileVersions';
+export * from './thumbnails';
+export * from './search';
@@ -0,0 +1,48 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import {
+  DEFAULT_FILE_FILTERS,
+  FileFilters,
+  SIZE_RANGES,
+  getDateRangeBounds,
+  getMimeTypePatterns,
+} from '../lib/fileFilters';
+import { supabase } from '../lib/supabase';
+import { SearchResult } from '../types/database';
+
+const PAGE_SIZE = 30;
+
+// Folders and files matching the query anywhere the user can see, best matches first.
+// scopeFolderId is where a 'folder' scope starts, null for the top level.
+export const useSearchQuery = (
+  searchQuery: string,
+  filters: FileFilters = DEFAULT_FILE_FILTERS,
+  scopeFolderId: string | null = null
+) => {
+  return useInfiniteQuery({
+    queryKey: ['search', searchQuery, filters, filters.scope === 'folder' ? scopeFolderId : null],
+    queryFn: async ({ pageParam }: { pageParam: number }) => {
+      const { min, max } = SIZE_RANGES[filters.size];
+      const dates = getDateRangeBounds(filters);
+      const { data, error } = await supabase.rpc('search_items', {
+        p_query: searchQuery,
+        p_limit: PAGE_SIZE,
+        p_offset: pageParam,
+        p_mime_patterns: filters.types.length > 0 ? getMimeTypePatterns(filters.types) : undefined,
+        p_min_size: min,
+        p_max_size: max,
+        p_date_field: filters.dateField,
+        p_date_from: dates.from,
+        p_date_to: dates.to,
+        p_scope: filters.scope,
+        p_scope_folder_id: scopeFolderId ?? undefined,
+      });
+
+      if (error) throw error;
+      return data as SearchResult[];
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length < PAGE_SIZE ? undefined : allPages.length * PAGE_SIZE,
+    enabled: searchQuery.trim().length > 0,
+  });
+};
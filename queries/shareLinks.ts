@@ -0,0 +1,72 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { ShareLink } from '../types/database';
+
+export const useShareLinksQuery = (fileId: string | undefined) => {
+  return useQuery({
+    queryKey: ['share-links', fileId],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('upload-to-s3', {
+        body: {
+          action: 'list-share-links',
+          fileId,
+        },
+      });
+      if (error) throw error;
+      return data.shareLinks as ShareLink[];
+    },
+    enabled: !!fileId,
+  });
+};
+
+export const useCreateShareLinkMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      fileId,
+      password,
+      expiresInHours,
+      maxDownloads,
+    }: {
+      fileId: string;
+      password?: string;
+      expiresInHours?: number;
+      maxDownloads?: number;
+    }) => {
+      const { data, error } = await supabase.functions.invoke('upload-to-s3', {
+        body: {
+          action: 'create-share-link',
+          fileId,
+          password: password || undefined,
+          expiresInHours,
+          maxDownloads,
+        },
+      });
+      if (error) throw error;
+      return data.shareLink as ShareLink;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['share-links', variables.fileId] });
+    },
+  });
+};
+
+export const useRevokeShareLinkMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ linkId }: { linkId: string; fileId: string }) => {
+      const { error } = await supabase.functions.invoke('upload-to-s3', {
+        body: {
+          action: 'revoke-share-link',
+          linkId,
+        },
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['share-links', variables.fileId] });
+    },
+  });
+};
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+
+export interface StorageUsage {
+  used_bytes: number;
+  quota_bytes: number;
+}
+
+// Usage of the account an upload into folderId is charged to (the folder owner when shared)
+export const fetchStorageUsage = async (folderId: string | null = null) => {
+  const { data, error } = await supabase
+    .rpc('storage_usage', { p_folder_id: folderId })
+    .single<StorageUsage>();
+  if (error) throw error;
+  return data;
+};
+
+export const useStorageUsageQuery = (userId: string | undefined) => {
+  return useQuery({
+    // Nested under storage-stats so upload and delete invalidations refresh it too
+    queryKey: ['storage-stats', userId, 'usage'],
+    queryFn: () => fetchStorageUsage(),
+    enabled: !!userId,
+  });
+};
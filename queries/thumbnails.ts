@@ -0,0 +1,63 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { File } from '../types/database';
+
+// Thumbnails are square crops for lists, previews fit the screen
+export type RenditionVariant = 'thumbnail' | 'preview';
+
+// The signed URLs last an hour, so refetch well before they expire
+const RENDITION_URL_STALE_TIME = 45 * 60 * 1000;
+
+// Signed URLs keyed by file id, for the files whose renditions are ready
+export const fetchRenditionUrls = async (
+  fileIds: string[],
+  variant: RenditionVariant = 'thumbnail'
+) => {
+  const { data, error } = await supabase.functions.invoke('upload-to-s3', {
+    body: {
+      action: 'get-thumbnail-urls',
+      fileIds,
+      variant,
+    },
+  });
+  if (error) throw error;
+  return data.urls as Record<string, string>;
+};
+
+export const useThumbnailUrlsQuery = (files: Pick<File, 'id' | 'thumbnail_status'>[]) => {
+  const fileIds = files.filter((file) => file.thumbnail_status === 'ready').map((file) => file.id);
+
+  return useQuery({
+    queryKey: ['thumbnails', fileIds],
+    queryFn: () => fetchRenditionUrls(fileIds),
+    enabled: fileIds.length > 0,
+    staleTime: RENDITION_URL_STALE_TIME,
+    // Keep showing the loaded thumbnails while the next page's are fetched
+    placeholderData: keepPreviousData,
+  });
+};
+
+// The screen-sized preview where one exists, the original otherwise
+export const fetchImageUrl = async (file: Pick<File, 'id' | 's3_key' | 'thumbnail_status'>) => {
+  if (file.thumbnail_status === 'ready') {
+    const urls = await fetchRenditionUrls([file.id], 'preview');
+    if (urls[file.id]) return urls[file.id];
+  }
+
+  const { data, error } = await supabase.functions.invoke('upload-to-s3', {
+    body: {
+      action: 'get-signed-url',
+      s3Key: file.s3_key,
+    },
+  });
+  if (error) throw error;
+  return data.signedUrl as string;
+};
+
+export const useImageUrlQuery = (file: Pick<File, 'id' | 's3_key' | 'thumbnail_status'>) => {
+  return useQuery({
+    queryKey: ['image-url', file.id, file.s3_key, file.thumbnail_status],
+    queryFn: () => fetchImageUrl(file),
+    staleTime: RENDITION_URL_STALE_TIME,
+  });
+};
@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toFunctionError } from '../lib/functionErrors';
+import { supabase } from '../lib/supabase';
+import { File, Folder } from '../types/database';
+
+export const useTrashQuery = (userId: string | undefined) => {
+  return useQuery({
+    queryKey: ['trash', userId],
+    queryFn: async () => {
+      const [foldersResult, filesResult] = await Promise.all([
+        supabase
+          .rpc('trashed_folders')
+          .eq('user_id', userId)
+          .order('deleted_at', { ascending: false }),
+        supabase
+          .rpc('trashed_files')
+          .eq('user_id', userId)
+          .order('deleted_at', { ascending: false }),
+      ]);
+
+      if (foldersResult.error) throw foldersResult.error;
+      if (filesResult.error) throw filesResult.error;
+
+      return {
+        folders: foldersResult.data as Folder[],
+        files: filesResult.data as File[],
+      };
+    },
+    enabled: !!userId,
+  });
+};
+
+export const useRestoreItemMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, type }: { id: string; type: 'file' | 'folder' }) => {
+      const { error } =
+        type === 'folder'
+          ? await supabase.rpc('restore_folder', { p_folder_id: id })
+          : await supabase.rpc('restore_file', { p_file_id: id });
+
+      // Taken names get a number on restore, so this is only a name created at the same moment
+      if (error?.code === '23505') {
+        throw new Error('An item with the same name was just created there. Please try again.');
+      }
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      queryClient.invalidateQueries({ queryKey: ['files'] });
+      queryClient.invalidateQueries({ queryKey: ['folders'] });
+      queryClient.invalidateQueries({ queryKey: ['picker-folders'] });
+    },
+  });
+};
+
+export const useEmptyTrashMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.functions.invoke('upload-to-s3', {
+        body: {
+          action: 'empty-trash',
+        },
+      });
+      if (error) throw await toFunctionError(error);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      queryClient.invalidateQueries({ queryKey: ['storage-stats'] });
+    },
+  });
+};
+
+// Skips the retention period for one item. A folder takes everything below it along; their
+// S3 objects are deleted in the background once the rows are gone.
+export const useDeleteForeverMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, type }: { id: string; type: 'file' | 'folder' }) => {
+      const { error } = await supabase.functions.invoke('upload-to-s3', {
+        body:
+          type === 'folder'
+            ? { action: 'delete-folder', folderId: id }
+            : { action: 'delete-file', fileId: id },
+      });
+      if (error) throw await toFunctionError(error);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      queryClient.invalidateQueries({ queryKey: ['storage-stats'] });
+    },
+  });
+};
@@ -0,0 +1,296 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, FlatList, Platform, ScrollView, Text, View } from 'react-native';
+import Pdf from 'react-native-pdf';
+import { parseCsv } from '../lib/csv';
+import { DocumentPreviewType, getDocumentPreviewType } from '../lib/documentPreview';
+import { fetchTextChunk, TextChunk } from '../lib/rangedText';
+import { supabase } from '../lib/supabase';
+import { getSyntax, highlightLine, TokenKind } from '../lib/syntaxHighlight';
+import { File, formatFileSize } from '../types/database';
+
+interface DocumentViewerScreenProps {
+  navigation: any;
+  route: {
+    params: {
+      file: File;
+    };
+  };
+}
+
+const MONOSPACE_FONT = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+const TOKEN_COLORS: Record<TokenKind, string> = {
+  plain: '#d4d4d8',
+  keyword: '#c084fc',
+  string: '#86efac',
+  number: '#fbbf24',
+  comment: '#71717a',
+};
+
+const CSV_COLUMN_WIDTH = 160;
+
+// Text loaded so far, one range request at a time as the list is scrolled
+const useTextChunks = (url: string, totalSize: number) => {
+  const [chunks, setChunks] = useState<TextChunk[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lastChunk = chunks[chunks.length - 1];
+  const done = lastChunk?.done ?? totalSize === 0;
+  const loadedBytes = lastChunk?.nextOffset ?? 0;
+
+  const loadMore = useCallback(async () => {
+    if (isLoading || done || error) return;
+
+    setIsLoading(true);
+    try {
+      const chunk = await fetchTextChunk(url, loadedBytes, totalSize);
+      setChunks((previous) => [...previous, chunk]);
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [url, totalSize, loadedBytes, isLoading, done, error]);
+
+  useEffect(() => {
+    if (chunks.length === 0) loadMore();
+  }, [chunks.length, loadMore]);
+
+  const text = useMemo(() => chunks.map((chunk) => chunk.text).join(''), [chunks]);
+
+  return { text, done, loadedBytes, isLoading, error, loadMore };
+};
+
+const ListFooter: React.FC<{
+  isLoading: boolean;
+  error: string | null;
+  done: boolean;
+  loadedBytes: number;
+  totalSize: number;
+}> = ({ isLoading, error, done, loadedBytes, totalSize }) => {
+  if (error) {
+    return <Text className="px-4 py-4 text-sm text-red-400">Failed to load more. {error}</Text>;
+  }
+  if (isLoading) {
+    return (
+      <View className="py-4">
+        <ActivityIndicator size="small" color="#71717a" />
+      </View>
+    );
+  }
+  if (!done) {
+    return (
+      <Text className="px-4 py-4 text-xs text-zinc-500">
+        Showing {formatFileSize(loadedBytes)} of {formatFileSize(totalSize)}
+      </Text>
+    );
+  }
+  return null;
+};
+
+const TextPreview: React.FC<{ file: File; url: string; highlight: boolean }> = ({
+  file,
+  url,
+  highlight,
+}) => {
+  const { text, done, loadedBytes, isLoading, error, loadMore } = useTextChunks(
+    url,
+    file.size_bytes
+  );
+  const syntax = getSyntax(file.name);
+
+  const lines = useMemo(() => {
+    const split = text.split(/\r?\n/);
+    // Chunks end on a line break, the empty line after it is not real until the file ends
+    if (!done && split[split.length - 1] === '') split.pop();
+    return split;
+  }, [text, done]);
+
+  const gutterWidth = String(lines.length).length * 8 + 16;
+
+  return (
+    <FlatList
+      data={lines}
+      keyExtractor={(_, index) => String(index)}
+      renderItem={({ item, index }) => (
+        <View className="flex-row px-2">
+          {highlight && (
+            <Text
+              className="text-right text-xs text-zinc-600"
+              style={{ width: gutterWidth, fontFamily: MONOSPACE_FONT, marginRight: 8 }}>
+              {index + 1}
+            </Text>
+          )}
+          <Text className="flex-1 text-xs text-zinc-300" style={{ fontFamily: MONOSPACE_FONT }}>
+            {highlight
+              ? highlightLine(item, syntax).map((token, tokenIndex) => (
+                  <Text key={tokenIndex} style={{ color: TOKEN_COLORS[token.kind] }}>
+                    {token.text}
+                  </Text>
+                ))
+              : item || ' '}
+          </Text>
+        </View>
+      )}
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.5}
+      contentContainerStyle={{ paddingVertical: 12 }}
+      ListFooterComponent={
+        <ListFooter
+          isLoading={isLoading}
+          error={error}
+          done={done}
+          loadedBytes={loadedBytes}
+          totalSize={file.size_bytes}
+        />
+      }
+    />
+  );
+};
+
+const CsvPreview: React.FC<{ file: File; url: string }> = ({ file, url }) => {
+  const { text, done, loadedBytes, isLoading, error, loadMore } = useTextChunks(
+    url,
+    file.size_bytes
+  );
+
+  const rows = useMemo(() => parseCsv(text, done), [text, done]);
+  const columnCount = useMemo(
+    () => Math.max(1, ...rows.slice(0, 100).map((row) => row.length)),
+    [rows]
+  );
+
+  const renderRow = ({ item, index }: { item: string[]; index: number }) => (
+    <View
+      className={`flex-row border-b border-zinc-800 ${index === 0 ? 'bg-zinc-900' : ''}`}
+      style={{ width: columnCount * CSV_COLUMN_WIDTH }}>
+      {Array.from({ length: columnCount }, (_, column) => (
+        <Text
+          key={column}
+          numberOfLines={3}
+          className={`border-r border-zinc-800 px-3 py-2 text-xs ${
+            index === 0 ? 'font-semibold text-zinc-100' : 'text-zinc-300'
+          }`}
+          style={{ width: CSV_COLUMN_WIDTH }}>
+          {item[column] ?? ''}
+        </Text>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView horizontal>
+      <FlatList
+        data={rows}
+        keyExtractor={(_, index) => String(index)}
+        renderItem={renderRow}
+        // The first row is the header in almost every export
+        stickyHeaderIndices={rows.length > 0 ? [0] : undefined}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          <ListFooter
+            isLoading={isLoading}
+            error={error}
+            done={done}
+            loadedBytes={loadedBytes}
+            totalSize={file.size_bytes}
+          />
+        }
+      />
+    </ScrollView>
+  );
+};
+
+const PdfPreview: React.FC<{ file: File; url: string }> = ({ file, url }) => {
+  const [page, setPage] = useState(1);
+  const [pageCount, setPageCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  if (error) {
+    return (
+      <View className="flex-1 items-center justify-center px-8">
+        <Text className="text-center text-sm text-zinc-500">Failed to open PDF. {error}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1">
+      {/* pdfium needs the whole file, it is cached by contents so reopening is instant */}
+      <Pdf
+        source={{ uri: url, cache: true, cacheFileName: `${file.id}-v${file.version}` }}
+        onLoadComplete={(numberOfPages) => setPageCount(numberOfPages)}
+        onPageChanged={(currentPage) => setPage(currentPage)}
+        onError={(pdfError) => setError(String((pdfError as Error).message ?? pdfError))}
+        renderActivityIndicator={() => <ActivityIndicator size="small" color="#71717a" />}
+        style={{ flex: 1, backgroundColor: '#09090b' }}
+      />
+      {pageCount > 0 && (
+        <View className="absolute bottom-6 self-center rounded-full bg-zinc-900/90 px-4 py-2">
+          <Text className="text-sm text-zinc-300">
+            Page {page} of {pageCount}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const DocumentViewerScreen: React.FC<DocumentViewerScreenProps> = ({ route }) => {
+  const { file } = route.params;
+  const previewType = getDocumentPreviewType(file.mime_type, file.name) as DocumentPreviewType;
+  const [url, setUrl] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const { data, error } = await supabase.functions.invoke('upload-to-s3', {
+          body: {
+            action: 'get-signed-url',
+            s3Key: file.s3_key,
+          },
+        });
+        if (error) throw error;
+        if (!cancelled) setUrl(data.signedUrl);
+      } catch (error) {
+        if (!cancelled) setLoadError((error as Error).message);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [file.s3_key]);
+
+  return (
+    <View className="flex-1 bg-zinc-950">
+      {url ? (
+        previewType === 'pdf' ? (
+          <PdfPreview file={file} url={url} />
+        ) : previewType === 'csv' ? (
+          <CsvPreview file={file} url={url} />
+        ) : (
+          <TextPreview file={file} url={url} highlight={previewType === 'code'} />
+        )
+      ) : loadError ? (
+        <View className="flex-1 items-center justify-center px-8">
+          <Text className="text-center text-sm text-zinc-500">
+            Failed to load document. {loadError}
+          </Text>
+        </View>
+      ) : (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="small" color="#71717a" />
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default DocumentViewerScreen;
@@ -11,8 +11,9 @@ import {
   Modal,
   Pressable,
   RefreshControl,
-  SafeAreaView,
   ScrollView,
+  Share,
+  Switch,
   Text,
   TextInput,
   View,
@@ -20,24 +21,75 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Button from '../components/Button';
 import Card from '../components/Card';
+import { FilterSheet } from '../components/FilterSheet';
+import { FolderMembersSheet } from '../components/FolderMembersSheet';
 import { FolderPicker } from '../components/FolderPicker';
+import { ImageGallery } from '../components/ImageGallery';
+import { ShareLinkSheet } from '../components/ShareLinkSheet';
+import { SortSheet } from '../components/SortSheet';
+import { TrashBin } from '../components/TrashBin';
+import { VersionHistorySheet } from '../components/VersionHistorySheet';
 import { useAuth } from '../contexts/AuthContext';
 import { useDebounce } from '../hooks/useDebounce';
+import { verifyFileChecksum } from '../lib/checksum';
+import { getDocumentPreviewType } from '../lib/documentPreview';
+import {
+  countActiveFilters,
+  DEFAULT_FILE_FILTERS,
+  FileFilters,
+  hasActiveFilters,
+} from '../lib/fileFilters';
+import { getLastFolderId, saveLastFolderId } from '../lib/lastFolder';
+import {
+  DEFAULT_SORT_ORDER,
+  getFolderSortOrder,
+  saveFolderSortOrder,
+  SORT_FIELDS,
+  SortOrder,
+} from '../lib/sortOrder';
 import { supabase } from '../lib/supabase';
+import { getFileLink, getFolderLink } from '../navigation/linking';
 import {
   useCreateFolderMutation,
   useDeleteFileMutation,
   useDeleteFolderMutation,
   useFilesQuery,
+  useFolderPathQuery,
+  useFolderRoleQuery,
   useFoldersQuery,
   useMoveFileMutation,
   useMoveFolderMutation,
+  useRenameFileMutation,
+  useRenameFolderMutation,
+  useSearchQuery,
+  useSharedFoldersQuery,
+  useThumbnailUrlsQuery,
 } from '../queries';
-import { File, Folder, formatFileSize, getFileIcon, type FileIconType } from '../types/database';
+import {
+  File,
+  FileVersion,
+  Folder,
+  FolderPathEntry,
+  formatFileSize,
+  getFileBaseName,
+  getFileExtension,
+  getFileIcon,
+  isAudioFile,
+  isImageFile,
+  isVideoFile,
+  SearchResult,
+  type FileIconType,
+} from '../types/database';
 import { SAFE_LIMITS } from '../config/safeLimits';
 
 interface FileManagerScreenProps {
   navigation: any;
+  route: {
+    params?: {
+      // Set by folder links, see navigation/linking.ts
+      folderId?: string | null;
+    };
+  };
 }
 
 const FileIcon: React.FC<{ type: FileIconType; size?: number }> = ({ type, size = 24 }) => {
@@ -77,12 +129,16 @@ const SearchInput = React.memo(
   ({
     searchQuery,
     onSearchChange,
+    activeFilterCount,
+    onOpenFilters,
   }: {
     searchQuery: string;
     onSearchChange: (query: string) => void;
+    activeFilterCount: number;
+    onOpenFilters: () => void;
   }) => (
-    <View className="mb-6">
-      <View className="flex-row items-center rounded-2xl bg-zinc-900 px-4 py-3">
+    <View className="mb-6 flex-row items-center">
+      <View className="flex-1 flex-row items-center rounded-2xl bg-zinc-900 px-4 py-3">
         <Ionicons name="search" size={20} color="#71717a" />
         <TextInput
           placeholder="Search files and folders..."
@@ -100,27 +156,59 @@ const SearchInput = React.memo(
           />
         )}
       </View>
+      <Pressable
+        onPress={onOpenFilters}
+        className={`ml-3 h-12 w-12 items-center justify-center rounded-2xl ${
+          activeFilterCount > 0 ? 'bg-zinc-200' : 'bg-zinc-900'
+        }`}>
+        <Ionicons
+          name="options-outline"
+          size={20}
+          color={activeFilterCount > 0 ? '#09090b' : '#71717a'}
+        />
+        {activeFilterCount > 0 && (
+          <View className="absolute -right-1 -top-1 h-5 w-5 items-center justify-center rounded-full bg-blue-500">
+            <Text className="text-xs font-bold text-white">{activeFilterCount}</Text>
+          </View>
+        )}
+      </Pressable>
     </View>
   )
 );
 
-const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) => {
+const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation, route }) => {
   const { user } = useAuth();
   const iconColor = '#a1a1aa';
   const insets = useSafeAreaInsets();
   const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
-  const [folderPath, setFolderPath] = useState<{ id: string | null; name: string }[]>([
+  // The path as far as the app knows it, shown until folder_path answers
+  const [knownFolderPath, setKnownFolderPath] = useState<{ id: string | null; name: string }[]>([
     { id: null, name: 'My Drive' },
   ]);
+  // A link opened at launch wins over the last folder
+  const [restoreLastFolder] = useState(() => route.params?.folderId === undefined);
+  const [isLocationRestored, setIsLocationRestored] = useState(false);
   const [isCreateFolderModalVisible, setIsCreateFolderModalVisible] = useState(false);
   const [newFolderName, setNewFolderName] = useState('');
   const fadeAnim = useState(new Animated.Value(0))[0];
   const [searchQuery, setSearchQuery] = useState('');
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
+  const [fileFilters, setFileFilters] = useState<FileFilters>(DEFAULT_FILE_FILTERS);
+  const [isFilterSheetVisible, setIsFilterSheetVisible] = useState(false);
+  const [sortOrder, setSortOrder] = useState<SortOrder>(DEFAULT_SORT_ORDER);
+  const [isSortSheetVisible, setIsSortSheetVisible] = useState(false);
+  const filtersActive = hasActiveFilters(fileFilters);
   const [selectedItem, setSelectedItem] = useState<any>(null);
   const [isActionSheetVisible, setIsActionSheetVisible] = useState(false);
   const [isMoveModalVisible, setIsMoveModalVisible] = useState(false);
-  const [previewImageUrl, setPreviewImageUrl] = useState<string | null>(null);
+  const [isTrashVisible, setIsTrashVisible] = useState(false);
+  const [isShareLinkVisible, setIsShareLinkVisible] = useState(false);
+  const [isMembersSheetVisible, setIsMembersSheetVisible] = useState(false);
+  const [isVersionHistoryVisible, setIsVersionHistoryVisible] = useState(false);
+  const [isRenameModalVisible, setIsRenameModalVisible] = useState(false);
+  const [renameValue, setRenameValue] = useState('');
+  const [keepExtension, setKeepExtension] = useState(true);
+  const [galleryFileId, setGalleryFileId] = useState<string | null>(null);
   const [downloadingFiles, setDownloadingFiles] = useState<
     Record<string, { progress: number; name: string }>
   >({});
@@ -158,6 +246,8 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
     setSearchQuery(query);
   }, []);
 
+  const handleOpenFilters = useCallback(() => setIsFilterSheetVisible(true), []);
+
   // Memoize navigation handlers to prevent unnecessary re-renders
   const handleNavigateToUpload = useCallback(
     () => navigation.navigate('Upload', { folderId: currentFolderId }),
@@ -171,7 +261,7 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
     fetchNextPage: fetchNextFolders,
     hasNextPage: hasNextFolders,
     isFetchingNextPage: isFetchingNextFolders,
-  } = useFoldersQuery(user?.id, currentFolderId, debouncedSearchQuery);
+  } = useFoldersQuery(user?.id, currentFolderId, sortOrder);
 
   const {
     data: filesData,
@@ -180,13 +270,94 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
     fetchNextPage: fetchNextFiles,
     hasNextPage: hasNextFiles,
     isFetchingNextPage: isFetchingNextFiles,
-  } = useFilesQuery(user?.id, currentFolderId, debouncedSearchQuery);
+  } = useFilesQuery(user?.id, currentFolderId, fileFilters, sortOrder);
+
+  const isSearching = debouncedSearchQuery.trim().length > 0;
+  const {
+    data: searchData,
+    isLoading: searchLoading,
+    refetch: refetchSearch,
+    fetchNextPage: fetchNextSearchResults,
+    hasNextPage: hasNextSearchResults,
+    isFetchingNextPage: isFetchingNextSearchResults,
+  } = useSearchQuery(debouncedSearchQuery, fileFilters, currentFolderId);
+  const searchResults = useMemo(() => searchData?.pages.flat() ?? [], [searchData]);
+
+  const { data: sharedFolders = [] } = useSharedFoldersQuery(user?.id);
+  const { data: currentFolderRole } = useFolderRoleQuery(currentFolderId);
+  const { data: serverFolderPath, isPlaceholderData: isFolderPathPlaceholder } = useFolderPathQuery(
+    currentFolderId,
+    knownFolderPath.slice(1) as FolderPathEntry[]
+  );
+
+  // Breadcrumbs come from the server, so a folder opened from a link or restored on launch
+  // gets its full path, and renames further up show without navigating again
+  const folderPath = useMemo(
+    () => [
+      { id: null as string | null, name: 'My Drive' },
+      ...(currentFolderId === null ? [] : (serverFolderPath ?? [])),
+    ],
+    [currentFolderId, serverFolderPath]
+  );
+
+  // An empty path means the folder is gone or no longer shared with us
+  React.useEffect(() => {
+    if (currentFolderId && !isFolderPathPlaceholder && serverFolderPath?.length === 0) {
+      setKnownFolderPath([{ id: null, name: 'My Drive' }]);
+      setCurrentFolderId(null);
+    }
+  }, [currentFolderId, serverFolderPath, isFolderPathPlaceholder]);
 
+  React.useEffect(() => {
+    let cancelled = false;
+    if (!restoreLastFolder) {
+      setIsLocationRestored(true);
+      return;
+    }
+    getLastFolderId()
+      .then((folderId) => {
+        if (!cancelled && folderId) setCurrentFolderId((current) => current ?? folderId);
+      })
+      .catch((error) => console.error('Failed to restore last folder:', error))
+      .finally(() => {
+        if (!cancelled) setIsLocationRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreLastFolder]);
+
+  React.useEffect(() => {
+    if (!isLocationRestored) return;
+    saveLastFolderId(currentFolderId).catch((error) =>
+      console.error('Failed to save last folder:', error)
+    );
+  }, [currentFolderId, isLocationRestored]);
+
+  const linkedFolderId = route.params?.folderId;
+  React.useEffect(() => {
+    if (linkedFolderId === undefined) return;
+    setKnownFolderPath([{ id: null, name: 'My Drive' }]);
+    setCurrentFolderId(linkedFolderId);
+    setSearchQuery('');
+    // Cleared so opening the same link again is seen as a change
+    navigation.setParams({ folderId: undefined });
+  }, [linkedFolderId, navigation]);
+  // Viewers of a shared folder can browse it but not add to it
+  const canEditCurrentFolder = currentFolderId === null || currentFolderRole !== 'viewer';
+
+  // Filters apply to files, so the folder's subfolders are hidden while they are on
   const folders = useMemo(
-    () => foldersData?.pages.flatMap((page) => page.data) ?? [],
-    [foldersData]
+    () => (filtersActive ? [] : (foldersData?.pages.flatMap((page) => page.data) ?? [])),
+    [foldersData, filtersActive]
   );
   const files = useMemo(() => filesData?.pages.flatMap((page) => page.data) ?? [], [filesData]);
+  const { data: thumbnailUrls } = useThumbnailUrlsQuery(files);
+  // The gallery swipes through the images of the folder as far as it has been loaded
+  const galleryImages = useMemo(
+    () => files.filter((file) => isImageFile(file.mime_type || undefined)),
+    [files]
+  );
 
   const createFolderMutation = useCreateFolderMutation();
 
@@ -215,14 +386,11 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
       if (item.type === 'folder') {
         await deleteFolderMutation.mutateAsync(item.id);
       } else {
-        await deleteFileMutation.mutateAsync({
-          fileId: item.id,
-          s3Key: item.s3_key!,
-        });
+        await deleteFileMutation.mutateAsync({ fileId: item.id });
       }
       setIsActionSheetVisible(false);
       setSelectedItem(null);
-      Alert.alert('Success', `${item.name} has been deleted.`);
+      Alert.alert('Moved to Trash', `${item.name} can be restored from Trash.`);
     } catch (error) {
       Alert.alert('Error', `Failed to delete ${item.name}. ${(error as Error).message}`);
     }
@@ -252,6 +420,51 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
     }
   };
 
+  const renameFileMutation = useRenameFileMutation();
+  const renameFolderMutation = useRenameFolderMutation();
+  const isRenaming = renameFileMutation.isPending || renameFolderMutation.isPending;
+
+  const openRenameModal = (item: any) => {
+    setRenameValue(item.type === 'file' ? getFileBaseName(item.name) : item.name);
+    setKeepExtension(true);
+    setIsActionSheetVisible(false);
+    setIsRenameModalVisible(true);
+  };
+
+  const handleToggleKeepExtension = (value: boolean) => {
+    const extension = getFileExtension(selectedItem?.name ?? '');
+    setKeepExtension(value);
+    // Show the full name while the extension is editable
+    setRenameValue((current) =>
+      value ? getFileBaseName(current) || current : `${current}${extension}`
+    );
+  };
+
+  const handleRename = async () => {
+    if (!selectedItem || !renameValue.trim() || isRenaming) return;
+
+    try {
+      if (selectedItem.type === 'folder') {
+        await renameFolderMutation.mutateAsync({
+          folderId: selectedItem.id,
+          newName: renameValue,
+        });
+      } else {
+        await renameFileMutation.mutateAsync({
+          fileId: selectedItem.id,
+          currentName: selectedItem.name,
+          newName: renameValue,
+          keepExtension,
+        });
+      }
+      setIsRenameModalVisible(false);
+      setSelectedItem(null);
+      setRenameValue('');
+    } catch (error) {
+      Alert.alert('Rename Failed', (error as Error).message);
+    }
+  };
+
   const downloadFile = async (file: any) => {
     if (file.type !== 'file' || !file.s3_key) return;
     if (downloadingFiles[file.id]) return; // Prevent multiple downloads
@@ -291,6 +504,15 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
         throw new Error('Failed to download file from S3.');
       }
 
+      // Files uploaded before checksums were recorded have nothing to compare against
+      if (
+        file.checksum_sha256 &&
+        !(await verifyFileChecksum(downloadResult.uri, file.size_bytes, file.checksum_sha256))
+      ) {
+        await FileSystem.deleteAsync(downloadResult.uri, { idempotent: true });
+        throw new Error('The downloaded file is corrupted');
+      }
+
       await Sharing.shareAsync(downloadResult.uri);
     } catch (error) {
       Alert.alert(
@@ -306,32 +528,55 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
     }
   };
 
-  const openPreview = useCallback(async (file: any) => {
-    if (file.type !== 'file' || !file.s3_key || !file.mime_type?.startsWith('image/')) {
-      Alert.alert('Preview not available', 'This file type cannot be previewed.');
-      return;
-    }
+  const downloadVersion = (file: File, version: FileVersion) => {
+    const extension = getFileExtension(file.name);
+    downloadFile({
+      ...file,
+      ...version,
+      type: 'file',
+      // Named apart from the current version so neither overwrites the other
+      name: `${getFileBaseName(file.name)} (v${version.version})${extension}`,
+    });
+  };
 
-    try {
-      const { data, error } = await supabase.functions.invoke('upload-to-s3', {
-        body: {
-          action: 'get-signed-url',
-          s3Key: file.s3_key,
-        },
-      });
-      if (error) throw error;
-      setPreviewImageUrl(data.signedUrl);
-    } catch (error) {
-      Alert.alert('Error', `Failed to load preview. ${(error as Error).message}`);
-    }
-  }, []);
+  const openPreview = useCallback(
+    async (file: any) => {
+      if (file.type === 'file' && (isVideoFile(file.mime_type) || isAudioFile(file.mime_type))) {
+        navigation.navigate('MediaViewer', { file });
+        return;
+      }
+
+      if (file.type === 'file' && getDocumentPreviewType(file.mime_type, file.name)) {
+        navigation.navigate('DocumentViewer', { file });
+        return;
+      }
+
+      if (file.type !== 'file' || !file.s3_key || !isImageFile(file.mime_type)) {
+        Alert.alert('Preview not available', 'This file type cannot be previewed.');
+        return;
+      }
+
+      setGalleryFileId(file.id);
+    },
+    [navigation]
+  );
 
   const handleRefresh = () => {
+    if (isSearching) {
+      refetchSearch();
+      return;
+    }
     refetchFolders();
     refetchFiles();
   };
 
   const loadMore = () => {
+    if (isSearching) {
+      if (hasNextSearchResults && !isFetchingNextSearchResults) {
+        fetchNextSearchResults();
+      }
+      return;
+    }
     if (hasNextFolders && !isFetchingNextFolders) {
       fetchNextFolders();
     }
@@ -343,7 +588,7 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
   const navigateToFolder = useCallback(
     (folder: Folder) => {
       setCurrentFolderId(folder.id);
-      setFolderPath([...folderPath, { id: folder.id, name: folder.name }]);
+      setKnownFolderPath([...folderPath, { id: folder.id, name: folder.name }]);
     },
     [folderPath]
   );
@@ -351,7 +596,7 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
   const navigateToPath = useCallback(
     (index: number) => {
       const newPath = folderPath.slice(0, index + 1);
-      setFolderPath(newPath);
+      setKnownFolderPath(newPath);
       setCurrentFolderId(newPath[newPath.length - 1].id);
     },
     [folderPath]
@@ -370,15 +615,22 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
           <Text className="text-3xl font-bold text-zinc-100">
             {folderPath[folderPath.length - 1]?.name || 'My Drive'}
           </Text>
-          {folderPath.length > 1 && (
-            <Button
-              onPress={handleGoBack}
-              variant="outline"
-              size="sm"
-              title="Back"
-              leftIcon={<Ionicons name="chevron-back" size={16} color={iconColor} />}
-            />
-          )}
+          <View className="flex-row items-center gap-2">
+            {folderPath.length > 1 && (
+              <Button
+                onPress={handleGoBack}
+                variant="outline"
+                size="sm"
+                title="Back"
+                leftIcon={<Ionicons name="chevron-back" size={16} color={iconColor} />}
+              />
+            )}
+            <Pressable
+              onPress={() => setIsTrashVisible(true)}
+              className="h-10 w-10 items-center justify-center rounded-xl bg-zinc-900">
+              <Ionicons name="trash-outline" size={18} color={iconColor} />
+            </Pressable>
+          </View>
         </View>
         {folderPath.length > 1 && (
           <ScrollView
@@ -416,6 +668,58 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
     [folderPath, navigateToPath, handleGoBack, iconColor]
   );
 
+  // Opens the folder a result lives in, or the folder itself, with the breadcrumb filled in
+  const openSearchResult = useCallback((result: SearchResult) => {
+    const path = [
+      { id: null, name: 'My Drive' },
+      ...result.path,
+      ...(result.item_type === 'folder' ? [{ id: result.id, name: result.name }] : []),
+    ];
+    setKnownFolderPath(path);
+    setCurrentFolderId(path[path.length - 1].id);
+    setSearchQuery('');
+  }, []);
+
+  const renderSearchResult = useCallback(
+    ({ item }: { item: SearchResult }) => (
+      <View className="mx-4 mb-3">
+        <Pressable
+          onPress={() => openSearchResult(item)}
+          className="flex-row items-center rounded-2xl border border-zinc-800 bg-zinc-900 p-4 active:bg-zinc-800">
+          <View className="mr-4 h-12 w-12 items-center justify-center rounded-2xl bg-zinc-800">
+            {item.item_type === 'folder' ? (
+              <Ionicons name="folder" size={24} color="#71717a" />
+            ) : (
+              <FileIcon type={getFileIcon(item.mime_type || undefined)} size={24} />
+            )}
+          </View>
+          <View className="flex-1">
+            <Text className="mb-1 text-lg font-semibold text-zinc-100" numberOfLines={1}>
+              {item.name}
+            </Text>
+            <Text className="text-sm text-zinc-500" numberOfLines={1}>
+              {['My Drive', ...item.path.map((folder) => folder.name)].join(' / ')}
+            </Text>
+            {item.snippet && (
+              <Text className="mt-1 text-xs text-zinc-400" numberOfLines={2}>
+                {/* search_items marks the matched words with « and » */}
+                {item.snippet.split(/«|»/).map((part, index) => (
+                  <Text
+                    key={index}
+                    className={index % 2 === 1 ? 'font-semibold text-zinc-100' : undefined}>
+                    {part}
+                  </Text>
+                ))}
+              </Text>
+            )}
+          </View>
+          <Ionicons name="chevron-forward" size={16} color="#71717a" />
+        </Pressable>
+      </View>
+    ),
+    [openSearchResult]
+  );
+
   const renderFolder = useCallback(
     ({ item }: { item: Folder }) => (
       <View className="mx-4 mb-3">
@@ -485,8 +789,12 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
               />
             </View>
           )}
-          <View className="mr-4 h-12 w-12 items-center justify-center rounded-2xl bg-zinc-900">
-            <FileIcon type={getFileIcon(item.mime_type || undefined)} size={24} />
+          <View className="mr-4 h-12 w-12 items-center justify-center overflow-hidden rounded-2xl bg-zinc-900">
+            {thumbnailUrls?.[item.id] ? (
+              <Image source={{ uri: thumbnailUrls[item.id] }} className="h-12 w-12" />
+            ) : (
+              <FileIcon type={getFileIcon(item.mime_type || undefined)} size={24} />
+            )}
           </View>
           <View className="flex-1">
             <Text className="mb-1 text-lg font-semibold text-zinc-100" numberOfLines={1}>
@@ -495,6 +803,10 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
             <Text className="text-sm text-zinc-500">
               {formatFileSize(item.size_bytes)} • {new Date(item.created_at!).toLocaleDateString()}
             </Text>
+            {/* Flagged by the reconcile-storage job, downloads of this file will fail */}
+            {item.object_missing_at && (
+              <Text className="mt-1 text-xs text-red-400">Missing from storage</Text>
+            )}
           </View>
           {!selectionMode && (
             <Pressable
@@ -506,7 +818,39 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
         </Pressable>
       </View>
     ),
-    [openPreview, iconColor, openActionSheet, selectionMode, selectedItems, toggleItemSelection]
+    [
+      openPreview,
+      iconColor,
+      openActionSheet,
+      selectionMode,
+      selectedItems,
+      toggleItemSelection,
+      thumbnailUrls,
+    ]
+  );
+
+  // Each folder opens in the order it was last sorted by
+  React.useEffect(() => {
+    let cancelled = false;
+    getFolderSortOrder(currentFolderId)
+      .then((sort) => {
+        if (!cancelled) setSortOrder(sort);
+      })
+      .catch((error) => console.error('Failed to load sort order:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentFolderId]);
+
+  const handleSortChange = useCallback(
+    (sort: SortOrder) => {
+      setSortOrder(sort);
+      setIsSortSheetVisible(false);
+      saveFolderSortOrder(currentFolderId, sort).catch((error) =>
+        console.error('Failed to save sort order:', error)
+      );
+    },
+    [currentFolderId]
   );
 
   React.useEffect(() => {
@@ -549,7 +893,7 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
       message = `Are you sure you want to delete ${folderCount} folder${folderCount === 1 ? '' : 's'}?`;
     }
 
-    Alert.alert('Delete Items', message + ' This action cannot be undone.', [
+    Alert.alert('Delete Items', `${message} You can restore them from Trash.`, [
       { text: 'Cancel', style: 'cancel' },
       {
         text: 'Delete',
@@ -560,17 +904,14 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
               if (item.type === 'folder') {
                 await deleteFolderMutation.mutateAsync(item.id);
               } else {
-                await deleteFileMutation.mutateAsync({
-                  fileId: item.id,
-                  s3Key: item.s3_key!,
-                });
+                await deleteFileMutation.mutateAsync({ fileId: item.id });
               }
             }
             setSelectionMode(false);
             setSelectedItems(new Set());
             Alert.alert(
-              'Success',
-              `${selectedItems.size} item${selectedItems.size === 1 ? '' : 's'} deleted.`
+              'Moved to Trash',
+              `${selectedItems.size} item${selectedItems.size === 1 ? '' : 's'} moved to Trash.`
             );
           } catch (error) {
             Alert.alert('Error', `Failed to delete some items. ${(error as Error).message}`);
@@ -586,83 +927,151 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
       <>
         {renderBreadcrumb()}
         <View className="mb-4 px-6">
-          <SearchInput searchQuery={searchQuery} onSearchChange={handleSearchChange} />
+          <SearchInput
+            searchQuery={searchQuery}
+            onSearchChange={handleSearchChange}
+            activeFilterCount={countActiveFilters(fileFilters)}
+            onOpenFilters={handleOpenFilters}
+          />
 
-          <View className="mb-6 flex-row items-center justify-between">
-            <View>
-              <Text className="text-lg font-semibold text-zinc-100">
-                {folders.length + files.length}{' '}
-                {folders.length + files.length === 1 ? 'item' : 'items'}
-              </Text>
-              <Text className="text-sm text-zinc-500">
-                {folders.length} folders • {files.length} files
-              </Text>
-            </View>
+          {currentFolderId === null &&
+            !debouncedSearchQuery &&
+            !filtersActive &&
+            sharedFolders.length > 0 && (
+              <View className="mb-6">
+                <Text className="mb-3 text-lg font-semibold text-zinc-100">Shared with me</Text>
+                {sharedFolders.map((folder) => (
+                  <Pressable
+                    key={folder.id}
+                    onPress={() => navigateToFolder(folder)}
+                    className="mb-2 flex-row items-center rounded-2xl border border-zinc-800 bg-zinc-900 p-4 active:bg-zinc-800">
+                    <View className="mr-4 h-10 w-10 items-center justify-center rounded-xl bg-zinc-800">
+                      <Ionicons name="people" size={20} color={iconColor} />
+                    </View>
+                    <View className="flex-1">
+                      <Text className="text-base font-semibold text-zinc-100" numberOfLines={1}>
+                        {folder.name}
+                      </Text>
+                      <Text className="mt-1 text-xs text-zinc-500" numberOfLines={1}>
+                        {folder.owner_email} • <Text className="capitalize">{folder.role}</Text>
+                      </Text>
+                    </View>
+                    <Ionicons name="chevron-forward" size={16} color="#71717a" />
+                  </Pressable>
+                ))}
+              </View>
+            )}
 
-            <View className="flex-row items-center gap-3">
-              {allItems.length > 0 && (
-                <Button
-                  variant={selectionMode ? 'secondary' : 'outline'}
-                  size="sm"
-                  title={selectionMode ? 'Done' : 'Select'}
-                  leftIcon={
+          {isSearching ? (
+            <Text className="mb-4 text-sm text-zinc-500">
+              {searchResults.length}
+              {hasNextSearchResults ? '+' : ''} {searchResults.length === 1 ? 'result' : 'results'}
+            </Text>
+          ) : (
+            <>
+              <View className="mb-6 flex-row items-center justify-between">
+                <View>
+                  <Text className="text-lg font-semibold text-zinc-100">
+                    {folders.length + files.length}{' '}
+                    {folders.length + files.length === 1 ? 'item' : 'items'}
+                  </Text>
+                  <Text className="text-sm text-zinc-500">
+                    {folders.length} folders • {files.length} files
+                  </Text>
+                  <Pressable
+                    onPress={() => setIsSortSheetVisible(true)}
+                    className="mt-1 flex-row items-center">
+                    <Text className="text-sm text-zinc-400">
+                      Sorted by {SORT_FIELDS[sortOrder.field].toLowerCase()}
+                    </Text>
                     <Ionicons
-                      name={selectionMode ? 'checkmark' : 'checkmark-circle-outline'}
-                      size={16}
-                      color={selectionMode ? '#09090b' : iconColor}
+                      name={sortOrder.ascending ? 'arrow-up' : 'arrow-down'}
+                      size={14}
+                      color="#a1a1aa"
+                      style={{ marginLeft: 4 }}
                     />
-                  }
-                  onPress={toggleSelectionMode}
-                />
-              )}
-              <Button
-                variant="outline"
-                size="sm"
-                title="New Folder"
-                leftIcon={<Ionicons name="folder-open-outline" size={16} color={iconColor} />}
-                onPress={() => setIsCreateFolderModalVisible(true)}
-              />
-              <Button
-                variant="secondary"
-                size="sm"
-                title="Upload"
-                leftIcon={<Ionicons name="cloud-upload-outline" size={16} color="#71717a" />}
-                onPress={handleNavigateToUpload}
-              />
-            </View>
-          </View>
+                  </Pressable>
+                </View>
 
-          {/* Bulk Actions Bar */}
-          {selectionMode && (
-            <View className="mx-4 mb-4 flex-row items-center justify-between rounded-xl bg-zinc-800 p-3">
-              <View className="flex-row items-center gap-3">
-                <Text className="text-sm font-medium text-zinc-300">
-                  {selectedCount} of {allItems.length} selected
-                </Text>
-              </View>
-              <View className="flex-row gap-2">
-                {!allSelected && selectedCount < 50 && (
-                  <Button variant="ghost" size="sm" title="Select All" onPress={selectAllItems} />
-                )}
-                {selectedCount > 0 && (
-                  <>
+                <View className="flex-row items-center gap-3">
+                  {allItems.length > 0 && (
                     <Button
-                      variant="ghost"
+                      variant={selectionMode ? 'secondary' : 'outline'}
                       size="sm"
-                      title="Deselect All"
-                      onPress={deselectAllItems}
+                      title={selectionMode ? 'Done' : 'Select'}
+                      leftIcon={
+                        <Ionicons
+                          name={selectionMode ? 'checkmark' : 'checkmark-circle-outline'}
+                          size={16}
+                          color={selectionMode ? '#09090b' : iconColor}
+                        />
+                      }
+                      onPress={toggleSelectionMode}
                     />
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      title="Delete Selected"
-                      onPress={bulkDelete}
-                      leftIcon={<Ionicons name="trash-outline" size={16} color="#d4d4d8" />}
-                    />
-                  </>
-                )}
+                  )}
+                  {canEditCurrentFolder && (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="New Folder"
+                        leftIcon={
+                          <Ionicons name="folder-open-outline" size={16} color={iconColor} />
+                        }
+                        onPress={() => setIsCreateFolderModalVisible(true)}
+                      />
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        title="Upload"
+                        leftIcon={
+                          <Ionicons name="cloud-upload-outline" size={16} color="#71717a" />
+                        }
+                        onPress={handleNavigateToUpload}
+                      />
+                    </>
+                  )}
+                </View>
               </View>
-            </View>
+
+              {/* Bulk Actions Bar */}
+              {selectionMode && (
+                <View className="mx-4 mb-4 flex-row items-center justify-between rounded-xl bg-zinc-800 p-3">
+                  <View className="flex-row items-center gap-3">
+                    <Text className="text-sm font-medium text-zinc-300">
+                      {selectedCount} of {allItems.length} selected
+                    </Text>
+                  </View>
+                  <View className="flex-row gap-2">
+                    {!allSelected && selectedCount < 50 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Select All"
+                        onPress={selectAllItems}
+                      />
+                    )}
+                    {selectedCount > 0 && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Deselect All"
+                          onPress={deselectAllItems}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Delete Selected"
+                          onPress={bulkDelete}
+                          leftIcon={<Ionicons name="trash-outline" size={16} color="#d4d4d8" />}
+                        />
+                      </>
+                    )}
+                  </View>
+                </View>
+              )}
+            </>
           )}
         </View>
       </>
@@ -670,6 +1079,18 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
     [
       searchQuery,
       handleSearchChange,
+      fileFilters,
+      handleOpenFilters,
+      currentFolderId,
+      debouncedSearchQuery,
+      isSearching,
+      searchResults.length,
+      hasNextSearchResults,
+      sharedFolders,
+      filtersActive,
+      sortOrder,
+      navigateToFolder,
+      canEditCurrentFolder,
       folders.length,
       files.length,
       renderBreadcrumb,
@@ -686,6 +1107,8 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
     ]
   );
 
+  const listItems: (Folder | File | SearchResult)[] = isSearching ? searchResults : allItems;
+
   return (
     <View
       className="flex-1 bg-zinc-950"
@@ -695,19 +1118,21 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
         paddingRight: insets.right,
       }}>
       <FlatList
-        data={allItems}
+        data={listItems}
         keyExtractor={(item) => item.id}
         renderItem={({ item }) =>
-          item.type === 'folder'
-            ? renderFolder({ item: item as Folder })
-            : renderFile({ item: item as File })
+          'item_type' in item
+            ? renderSearchResult({ item })
+            : item.type === 'folder'
+              ? renderFolder({ item: item as Folder })
+              : renderFile({ item: item as File })
         }
         ListHeaderComponent={renderHeader}
         contentContainerStyle={{ paddingBottom: 20 }}
         onEndReached={loadMore}
         onEndReachedThreshold={0.5}
         ListFooterComponent={
-          isFetchingNextFolders || isFetchingNextFiles ? (
+          isFetchingNextFolders || isFetchingNextFiles || isFetchingNextSearchResults ? (
             <View className="items-center py-8">
               <ActivityIndicator size="small" color="#71717a" />
             </View>
@@ -715,13 +1140,27 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
         }
         refreshControl={
           <RefreshControl
-            refreshing={foldersLoading || filesLoading}
+            refreshing={isSearching ? searchLoading : foldersLoading || filesLoading}
             onRefresh={handleRefresh}
             tintColor="#71717a"
           />
         }
         ListEmptyComponent={
-          !foldersLoading && !filesLoading && allItems.length === 0 ? (
+          isSearching ? (
+            !searchLoading && searchResults.length === 0 ? (
+              <View className="items-center justify-center px-8 py-16">
+                <View className="mb-8 h-32 w-32 items-center justify-center rounded-3xl bg-zinc-900">
+                  <Ionicons name="search-outline" size={48} color="#71717a" />
+                </View>
+                <Text className="mb-3 text-center text-2xl font-bold text-zinc-100">
+                  No results found
+                </Text>
+                <Text className="mb-12 max-w-sm text-center text-base leading-relaxed text-zinc-500">
+                  Try adjusting your search terms or browse your folders.
+                </Text>
+              </View>
+            ) : null
+          ) : !foldersLoading && !filesLoading && allItems.length === 0 ? (
             <View className="items-center justify-center px-8 py-16">
               <View className="mb-8 h-32 w-32 items-center justify-center rounded-3xl bg-zinc-900">
                 <Ionicons
@@ -731,14 +1170,32 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
                 />
               </View>
               <Text className="mb-3 text-center text-2xl font-bold text-zinc-100">
-                {debouncedSearchQuery ? 'No results found' : 'Empty folder'}
+                {debouncedSearchQuery
+                  ? 'No results found'
+                  : filtersActive
+                    ? 'No matching files'
+                    : 'Empty folder'}
               </Text>
               <Text className="mb-12 max-w-sm text-center text-base leading-relaxed text-zinc-500">
                 {debouncedSearchQuery
                   ? 'Try adjusting your search terms or browse your folders.'
-                  : 'This folder is waiting for your first upload or subfolder.'}
+                  : filtersActive
+                    ? 'No files match the current filters.'
+                    : 'This folder is waiting for your first upload or subfolder.'}
               </Text>
-              {!debouncedSearchQuery && (
+              {!debouncedSearchQuery && filtersActive && (
+                <View className="w-full max-w-sm">
+                  <Button
+                    variant="outline"
+                    size="lg"
+                    title="Clear filters"
+                    onPress={() => setFileFilters(DEFAULT_FILE_FILTERS)}
+                    leftIcon={<Ionicons name="close-circle-outline" size={20} color={iconColor} />}
+                    className="w-full"
+                  />
+                </View>
+              )}
+              {!debouncedSearchQuery && !filtersActive && (
                 <View className="w-full max-w-sm gap-3">
                   <Button
                     variant="secondary"
@@ -762,6 +1219,23 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
           ) : null
         }
       />
+      <Modal
+        visible={isSortSheetVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setIsSortSheetVisible(false)}>
+        <Pressable
+          className="flex-1 justify-end"
+          style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}
+          onPress={() => setIsSortSheetVisible(false)}>
+          <Pressable
+            className="rounded-t-3xl border-t border-zinc-800 bg-zinc-950 p-6"
+            style={{ paddingBottom: insets.bottom + 24 }}
+            onPress={() => {}}>
+            <SortSheet sort={sortOrder} onChange={handleSortChange} />
+          </Pressable>
+        </Pressable>
+      </Modal>
       {selectedItem && (
         <Modal visible={isActionSheetVisible} transparent animationType="slide">
           <Pressable
@@ -799,9 +1273,73 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
                       leftIcon={<Ionicons name="download-outline" size={20} color="#a1a1aa" />}
                       className="justify-start"
                     />
+
+                    <Button
+                      onPress={() => {
+                        setIsActionSheetVisible(false);
+                        setIsShareLinkVisible(true);
+                      }}
+                      variant="ghost"
+                      size="lg"
+                      title="Share link"
+                      leftIcon={<Ionicons name="link-outline" size={20} color="#a1a1aa" />}
+                      className="justify-start"
+                    />
+
+                    <Button
+                      onPress={() => {
+                        setIsActionSheetVisible(false);
+                        setIsVersionHistoryVisible(true);
+                      }}
+                      variant="ghost"
+                      size="lg"
+                      title="Version history"
+                      leftIcon={<Ionicons name="time-outline" size={20} color="#a1a1aa" />}
+                      className="justify-start"
+                    />
                   </>
                 )}
 
+                <Button
+                  onPress={() => {
+                    setIsActionSheetVisible(false);
+                    const link =
+                      selectedItem.type === 'folder'
+                        ? getFolderLink(selectedItem.id)
+                        : getFileLink(selectedItem.id);
+                    // Only opens for people who can already see the item
+                    Share.share({ message: link, url: link, title: selectedItem.name });
+                  }}
+                  variant="ghost"
+                  size="lg"
+                  title="Send app link"
+                  leftIcon={<Ionicons name="link-outline" size={20} color="#a1a1aa" />}
+                  className="justify-start"
+                />
+
+                {selectedItem.type === 'folder' && (
+                  <Button
+                    onPress={() => {
+                      setIsActionSheetVisible(false);
+                      setIsMembersSheetVisible(true);
+                    }}
+                    variant="ghost"
+                    size="lg"
+                    title="Share with people"
+                    leftIcon={<Ionicons name="people-outline" size={20} color="#a1a1aa" />}
+                    className="justify-start"
+                  />
+                )}
+
+                <Button
+                  onPress={() => openRenameModal(selectedItem)}
+                  variant="ghost"
+                  size="lg"
+                  title="Rename"
+                  leftIcon={<Ionicons name="create-outline" size={20} color="#a1a1aa" />}
+                  className="justify-start"
+                />
+
                 <Button
                   onPress={() => {
                     setIsActionSheetVisible(false);
@@ -818,7 +1356,7 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
                   onPress={() => {
                     Alert.alert(
                       `Delete ${selectedItem.type}`,
-                      `Are you sure you want to delete "${selectedItem.name}"? This action cannot be undone.`,
+                      `Move "${selectedItem.name}" to Trash? You can restore it for ${SAFE_LIMITS.TRASH_RETENTION_DAYS} days.`,
                       [
                         { text: 'Cancel', style: 'cancel' },
                         {
@@ -901,6 +1439,79 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
           </Pressable>
         </Pressable>
       </Modal>
+      {selectedItem && (
+        <Modal
+          visible={isRenameModalVisible}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setIsRenameModalVisible(false)}>
+          <Pressable
+            className="flex-1 items-center justify-center"
+            style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}
+            onPress={() => setIsRenameModalVisible(false)}>
+            <Pressable className="w-[90%] max-w-md" onPress={() => {}}>
+              <Card variant="elevated" padding="lg">
+                <View className="mb-6 items-center">
+                  <View className="mb-4 h-16 w-16 items-center justify-center rounded-2xl bg-zinc-800">
+                    <Ionicons name="create-outline" size={28} color="#71717a" />
+                  </View>
+                  <Text className="text-2xl font-bold text-zinc-100">
+                    Rename {selectedItem.type}
+                  </Text>
+                  <Text className="mt-1 text-sm text-zinc-500" numberOfLines={1}>
+                    {selectedItem.name}
+                  </Text>
+                </View>
+
+                <View className="mb-4 flex-row items-center rounded-2xl bg-zinc-900 px-4">
+                  <TextInput
+                    value={renameValue}
+                    onChangeText={setRenameValue}
+                    placeholder="Enter a new name..."
+                    placeholderTextColor="#71717a"
+                    className="flex-1 py-4 text-lg text-zinc-100"
+                    autoFocus
+                    selectTextOnFocus
+                  />
+                  {selectedItem.type === 'file' &&
+                    keepExtension &&
+                    getFileExtension(selectedItem.name) !== '' && (
+                      <Text className="ml-2 text-lg text-zinc-500">
+                        {getFileExtension(selectedItem.name)}
+                      </Text>
+                    )}
+                </View>
+
+                {selectedItem.type === 'file' && getFileExtension(selectedItem.name) !== '' && (
+                  <View className="mb-6 flex-row items-center justify-between">
+                    <Text className="text-sm text-zinc-400">Keep file extension</Text>
+                    <Switch value={keepExtension} onValueChange={handleToggleKeepExtension} />
+                  </View>
+                )}
+
+                <View className="gap-3">
+                  <Button
+                    onPress={handleRename}
+                    disabled={isRenaming || !renameValue.trim()}
+                    loading={isRenaming}
+                    variant="primary"
+                    size="lg"
+                    title="Rename"
+                    className="w-full"
+                  />
+                  <Button
+                    variant="outline"
+                    size="lg"
+                    title="Cancel"
+                    onPress={() => setIsRenameModalVisible(false)}
+                    className="w-full"
+                  />
+                </View>
+              </Card>
+            </Pressable>
+          </Pressable>
+        </Modal>
+      )}
       {selectedItem && (
         <Modal visible={isMoveModalVisible} transparent animationType="slide">
           <Pressable
@@ -930,28 +1541,121 @@ const FileManagerScreen: React.FC<FileManagerScreenProps> = ({ navigation }) =>
           </Pressable>
         </Modal>
       )}
-      {previewImageUrl && (
+      <Modal
+        visible={isFilterSheetVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setIsFilterSheetVisible(false)}>
+        <Pressable
+          className="flex-1 items-center justify-center"
+          style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}
+          onPress={() => setIsFilterSheetVisible(false)}>
+          <Pressable className="h-[80%] w-[90%] max-w-md" onPress={() => {}}>
+            <Card variant="elevated" padding="none" className="flex-1 overflow-hidden">
+              <FilterSheet
+                filters={fileFilters}
+                currentFolderName={folderPath[folderPath.length - 1].name}
+                onApply={(filters) => {
+                  setFileFilters(filters);
+                  setIsFilterSheetVisible(false);
+                }}
+                onClose={() => setIsFilterSheetVisible(false)}
+              />
+            </Card>
+          </Pressable>
+        </Pressable>
+      </Modal>
+      <Modal
+        visible={isTrashVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setIsTrashVisible(false)}>
+        <Pressable
+          className="flex-1 items-center justify-center"
+          style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}
+          onPress={() => setIsTrashVisible(false)}>
+          <Pressable className="h-[80%] w-[90%] max-w-md" onPress={() => {}}>
+            <Card variant="elevated" padding="none" className="flex-1 overflow-hidden">
+              <TrashBin onClose={() => setIsTrashVisible(false)} />
+            </Card>
+          </Pressable>
+        </Pressable>
+      </Modal>
+      {selectedItem?.type === 'folder' && (
         <Modal
-          visible={!!previewImageUrl}
+          visible={isMembersSheetVisible}
           transparent
-          animationType="fade"
-          onRequestClose={() => setPreviewImageUrl(null)}>
-          <SafeAreaView
+          animationType="slide"
+          onRequestClose={() => setIsMembersSheetVisible(false)}>
+          <Pressable
             className="flex-1 items-center justify-center"
-            style={{ backgroundColor: 'rgba(0,0,0,0.8)' }}>
-            <Image
-              source={{ uri: previewImageUrl }}
-              className="h-full w-full"
-              resizeMode="contain"
-            />
-            <Pressable
-              onPress={() => setPreviewImageUrl(null)}
-              className="absolute right-5 top-10 rounded-full bg-zinc-900/80 p-2">
-              <Ionicons name="close" size={32} color="#f4f4f5" />
+            style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}
+            onPress={() => setIsMembersSheetVisible(false)}>
+            <Pressable className="h-[80%] w-[90%] max-w-md" onPress={() => {}}>
+              <Card variant="elevated" padding="none" className="flex-1 overflow-hidden">
+                <FolderMembersSheet
+                  folder={selectedItem}
+                  onClose={() => setIsMembersSheetVisible(false)}
+                />
+              </Card>
+            </Pressable>
+          </Pressable>
+        </Modal>
+      )}
+      {selectedItem?.type === 'file' && (
+        <Modal
+          visible={isShareLinkVisible}
+          transparent
+          animationType="slide"
+          onRequestClose={() => setIsShareLinkVisible(false)}>
+          <Pressable
+            className="flex-1 items-center justify-center"
+            style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}
+            onPress={() => setIsShareLinkVisible(false)}>
+            <Pressable className="h-[80%] w-[90%] max-w-md" onPress={() => {}}>
+              <Card variant="elevated" padding="none" className="flex-1 overflow-hidden">
+                <ShareLinkSheet file={selectedItem} onClose={() => setIsShareLinkVisible(false)} />
+              </Card>
+            </Pressable>
+          </Pressable>
+        </Modal>
+      )}
+      {selectedItem?.type === 'file' && (
+        <Modal
+          visible={isVersionHistoryVisible}
+          transparent
+          animationType="slide"
+          onRequestClose={() => setIsVersionHistoryVisible(false)}>
+          <Pressable
+            className="flex-1 items-center justify-center"
+            style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}
+            onPress={() => setIsVersionHistoryVisible(false)}>
+            <Pressable className="h-[80%] w-[90%] max-w-md" onPress={() => {}}>
+              <Card variant="elevated" padding="none" className="flex-1 overflow-hidden">
+                <VersionHistorySheet
+                  file={selectedItem}
+                  canEdit={canEditCurrentFolder}
+                  onDownload={(version) => downloadVersion(selectedItem, version)}
+                  onClose={() => setIsVersionHistoryVisible(false)}
+                />
+              </Card>
             </Pressable>
-          </SafeAreaView>
+          </Pressable>
         </Modal>
       )}
+      <Modal
+        visible={!!galleryFileId}
+        animationType="fade"
+        onRequestClose={() => setGalleryFileId(null)}>
+        {galleryFileId && (
+          <ImageGallery
+            images={galleryImages}
+            initialFileId={galleryFileId}
+            onEndReached={() => hasNextFiles && !isFetchingNextFiles && fetchNextFiles()}
+            onClose={() => setGalleryFileId(null)}
+          />
+        )}
+      </Modal>
       {Object.values(downloadingFiles).length > 0 && (
         <View
           className="absolute bottom-5 left-5 right-5 rounded-2xl border border-zinc-800 bg-zinc-900/95 p-4 shadow-lg"
@@ -0,0 +1,96 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect } from 'react';
+import { ActivityIndicator, Text, View } from 'react-native';
+import Button from '../components/Button';
+import { ImageGallery } from '../components/ImageGallery';
+import { getDocumentPreviewType } from '../lib/documentPreview';
+import { useFileQuery } from '../queries';
+import { formatFileSize, isAudioFile, isImageFile, isVideoFile } from '../types/database';
+
+interface FileScreenProps {
+  navigation: any;
+  route: {
+    params: {
+      id: string;
+    };
+  };
+}
+
+// Where file links land: hands the file to the viewer for its type once it has loaded
+const FileScreen: React.FC<FileScreenProps> = ({ navigation, route }) => {
+  const { data: file, isLoading, error } = useFileQuery(route.params.id);
+  const mimeType = file?.mime_type || undefined;
+  const showGallery = !!file && isImageFile(mimeType);
+
+  useEffect(() => {
+    if (!file) return;
+
+    if (isVideoFile(mimeType) || isAudioFile(mimeType)) {
+      navigation.replace('MediaViewer', { file });
+    } else if (getDocumentPreviewType(file.mime_type, file.name)) {
+      navigation.replace('DocumentViewer', { file });
+    } else {
+      navigation.setOptions({ title: file.name, headerShown: !isImageFile(mimeType) });
+    }
+  }, [file, mimeType, navigation]);
+
+  if (showGallery) {
+    return (
+      <ImageGallery
+        images={[{ ...file, type: 'file' }]}
+        initialFileId={file.id}
+        onClose={() => navigation.goBack()}
+      />
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <View className="flex-1 items-center justify-center bg-zinc-950">
+        <ActivityIndicator size="small" color="#71717a" />
+      </View>
+    );
+  }
+
+  if (error || !file) {
+    return (
+      <View className="flex-1 items-center justify-center bg-zinc-950 px-8">
+        <Ionicons name="alert-circle-outline" size={48} color="#71717a" />
+        <Text className="mt-4 text-center text-lg font-semibold text-zinc-100">
+          File unavailable
+        </Text>
+        <Text className="mt-2 text-center text-sm text-zinc-500">
+          {error
+            ? (error as Error).message
+            : 'It may have been deleted, or it has not been shared with you.'}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 items-center justify-center bg-zinc-950 px-8">
+      <View className="mb-6 h-32 w-32 items-center justify-center rounded-3xl bg-zinc-900">
+        <Ionicons name="document-outline" size={48} color="#71717a" />
+      </View>
+      <Text className="text-center text-lg font-semibold text-zinc-100" numberOfLines={2}>
+        {file.name}
+      </Text>
+      <Text className="mb-8 mt-1 text-sm text-zinc-500">
+        {formatFileSize(file.size_bytes)} • This file type cannot be previewed.
+      </Text>
+      <Button
+        variant="outline"
+        size="lg"
+        title="Show in folder"
+        onPress={() =>
+          navigation.navigate('Main', { screen: 'Files', params: { folderId: file.folder_id } })
+        }
+        leftIcon={<Ionicons name="folder-open-outline" size={20} color="#a1a1aa" />}
+        className="w-full max-w-sm"
+      />
+    </View>
+  );
+};
+
+export default FileScreen;
@@ -0,0 +1,160 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEventListener } from 'expo';
+import { useVideoPlayer, VideoView } from 'expo-video';
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Text, View } from 'react-native';
+import { getPlaybackPosition, savePlaybackPosition } from '../lib/playbackPositions';
+import { supabase } from '../lib/supabase';
+import { File, formatFileSize, isAudioFile } from '../types/database';
+
+interface MediaViewerScreenProps {
+  navigation: any;
+  route: {
+    params: {
+      file: File;
+    };
+  };
+}
+
+interface MediaPlayerProps {
+  file: File;
+  url: string;
+  startPosition: number;
+}
+
+// Streams straight from S3, the signed URL supports range requests so seeking only
+// fetches what is played
+const MediaPlayer: React.FC<MediaPlayerProps> = ({ file, url, startPosition }) => {
+  const audioOnly = isAudioFile(file.mime_type || undefined);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const lastPosition = useRef({ position: startPosition, duration: 0 });
+  const resumed = useRef(false);
+
+  const player = useVideoPlayer(url, (player) => {
+    player.timeUpdateEventInterval = 5;
+    player.play();
+  });
+
+  useEventListener(player, 'statusChange', ({ status, error }) => {
+    if (status === 'error') {
+      setPlaybackError(error?.message ?? 'Playback failed');
+    }
+    // Seeking before the media has loaded is ignored on iOS
+    if (status === 'readyToPlay' && !resumed.current) {
+      resumed.current = true;
+      if (startPosition > 0) player.currentTime = startPosition;
+    }
+  });
+
+  useEventListener(player, 'timeUpdate', ({ currentTime }) => {
+    lastPosition.current = { position: currentTime, duration: player.duration };
+    savePlaybackPosition(file.id, currentTime, player.duration).catch((error) =>
+      console.error('Failed to save playback position:', error)
+    );
+  });
+
+  // The player is released on unmount, so save from the last time update instead
+  useEffect(
+    () => () => {
+      const { position, duration } = lastPosition.current;
+      savePlaybackPosition(file.id, position, duration).catch((error) =>
+        console.error('Failed to save playback position:', error)
+      );
+    },
+    [file.id]
+  );
+
+  if (playbackError) {
+    return (
+      <View className="flex-1 items-center justify-center px-8">
+        <Ionicons name="alert-circle-outline" size={48} color="#71717a" />
+        <Text className="mt-4 text-center text-lg font-semibold text-zinc-100">
+          Cannot play this file
+        </Text>
+        <Text className="mt-2 text-center text-sm text-zinc-500">
+          {/* MKV and some MOV codecs are not supported by the iOS player */}
+          This format may not be supported on this device. Download the file to open it in another
+          app. ({playbackError})
+        </Text>
+      </View>
+    );
+  }
+
+  if (audioOnly) {
+    return (
+      <View className="flex-1 items-center justify-center px-6">
+        <View className="mb-6 h-40 w-40 items-center justify-center rounded-3xl bg-zinc-900">
+          <Ionicons name="musical-notes" size={64} color="#a1a1aa" />
+        </View>
+        <Text className="text-center text-lg font-semibold text-zinc-100" numberOfLines={2}>
+          {file.name}
+        </Text>
+        <Text className="mt-1 text-sm text-zinc-500">{formatFileSize(file.size_bytes)}</Text>
+        <VideoView player={player} nativeControls style={{ width: '100%', height: 120 }} />
+      </View>
+    );
+  }
+
+  return (
+    <VideoView
+      player={player}
+      nativeControls
+      allowsFullscreen
+      contentFit="contain"
+      style={{ flex: 1 }}
+    />
+  );
+};
+
+const MediaViewerScreen: React.FC<MediaViewerScreenProps> = ({ route }) => {
+  const { file } = route.params;
+  const [source, setSource] = useState<{ url: string; startPosition: number } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [{ data, error }, startPosition] = await Promise.all([
+          supabase.functions.invoke('upload-to-s3', {
+            body: {
+              action: 'get-signed-url',
+              s3Key: file.s3_key,
+            },
+          }),
+          getPlaybackPosition(file.id),
+        ]);
+        if (error) throw error;
+        if (!cancelled) setSource({ url: data.signedUrl, startPosition });
+      } catch (error) {
+        if (!cancelled) setLoadError((error as Error).message);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [file.id, file.s3_key]);
+
+  return (
+    <View className="flex-1 bg-black">
+      {source ? (
+        <MediaPlayer file={file} url={source.url} startPosition={source.startPosition} />
+      ) : loadError ? (
+        <View className="flex-1 items-center justify-center px-8">
+          <Text className="text-center text-sm text-zinc-500">
+            Failed to load media. {loadError}
+          </Text>
+        </View>
+      ) : (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="small" color="#71717a" />
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default MediaViewerScreen;
@@ -17,6 +17,7 @@ import Button from '../components/Button';
 import Card from '../components/Card';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import { useStorageUsageQuery } from '../queries';
 import { formatFileSize } from '../types/database';
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -67,6 +68,16 @@ const ProfileScreen: React.FC = () => {
     enabled: !!authUser,
   });
 
+  const { data: storageUsage, refetch: refetchUsage } = useStorageUsageQuery(authUser?.id);
+  const usedRatio = storageUsage
+    ? Math.min(1, storageUsage.used_bytes / Math.max(storageUsage.quota_bytes, 1))
+    : 0;
+
+  const handleRefresh = () => {
+    refetch();
+    refetchUsage();
+  };
+
   const handleSignOut = () => {
     setShowSignOutModal(true);
   };
@@ -126,7 +137,11 @@ const ProfileScreen: React.FC = () => {
         <ScrollView
           className="flex-1"
           refreshControl={
-            <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor="#71717a" />
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={handleRefresh}
+              tintColor="#71717a"
+            />
           }
           contentContainerStyle={{
             paddingHorizontal: screenWidth > 768 ? 64 : 24,
@@ -193,6 +208,29 @@ const ProfileScreen: React.FC = () => {
                 </View>
               </View>
             )}
+
+            {storageUsage && (
+              <View className="mt-6">
+                <View className="mb-2 flex-row items-center justify-between">
+                  <Text className="text-sm font-semibold text-zinc-100">Storage Quota</Text>
+                  <Text className="text-sm text-zinc-500">
+                    {formatFileSize(storageUsage.used_bytes)} of{' '}
+                    {formatFileSize(storageUsage.quota_bytes)}
+                  </Text>
+                </View>
+                <View className="h-2 overflow-hidden rounded-full bg-zinc-800">
+                  <View
+                    className={`h-full rounded-full ${usedRatio >= 0.9 ? 'bg-red-500' : 'bg-zinc-300'}`}
+                    style={{ width: `${usedRatio * 100}%` }}
+                  />
+                </View>
+                <Text className="mt-2 text-xs text-zinc-500">
+                  {usedRatio >= 1
+                    ? 'Your storage is full. Empty the trash or delete files to upload more.'
+                    : `${formatFileSize(Math.max(0, storageUsage.quota_bytes - storageUsage.used_bytes))} available. Files in the trash and old versions count until they are deleted forever; identical contents count once.`}
+                </Text>
+              </View>
+            )}
           </Card>
 
           {/* Sign Out */}
@@ -0,0 +1,222 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Alert, ScrollView, Text, View } from 'react-native';
+import Button from '../components/Button';
+import Card from '../components/Card';
+import { useAuth } from '../contexts/AuthContext';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import {
+  UploadQueueItem,
+  cancelAllUploads,
+  cancelUpload,
+  clearFinishedUploads,
+  isUploadFinished,
+  pauseAllUploads,
+  pauseUpload,
+  removeUpload,
+  resumeAllUploads,
+  resumeUpload,
+  retryUpload,
+  summarizeUploads,
+} from '../lib/uploadQueue';
+import { formatFileSize } from '../types/database';
+
+const describeItem = ({
+  status,
+  outcome,
+  savedAs,
+  error,
+  bytesSent,
+  size,
+  attempts,
+  retryAt,
+}: UploadQueueItem) => {
+  switch (status) {
+    case 'queued':
+      return retryAt
+        ? `Retrying after attempt ${attempts} failed, ${error}`
+        : `${formatFileSize(size)} • Waiting`;
+    case 'uploading':
+      return `${formatFileSize(bytesSent)} of ${formatFileSize(size)}`;
+    case 'paused':
+      return `${formatFileSize(bytesSent)} of ${formatFileSize(size)} • Paused`;
+    case 'cancelled':
+      return 'Cancelled';
+    case 'failed':
+      return attempts > 1 ? `Failed after ${attempts} attempts, ${error}` : `Failed, ${error}`;
+  }
+
+  switch (outcome) {
+    case 'replaced':
+      return 'Replaced, the old copy is in version history';
+    case 'renamed':
+      return `Saved as "${savedAs}"`;
+    case 'unchanged':
+      return 'Already up to date';
+    case 'skipped':
+      return 'Skipped, a file with this name exists';
+    default:
+      return `${formatFileSize(size)} • Uploaded`;
+  }
+};
+
+const STATUS_ICONS: Record<UploadQueueItem['status'], { name: string; color: string }> = {
+  queued: { name: 'time-outline', color: '#71717a' },
+  uploading: { name: 'cloud-upload-outline', color: '#a1a1aa' },
+  paused: { name: 'pause-circle-outline', color: '#a1a1aa' },
+  cancelled: { name: 'close-circle-outline', color: '#71717a' },
+  completed: { name: 'checkmark-circle', color: '#22c55e' },
+  failed: { name: 'alert-circle', color: '#f87171' },
+};
+
+// Every upload of the session, reachable from the progress indicator while the queue runs
+const UploadQueueScreen: React.FC = () => {
+  const { user } = useAuth();
+  const queue = useUploadQueue();
+  const { active, paused, total, totalBytes, bytesSent } = summarizeUploads(queue);
+  const hasFinished = queue.some(isUploadFinished);
+
+  return (
+    <ScrollView className="flex-1 bg-zinc-950" contentContainerStyle={{ padding: 24 }}>
+      <View className="mb-6 flex-row items-center justify-between">
+        <View className="flex-1">
+          <Text className="text-2xl font-bold text-zinc-100">Uploads</Text>
+          <Text className="mt-1 text-sm text-zinc-500">
+            {active > 0
+              ? `${active} of ${total} remaining • ${formatFileSize(bytesSent)} of ${formatFileSize(totalBytes)}`
+              : 'Uploads keep going while the app is in the background'}
+          </Text>
+        </View>
+        {hasFinished && user && (
+          <Button
+            variant="outline"
+            size="sm"
+            title="Clear finished"
+            onPress={() => clearFinishedUploads(user.id)}
+          />
+        )}
+      </View>
+
+      {active > 0 && user && (
+        <View className="mb-6 flex-row gap-2">
+          {paused < active ? (
+            <Button
+              variant="outline"
+              size="sm"
+              title="Pause all"
+              onPress={() => pauseAllUploads(user.id)}
+              leftIcon={<Ionicons name="pause" size={16} color="#71717a" />}
+            />
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              title="Resume all"
+              onPress={() => resumeAllUploads(user.id)}
+              leftIcon={<Ionicons name="play" size={16} color="#71717a" />}
+            />
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Cancel all"
+            onPress={() =>
+              Alert.alert('Cancel Uploads', `Stop the ${active} unfinished uploads?`, [
+                { text: 'Keep uploading', style: 'cancel' },
+                {
+                  text: 'Cancel uploads',
+                  style: 'destructive',
+                  onPress: () => cancelAllUploads(user.id),
+                },
+              ])
+            }
+          />
+        </View>
+      )}
+
+      {queue.length === 0 ? (
+        <Card variant="glass" padding="lg">
+          <View className="items-center py-8">
+            <Ionicons name="cloud-done-outline" size={36} color="#71717a" />
+            <Text className="mt-4 text-center text-base text-zinc-500">No uploads</Text>
+          </View>
+        </Card>
+      ) : (
+        <View className="gap-3">
+          {[...queue].reverse().map((item) => {
+            const icon = STATUS_ICONS[item.status];
+            return (
+              <View key={item.id} className="rounded-2xl bg-zinc-900 p-4">
+                <View className="flex-row items-center">
+                  <Ionicons name={icon.name as any} size={24} color={icon.color} />
+                  <View className="ml-3 flex-1">
+                    <Text className="text-base font-semibold text-zinc-100" numberOfLines={1}>
+                      {item.name}
+                    </Text>
+                    <Text
+                      className={`mt-1 text-sm ${
+                        item.status === 'failed' ? 'text-red-400' : 'text-zinc-500'
+                      }`}
+                      numberOfLines={2}>
+                      {describeItem(item)}
+                    </Text>
+                  </View>
+                  {(item.status === 'failed' || item.status === 'cancelled') && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title=""
+                      onPress={() => retryUpload(item.id)}
+                      leftIcon={<Ionicons name="refresh" size={18} color="#d4d4d8" />}
+                    />
+                  )}
+                  {(item.status === 'queued' || item.status === 'uploading') && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title=""
+                      onPress={() => pauseUpload(item.id)}
+                      leftIcon={<Ionicons name="pause" size={18} color="#d4d4d8" />}
+                    />
+                  )}
+                  {item.status === 'paused' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title=""
+                      onPress={() => resumeUpload(item.id)}
+                      leftIcon={<Ionicons name="play" size={18} color="#d4d4d8" />}
+                    />
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title=""
+                    onPress={() =>
+                      isUploadFinished(item) ? removeUpload(item.id) : cancelUpload(item.id)
+                    }
+                    leftIcon={<Ionicons name="close" size={18} color="#d4d4d8" />}
+                  />
+                </View>
+                {(item.status === 'uploading' || item.status === 'paused') && (
+                  <View className="mt-3 h-2 rounded-full bg-zinc-800">
+                    <View
+                      className={`h-2 rounded-full ${
+                        item.status === 'paused' ? 'bg-zinc-600' : 'bg-blue-500'
+                      }`}
+                      style={{
+                        width: `${item.size > 0 ? (item.bytesSent / item.size) * 100 : 0}%`,
+                      }}
+                    />
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+export default UploadQueueScreen;
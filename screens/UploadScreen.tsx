@@ -1,6 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation } from '@tanstack/react-query';
 import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
 import * as ImagePicker from 'expo-image-picker';
 import { ShareIntent, ShareIntentFile, useShareIntent } from 'expo-share-intent';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -15,7 +16,17 @@ import {
   isFileTypeAllowed,
   isUploadSizeValid,
 } from '../config/safeLimits';
+import { useAuth } from '../contexts/AuthContext';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import { toFunctionError } from '../lib/functionErrors';
+import {
+  MultipartUploadSession,
+  discardMultipartUpload,
+  getPendingMultipartUploads,
+} from '../lib/multipartUpload';
 import { supabase } from '../lib/supabase';
+import { ConflictResolution, enqueueUploads, isUploadFinished } from '../lib/uploadQueue';
+import { fetchStorageUsage } from '../queries';
 import { formatFileSize } from '../types/database';
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -38,6 +49,30 @@ interface FileToUpload {
   selected: boolean;
 }
 
+// What to do when a file with the same name is already in the folder
+type ConflictPolicy = 'ask' | ConflictResolution;
+
+const CONFLICT_POLICIES: { policy: ConflictPolicy; label: string }[] = [
+  { policy: 'ask', label: 'Ask' },
+  { policy: 'skip', label: 'Skip' },
+  { policy: 'overwrite', label: 'Replace' },
+  { policy: 'keep-both', label: 'Keep both' },
+];
+
+const askConflictResolution = (fileName: string) =>
+  new Promise<ConflictResolution>((resolve) => {
+    Alert.alert(
+      'File Already Exists',
+      `"${fileName}" is already in this folder.`,
+      [
+        { text: 'Skip', style: 'cancel', onPress: () => resolve('skip') },
+        { text: 'Replace', onPress: () => resolve('overwrite') },
+        { text: 'Keep Both', onPress: () => resolve('keep-both') },
+      ],
+      { cancelable: false }
+    );
+  });
+
 // Using safe limits from configuration
 const MAX_FILES = SAFE_LIMITS.MAX_FILES_PER_UPLOAD;
 const MAX_SELECTION_IMAGE_PICKER = SAFE_LIMITS.MAX_IMAGE_PICKER_SELECTION;
@@ -47,9 +82,24 @@ const UploadScreen: React.FC<UploadScreenProps> = ({ navigation, route }) => {
   const { folderId } = route.params;
   const [files, setFiles] = useState<FileToUpload[]>([]);
   const [selectionMode, setSelectionMode] = useState(false);
-  const queryClient = useQueryClient();
+  const [interruptedUploads, setInterruptedUploads] = useState<MultipartUploadSession[]>([]);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('ask');
+  const { user } = useAuth();
+  const uploadQueue = useUploadQueue();
   const { hasShareIntent, shareIntent, resetShareIntent, error } = useShareIntent();
 
+  const loadInterruptedUploads = useCallback(async () => {
+    try {
+      setInterruptedUploads(await getPendingMultipartUploads());
+    } catch (error) {
+      console.error('Failed to load interrupted uploads:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInterruptedUploads();
+  }, [loadInterruptedUploads]);
+
   // Handle external sharing intents
   useEffect(() => {
     if (hasShareIntent && shareIntent) {
@@ -78,7 +128,7 @@ const UploadScreen: React.FC<UploadScreenProps> = ({ navigation, route }) => {
         const newFile: FileToUpload = {
           id: `shared_url_${Date.now()}`,
           name: urlFileName,
-          uri: shareIntentData.webUrl,
+          uri: `data:text/plain;base64,${btoa(urlContent)}`,
           type: 'text/plain',
           size: new Blob([urlContent]).size,
           selected: false,
@@ -449,110 +499,114 @@ const UploadScreen: React.FC<UploadScreenProps> = ({ navigation, route }) => {
     );
   }, [files]);
 
-  const uploadMutation = useMutation({
-    mutationFn: async (filesToUpload: FileToUpload[]) => {
-      const results = [];
-      const totalSize = filesToUpload.reduce((acc, file) => acc + file.size, 0);
-
-      if (totalSize > MAX_TOTAL_SIZE) {
-        throw new Error(`Total file size exceeds ${formatFileSize(MAX_TOTAL_SIZE)} limit.`);
-      }
-
-      // Process files in batches to respect concurrent upload limit
-      const batchSize = SAFE_LIMITS.MAX_CONCURRENT_UPLOADS;
-      for (let i = 0; i < filesToUpload.length; i += batchSize) {
-        const batch = filesToUpload.slice(i, i + batchSize);
-
-        // Upload each file in the batch concurrently
-        const batchPromises = batch.map(async (file) => {
-          try {
-            // Step 1: Get presigned URL from Edge Function
-            const { data: presignedData, error: presignedError } = await supabase.functions.invoke(
-              'upload-to-s3',
-              {
-                body: {
-                  action: 'get-presigned-url',
-                  fileName: file.name,
-                  fileType: file.type,
-                  fileSize: file.size,
-                },
-              }
-            );
-
-            if (presignedError) throw presignedError;
-
-            // Step 2: Upload to S3 using presigned URL
-            const formData = new FormData();
-            Object.entries(presignedData.formData).forEach(([key, value]) => {
-              formData.append(key, value as string);
-            });
-            formData.append('file', {
-              uri: file.uri,
-              type: file.type,
-              name: file.name,
-            } as any);
-
-            const uploadResponse = await fetch(presignedData.uploadUrl, {
-              method: 'POST',
-              body: formData,
-            });
-
-            if (!uploadResponse.ok) {
-              throw new Error(`S3 upload failed for ${file.name}`);
-            }
+  const resumeInterruptedUpload = async (session: MultipartUploadSession) => {
+    const info = await FileSystem.getInfoAsync(session.fileUri);
+    if (!info.exists) {
+      Alert.alert(
+        'File no longer available',
+        `Select "${session.fileName}" again to continue where the upload left off.`
+      );
+      return;
+    }
 
-            // Step 3: Create file record in database
-            const { data: recordData, error: recordError } = await supabase.functions.invoke(
-              'upload-to-s3',
-              {
-                body: {
-                  action: 'create-file-record',
-                  s3Key: presignedData.s3Key,
-                  fileName: file.name,
-                  fileType: file.type,
-                  fileSize: file.size,
-                  folderId,
-                },
-              }
-            );
+    if (files.some((file) => file.name === session.fileName && file.size === session.fileSize)) {
+      return;
+    }
 
-            if (recordError) throw recordError;
+    setFiles((prev) => [
+      ...prev,
+      {
+        id: `resume_${Date.now()}`,
+        name: session.fileName,
+        uri: session.fileUri,
+        type: session.fileType,
+        size: session.fileSize,
+        selected: false,
+      },
+    ]);
+  };
 
-            return { fileName: file.name, fileId: recordData.fileRecord.id };
-          } catch (error) {
-            console.error(`Error uploading file ${file.name}:`, error);
-            throw error;
-          }
-        });
+  const discardInterruptedUpload = (session: MultipartUploadSession) => {
+    Alert.alert(
+      'Discard Upload',
+      `The uploaded parts of "${session.fileName}" will be deleted. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await discardMultipartUpload(session);
+            } catch (error) {
+              console.error('Failed to abort multipart upload:', error);
+            }
+            loadInterruptedUploads();
+          },
+        },
+      ]
+    );
+  };
 
-        // Wait for all files in the batch to complete
-        const batchResults = await Promise.allSettled(batchPromises);
+  const uploadMutation = useMutation({
+    mutationFn: async (filesToUpload: FileToUpload[]) => {
+      if (filesToUpload.reduce((acc, file) => acc + file.size, 0) > MAX_TOTAL_SIZE) {
+        throw new Error(`Total file size exceeds ${formatFileSize(MAX_TOTAL_SIZE)} limit.`);
+      }
 
-        // Process results and handle any failures
-        for (const result of batchResults) {
-          if (result.status === 'fulfilled') {
-            results.push(result.value);
-          } else {
-            console.error('File upload failed:', result.reason);
-            // Continue with other files even if one fails
-          }
+      // Settle name conflicts before anything is uploaded, so skipped files never reach S3
+      const { data: conflictData, error: conflictError } = await supabase.functions.invoke(
+        'upload-to-s3',
+        {
+          body: {
+            action: 'check-name-conflicts',
+            folderId,
+            fileNames: filesToUpload.map((file) => file.name),
+          },
         }
+      );
+      if (conflictError) throw await toFunctionError(conflictError);
+
+      const conflicts = new Set<string>(conflictData.conflicts);
+      const resolutions = new Map<string, ConflictResolution>();
+      for (const file of filesToUpload) {
+        if (!conflicts.has(file.name)) continue;
+        resolutions.set(
+          file.id,
+          conflictPolicy === 'ask' ? await askConflictResolution(file.name) : conflictPolicy
+        );
       }
 
-      return results;
-    },
-    onSuccess: (results) => {
-      queryClient.invalidateQueries({ queryKey: ['files', folderId] });
-      queryClient.invalidateQueries({ queryKey: ['folders'] });
-      queryClient.invalidateQueries({ queryKey: ['storage-stats'] });
-
-      const failedCount = files.length - results.length;
-      let message = `${results.length} file(s) uploaded successfully!`;
-      if (failedCount > 0) {
-        message = `${results.length} file(s) uploaded successfully. ${failedCount} file(s) failed to upload.`;
+      const queuedFiles = filesToUpload.filter((file) => resolutions.get(file.id) !== 'skip');
+      const totalSize = queuedFiles.reduce((acc, file) => acc + file.size, 0);
+
+      // The server enforces the quota too; checking first avoids uploading bytes it will reject
+      const usage = await fetchStorageUsage(folderId ?? null);
+      const remaining = Math.max(0, usage.quota_bytes - usage.used_bytes);
+      if (totalSize > remaining) {
+        throw new Error(
+          `Not enough storage. ${formatFileSize(remaining)} of ${formatFileSize(usage.quota_bytes)} left`
+        );
       }
 
-      Alert.alert('Upload Complete', message, [{ text: 'OK', onPress: () => navigation.goBack() }]);
+      // The queue takes it from here and keeps going once this screen is closed
+      await enqueueUploads(
+        user!.id,
+        folderId ?? null,
+        filesToUpload.map(({ name, uri, type, size, id }) => ({
+          name,
+          uri,
+          type,
+          size,
+          onConflict: resolutions.get(id),
+        }))
+      );
+    },
+    onSettled: () => {
+      loadInterruptedUploads();
+    },
+    onSuccess: () => {
+      navigation.replace('UploadQueue');
     },
     onError: (error) => {
       console.error('Upload error:', error);
@@ -578,6 +632,19 @@ const UploadScreen: React.FC<UploadScreenProps> = ({ navigation, route }) => {
   };
 
   const totalSize = files.reduce((acc, file) => acc + file.size, 0);
+  // Sessions are keyed on their folder, so only those for this one can be picked up from here.
+  // Sessions the queue is still working through are not interrupted.
+  const resumableUploads = interruptedUploads.filter(
+    (session) =>
+      session.folderId === (folderId ?? null) &&
+      !uploadQueue.some(
+        (item) =>
+          !isUploadFinished(item) &&
+          item.name === session.fileName &&
+          item.size === session.fileSize &&
+          item.folderId === (session.folderId ?? null)
+      )
+  );
   const selectedFiles = files.filter((f) => f.selected);
   const selectedCount = selectedFiles.length;
   const allSelected = files.length > 0 && selectedCount === files.length;
@@ -629,6 +696,53 @@ const UploadScreen: React.FC<UploadScreenProps> = ({ navigation, route }) => {
           </Card>
         </View>
 
+        {/* Interrupted Uploads */}
+        {resumableUploads.length > 0 && !uploadMutation.isPending && (
+          <Card variant="default" padding="lg" className="mb-6">
+            <Text className="text-xl font-bold text-zinc-100">Interrupted Uploads</Text>
+            <Text className="mb-4 mt-1 text-sm text-zinc-500">
+              Resume to continue from the last uploaded part.
+            </Text>
+            <View className="gap-3">
+              {resumableUploads.map((session) => {
+                const totalParts = Math.max(1, Math.ceil(session.fileSize / session.partSize));
+                const progress = session.completedParts.length / totalParts;
+                return (
+                  <View key={session.fingerprint} className="rounded-2xl bg-zinc-900 p-4">
+                    <Text className="text-base font-semibold text-zinc-100" numberOfLines={1}>
+                      {session.fileName}
+                    </Text>
+                    <Text className="mt-1 text-sm text-zinc-500">
+                      {formatFileSize(session.fileSize)} • {Math.round(progress * 100)}% uploaded
+                    </Text>
+                    <View className="mt-3 h-2 rounded-full bg-zinc-800">
+                      <View
+                        className="h-2 rounded-full bg-blue-500"
+                        style={{ width: `${progress * 100}%` }}
+                      />
+                    </View>
+                    <View className="mt-3 flex-row justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Discard"
+                        onPress={() => discardInterruptedUpload(session)}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Resume"
+                        onPress={() => resumeInterruptedUpload(session)}
+                        leftIcon={<Ionicons name="play-outline" size={16} color="#71717a" />}
+                      />
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          </Card>
+        )}
+
         {/* External Sharing Info */}
         {files.length === 0 && (
           <Card variant="glass" padding="md" className="mb-6">
@@ -766,6 +880,26 @@ const UploadScreen: React.FC<UploadScreenProps> = ({ navigation, route }) => {
               })}
             </View>
 
+            <Text className="mb-2 text-sm text-zinc-400">If a file with the same name exists</Text>
+            <View className="mb-6 flex-row flex-wrap gap-2">
+              {CONFLICT_POLICIES.map(({ policy, label }) => (
+                <Pressable
+                  key={policy}
+                  onPress={() => setConflictPolicy(policy)}
+                  disabled={uploadMutation.isPending}
+                  className={`rounded-xl px-3 py-2 ${
+                    conflictPolicy === policy ? 'bg-zinc-200' : 'bg-zinc-900'
+                  }`}>
+                  <Text
+                    className={`text-sm ${
+                      conflictPolicy === policy ? 'text-zinc-900' : 'text-zinc-400'
+                    }`}>
+                    {label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
             <Button
               onPress={handleUpload}
               disabled={files.length === 0 || uploadMutation.isPending || selectionMode}
@@ -776,7 +910,7 @@ const UploadScreen: React.FC<UploadScreenProps> = ({ navigation, route }) => {
                 selectionMode
                   ? 'Exit selection mode to upload'
                   : uploadMutation.isPending
-                    ? 'Uploading files...'
+                    ? 'Adding to uploads...'
                     : `Upload ${files.length} file${files.length === 1 ? '' : 's'}`
               }
               leftIcon={
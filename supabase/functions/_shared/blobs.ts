@@ -0,0 +1,119 @@
+import { S3Client } from 'jsr:@bradenmacdonald/s3-lite-client@0.9.2';
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { getFrameKey, getPreviewKey, getThumbnailKey } from './thumbnails.ts';
+
+const DRAIN_BATCH_SIZE = 100;
+// Retries back off from a minute, doubling up to a day between attempts
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+
+interface PendingDeletion {
+  id: string;
+  s3_key: string;
+  attempts: number;
+}
+
+export interface DrainDeletionsOptions {
+  // Only drain these objects, e.g. the ones a delete just queued
+  s3Keys?: string[];
+  maxBatches?: number;
+}
+
+export interface DrainDeletionsResult {
+  deletedObjects: number;
+  failedKeys: string[];
+}
+
+// Renditions go with the original. S3 accepts deleting a key that was never written, so
+// objects without renditions need no check.
+export const deleteObjectWithRenditions = (s3Client: S3Client, s3Key: string) =>
+  Promise.all(
+    [s3Key, getThumbnailKey(s3Key), getPreviewKey(s3Key), getFrameKey(s3Key)].map((key) =>
+      s3Client.deleteObject(key)
+    )
+  );
+
+const getRetryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+
+/**
+ * Works through the pending_deletions outbox, which deleting the last file or version of a
+ * blob fills in the same transaction. Each object is deleted with its renditions, then its
+ * blob row and queue entry go; a failed object is tried again later with a growing delay.
+ * Needs the service role, the queue is not visible to users.
+ */
+export const drainPendingDeletions = async (
+  supabaseClient: SupabaseClient,
+  s3Client: S3Client,
+  {
+    s3Keys,
+    maxBatches = s3Keys ? Math.ceil(s3Keys.length / DRAIN_BATCH_SIZE) : 10,
+  }: DrainDeletionsOptions = {}
+): Promise<DrainDeletionsResult> => {
+  const result: DrainDeletionsResult = { deletedObjects: 0, failedKeys: [] };
+
+  for (let batch = 0; batch < maxBatches; batch++) {
+    const { data, error } = await supabaseClient.rpc('claim_pending_deletions', {
+      p_limit: DRAIN_BATCH_SIZE,
+      p_s3_keys: s3Keys,
+    });
+    if (error) throw error;
+
+    const deletions = (data ?? []) as PendingDeletion[];
+    if (deletions.length === 0) break;
+
+    const settled = await Promise.allSettled(
+      deletions.map((deletion) => deleteObjectWithRenditions(s3Client, deletion.s3_key))
+    );
+
+    const done: PendingDeletion[] = [];
+    for (const [index, outcome] of settled.entries()) {
+      const deletion = deletions[index];
+
+      if (outcome.status === 'fulfilled') {
+        done.push(deletion);
+        continue;
+      }
+
+      console.error('S3 Deletion Error:', outcome.reason);
+      result.failedKeys.push(deletion.s3_key);
+
+      const { error: retryError } = await supabaseClient
+        .from('pending_deletions')
+        .update({
+          next_attempt_at: new Date(Date.now() + getRetryDelay(deletion.attempts)).toISOString(),
+          last_error: String(outcome.reason),
+        })
+        .eq('id', deletion.id);
+      if (retryError) throw retryError;
+    }
+
+    if (done.length > 0) {
+      // Claimed blobs are marked as deleting and can no longer be referenced
+      const { error: blobError } = await supabaseClient
+        .from('blobs')
+        .delete()
+        .in(
+          's3_key',
+          done.map((deletion) => deletion.s3_key)
+        )
+        .not('deleting_at', 'is', null);
+      if (blobError) throw blobError;
+
+      const { error: deleteError } = await supabaseClient
+        .from('pending_deletions')
+        .delete()
+        .in(
+          'id',
+          done.map((deletion) => deletion.id)
+        );
+      if (deleteError) throw deleteError;
+
+      result.deletedObjects += done.length;
+    }
+
+    if (deletions.length < DRAIN_BATCH_SIZE) break;
+  }
+
+  return result;
+};
@@ -0,0 +1,50 @@
+const PBKDF2_ITERATIONS = 100_000;
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+// URL-safe random token with 256 bits of entropy
+export const generateToken = () => toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+};
+
+// Stored as pbkdf2_sha256$<iterations>$<salt>$<hash>
+export const hashPassword = async (password: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2_sha256$${PBKDF2_ITERATIONS}$${toBase64Url(salt)}$${toBase64Url(hash)}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, iterations, salt, expected] = stored.split('$');
+  if (scheme !== 'pbkdf2_sha256' || !iterations || !salt || !expected) return false;
+
+  const actual = await derive(password, fromBase64Url(salt), Number(iterations));
+  const expectedBytes = fromBase64Url(expected);
+  if (actual.length !== expectedBytes.length) return false;
+
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ expectedBytes[i];
+  return diff === 0;
+};
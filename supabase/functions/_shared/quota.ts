@@ -0,0 +1,30 @@
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+// Postgres error code raised by the files quota trigger
+export const QUOTA_EXCEEDED_CODE = '53400';
+
+const formatBytes = (bytes: number) => `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+
+/**
+ * Returns an error message if uploading fileSize more bytes into folderId would go over the
+ * quota of the account that owns the folder, or null if it fits. This is an early check so
+ * clients fail before uploading; the quota trigger on files is the one that cannot be raced.
+ */
+export const getQuotaError = async (
+  supabaseClient: SupabaseClient,
+  folderId: string | null,
+  fileSize: number
+): Promise<string | null> => {
+  const { data: usage, error } = await supabaseClient
+    .rpc('storage_usage', { p_folder_id: folderId })
+    .single<{ used_bytes: number; quota_bytes: number }>();
+
+  if (error) throw error;
+
+  if (usage.used_bytes + fileSize > usage.quota_bytes) {
+    const remaining = Math.max(0, usage.quota_bytes - usage.used_bytes);
+    return `Storage quota exceeded. ${formatBytes(remaining)} of ${formatBytes(usage.quota_bytes)} left.`;
+  }
+
+  return null;
+};
@@ -0,0 +1,116 @@
+import { S3Client } from 'jsr:@bradenmacdonald/s3-lite-client@0.9.2';
+
+export const getS3Config = () => ({
+  region: Deno.env.get('AWS_REGION') ?? 'us-east-1',
+  bucket: Deno.env.get('AWS_S3_BUCKET') ?? '',
+  accessKeyId: Deno.env.get('AWS_ACCESS_KEY_ID') ?? '',
+  secretAccessKey: Deno.env.get('AWS_SECRET_ACCESS_KEY') ?? '',
+});
+
+// Larger objects are never read whole, an edge function does not have the memory for them
+export const MAX_IN_MEMORY_OBJECT_BYTES = 25 * 1024 * 1024;
+
+export const createS3Client = () => {
+  const { region, bucket, accessKeyId, secretAccessKey } = getS3Config();
+
+  return new S3Client({
+    endPoint: `https://s3.${region}.amazonaws.com`,
+    region,
+    accessKey: accessKeyId,
+    secretKey: secretAccessKey,
+    bucket,
+  });
+};
+
+export interface S3ObjectInfo {
+  size: number;
+  contentType: string | null;
+  // Base64 SHA-256, with a "-<parts>" suffix for multipart uploads. Null if none was sent.
+  checksumSha256: string | null;
+}
+
+// HEAD an object, including its stored checksum. Returns null when the object does not exist.
+export const headObject = async (
+  s3Client: S3Client,
+  objectName: string
+): Promise<S3ObjectInfo | null> => {
+  try {
+    const response = await s3Client.makeRequest({
+      method: 'HEAD',
+      objectName,
+      headers: new Headers({ 'x-amz-checksum-mode': 'ENABLED' }),
+    });
+    return {
+      size: Number(response.headers.get('Content-Length') ?? 0),
+      contentType: response.headers.get('Content-Type'),
+      checksumSha256: response.headers.get('x-amz-checksum-sha256'),
+    };
+  } catch (error) {
+    if ((error as { statusCode?: number }).statusCode === 404) return null;
+    throw error;
+  }
+};
+
+export interface MultipartUploadInfo {
+  key: string;
+  uploadId: string;
+  initiated: Date;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+const readXmlTag = (xml: string, tag: string) => {
+  const value = xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1];
+  return value?.replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity]);
+};
+
+// Multipart uploads started under a prefix that were never completed or aborted. Their parts
+// are stored and billed, but do not show up when the bucket is listed.
+export async function* listMultipartUploads(
+  s3Client: S3Client,
+  prefix: string
+): AsyncGenerator<MultipartUploadInfo> {
+  let keyMarker = '';
+  let uploadIdMarker = '';
+
+  while (true) {
+    const query: Record<string, string> = { uploads: '', prefix };
+    if (keyMarker) query['key-marker'] = keyMarker;
+    if (uploadIdMarker) query['upload-id-marker'] = uploadIdMarker;
+
+    const response = await s3Client.makeRequest({ method: 'GET', query, returnBody: true });
+    const xml = await response.text();
+
+    for (const [, upload] of xml.matchAll(/<Upload>([\s\S]*?)<\/Upload>/g)) {
+      yield {
+        key: readXmlTag(upload, 'Key') ?? '',
+        uploadId: readXmlTag(upload, 'UploadId') ?? '',
+        initiated: new Date(readXmlTag(upload, 'Initiated') ?? 0),
+      };
+    }
+
+    if (readXmlTag(xml, 'IsTruncated') !== 'true') return;
+    keyMarker = readXmlTag(xml, 'NextKeyMarker') ?? '';
+    uploadIdMarker = readXmlTag(xml, 'NextUploadIdMarker') ?? '';
+  }
+}
+
+// Discard a multipart upload and the parts it has stored
+export const abortMultipartUpload = async (
+  s3Client: S3Client,
+  objectName: string,
+  uploadId: string
+) => {
+  await s3Client.makeRequest({
+    method: 'DELETE',
+    objectName,
+    query: { uploadId },
+    statusCode: 204,
+  });
+};
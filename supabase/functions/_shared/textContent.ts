@@ -0,0 +1,35 @@
+import { extractText as extractPdfText, getDocumentProxy } from 'npm:unpdf@0.12.1';
+import { MAX_IN_MEMORY_OBJECT_BYTES } from './s3.ts';
+
+// Kept for search. The start of a document is what matters most, and Postgres caps a
+// tsvector at 1 MB.
+export const MAX_CONTENT_TEXT_LENGTH = 100_000;
+
+const TEXT_TYPES = ['application/json', 'application/xml', 'application/javascript'];
+
+export const canExtractText = (mimeType: string | null, sizeBytes: number) =>
+  !!mimeType &&
+  sizeBytes <= MAX_IN_MEMORY_OBJECT_BYTES &&
+  (mimeType === 'application/pdf' || mimeType.startsWith('text/') || TEXT_TYPES.includes(mimeType));
+
+/**
+ * Plain text of a PDF or text file for the search index, with whitespace collapsed and
+ * cut to MAX_CONTENT_TEXT_LENGTH. Scanned PDFs have no text layer and give an empty string.
+ */
+export const extractText = async (bytes: Uint8Array, mimeType: string) => {
+  let text: string;
+  if (mimeType === 'application/pdf') {
+    const pdf = await getDocumentProxy(bytes);
+    ({ text } = await extractPdfText(pdf, { mergePages: true }));
+  } else {
+    // A character is at most four bytes, so this is always enough to fill the limit
+    text = new TextDecoder().decode(bytes.subarray(0, MAX_CONTENT_TEXT_LENGTH * 4));
+  }
+
+  // Postgres text cannot hold NUL characters
+  return text
+    .replace(/\u0000/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_CONTENT_TEXT_LENGTH);
+};
@@ -0,0 +1,107 @@
+import exifr from 'npm:exifr@7.1.3';
+import { Image, decode } from 'https://deno.land/x/imagescript@1.3.0/mod.ts';
+import { MAX_IN_MEMORY_OBJECT_BYTES } from './s3.ts';
+
+export const THUMBNAIL_SIZE = 256;
+export const PREVIEW_SIZE = 1280;
+
+// Types imagescript can decode, rendered straight from the original (see generate-thumbnail)
+const RENDERABLE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/tiff'];
+
+export const getThumbnailKey = (s3Key: string) => `thumbnails/${s3Key}.jpg`;
+export const getPreviewKey = (s3Key: string) => `previews/${s3Key}.jpg`;
+// The image a video's or PDF's renditions are made from, uploaded by the app
+export const getFrameKey = (s3Key: string) => `frames/${s3Key}.jpg`;
+
+export const RENDITION_PREFIXES = ['thumbnails/', 'previews/', 'frames/'];
+
+// A captured frame is a single JPEG, anything near this size is not one
+export const MAX_FRAME_BYTES = 10 * 1024 * 1024;
+
+// The key of the original a rendition was made from
+export const getRenditionSourceKey = (renditionKey: string) =>
+  renditionKey.slice(renditionKey.indexOf('/') + 1, -'.jpg'.length);
+
+export const canRender = (mimeType: string | null, sizeBytes: number) =>
+  !!mimeType && RENDERABLE_TYPES.includes(mimeType) && sizeBytes <= MAX_IN_MEMORY_OBJECT_BYTES;
+
+// Videos and PDFs are rendered from a frame the device captures, the edge runtime cannot
+// decode them; keep in step with needsRenditionFrame in the app
+export const canRenderFromFrame = (mimeType: string | null) =>
+  !!mimeType && (mimeType.startsWith('video/') || mimeType === 'application/pdf');
+
+// exifr reads EXIF from more formats than imagescript decodes, HEIC and WebP included
+export const canReadMetadata = (mimeType: string | null, sizeBytes: number) =>
+  !!mimeType?.startsWith('image/') && sizeBytes <= MAX_IN_MEMORY_OBJECT_BYTES;
+
+// Stored in files.image_metadata; keep in step with ImageMetadata in types/database.ts
+export interface ImageMetadata {
+  width?: number;
+  height?: number;
+  capturedAt?: string;
+  cameraMake?: string;
+  cameraModel?: string;
+  lensModel?: string;
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * Reads the EXIF details worth showing with an image. Images without EXIF, or with a block
+ * exifr cannot parse, get whatever dimensions the file header gives.
+ */
+export const readImageMetadata = async (bytes: Uint8Array): Promise<ImageMetadata> => {
+  const tags = await exifr
+    .parse(bytes, { tiff: true, exif: true, gps: true, ihdr: true })
+    .catch(() => undefined);
+  if (!tags) return {};
+
+  return {
+    width: tags.ExifImageWidth ?? tags.ImageWidth,
+    height: tags.ExifImageHeight ?? tags.ImageHeight,
+    // EXIF dates carry no time zone, so this is the camera's clock read as UTC
+    capturedAt:
+      tags.DateTimeOriginal instanceof Date ? tags.DateTimeOriginal.toISOString() : undefined,
+    cameraMake: tags.Make,
+    cameraModel: tags.Model,
+    lensModel: tags.LensModel,
+    exposureTime: tags.ExposureTime,
+    fNumber: tags.FNumber,
+    iso: tags.ISO,
+    focalLength: tags.FocalLength,
+    latitude: tags.latitude,
+    longitude: tags.longitude,
+  };
+};
+
+/**
+ * Renders a square thumbnail for file lists and a preview that fits within PREVIEW_SIZE,
+ * both as JPEG, and reports the original's dimensions. Animated GIFs use their first frame.
+ */
+export const renderImage = async (bytes: Uint8Array) => {
+  const image = (await decode(bytes, true)) as Image;
+
+  const preview = image.clone();
+  if (preview.width > PREVIEW_SIZE || preview.height > PREVIEW_SIZE) {
+    // Scale the longer side down and keep the aspect ratio
+    if (preview.width >= preview.height) {
+      preview.resize(PREVIEW_SIZE, Image.RESIZE_AUTO);
+    } else {
+      preview.resize(Image.RESIZE_AUTO, PREVIEW_SIZE);
+    }
+  }
+
+  // Cropped to the centre so every cell in the list is filled
+  const thumbnail = image.cover(THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+
+  return {
+    width: image.width,
+    height: image.height,
+    thumbnail: await thumbnail.encodeJPEG(75),
+    preview: await preview.encodeJPEG(85),
+  };
+};
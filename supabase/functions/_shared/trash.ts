@@ -0,0 +1,120 @@
+import { S3Client } from 'jsr:@bradenmacdonald/s3-lite-client@0.9.2';
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { drainPendingDeletions } from './blobs.ts';
+
+const PURGE_BATCH_SIZE = 100;
+
+export interface PurgeTrashOptions {
+  // Only purge items owned by this user
+  userId?: string;
+  // Only purge items trashed before this ISO timestamp
+  deletedBefore?: string;
+}
+
+export interface PurgeTrashResult {
+  deletedFiles: number;
+  deletedFolders: number;
+}
+
+/**
+ * Permanently removes trashed files and folders. The S3 objects no other file still points
+ * at are queued in pending_deletions as the rows go, the drain-deletions job removes them.
+ */
+export const purgeTrash = async (
+  supabaseClient: SupabaseClient,
+  { userId, deletedBefore }: PurgeTrashOptions = {}
+): Promise<PurgeTrashResult> => {
+  let deletedFiles = 0;
+
+  while (true) {
+    let query = supabaseClient
+      .from('files')
+      .select('id')
+      .not('deleted_at', 'is', null)
+      .limit(PURGE_BATCH_SIZE);
+
+    if (userId) query = query.eq('user_id', userId);
+    if (deletedBefore) query = query.lt('deleted_at', deletedBefore);
+
+    const { data: files, error } = await query;
+    if (error) throw error;
+    if (!files || files.length === 0) break;
+
+    // Deleting the rows releases their blob references
+    const { error: deleteError } = await supabaseClient
+      .from('files')
+      .delete()
+      .in(
+        'id',
+        files.map((file) => file.id)
+      );
+    if (deleteError) throw deleteError;
+    deletedFiles += files.length;
+
+    if (files.length < PURGE_BATCH_SIZE) break;
+  }
+
+  let folderQuery = supabaseClient.from('folders').delete().not('deleted_at', 'is', null);
+
+  if (userId) folderQuery = folderQuery.eq('user_id', userId);
+  if (deletedBefore) folderQuery = folderQuery.lt('deleted_at', deletedBefore);
+
+  const { data: folders, error: folderError } = await folderQuery.select('id');
+  if (folderError) throw folderError;
+
+  return {
+    deletedFiles,
+    deletedFolders: folders?.length ?? 0,
+  };
+};
+
+export interface DeleteFolderResult {
+  deletedFolders: number;
+  deletedObjects: number;
+  // Objects that could not be deleted; they stay queued and drain-deletions retries them
+  failedKeys: string[];
+}
+
+/**
+ * Permanently deletes a folder and everything below it, trashed or not. Subfolders and
+ * files go with it through ON DELETE CASCADE in one statement, and the objects only those
+ * files pointed at are queued for deletion by the same transaction. Those objects are then
+ * deleted straight away through serviceClient, which can read the queue, rather than left
+ * for the next drain, so the result says which are left over.
+ */
+export const deleteFolderForever = async (
+  supabaseClient: SupabaseClient,
+  serviceClient: SupabaseClient,
+  s3Client: S3Client,
+  folderId: string
+): Promise<DeleteFolderResult> => {
+  const { data: folderIds, error: subtreeError } = await supabaseClient.rpc('folder_subtree_ids', {
+    p_folder_id: folderId,
+  });
+  if (subtreeError) throw subtreeError;
+
+  // Read before the rows go. Objects other files still point at are not queued, and the
+  // drain passes over them.
+  const { data: s3Keys, error: keysError } = await supabaseClient.rpc('folder_subtree_s3_keys', {
+    p_folder_id: folderId,
+  });
+  if (keysError) throw keysError;
+
+  const { data: deleted, error: folderError } = await supabaseClient
+    .from('folders')
+    .delete()
+    .eq('id', folderId)
+    .select('id');
+  if (folderError) throw folderError;
+  // RLS filters out rows it will not delete without an error
+  if (!deleted || deleted.length === 0) {
+    throw new Error('You do not have permission to delete this folder');
+  }
+
+  const { deletedObjects, failedKeys } =
+    s3Keys.length > 0
+      ? await drainPendingDeletions(serviceClient, s3Client, { s3Keys })
+      : { deletedObjects: 0, failedKeys: [] };
+
+  return { deletedFolders: folderIds.length, deletedObjects, failedKeys };
+};
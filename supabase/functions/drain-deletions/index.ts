@@ -0,0 +1,46 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { drainPendingDeletions } from '../_shared/blobs.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createS3Client, getS3Config } from '../_shared/s3.ts';
+
+// Scheduled job (see the add_pending_deletions migration): deletes the S3 objects queued by
+// file and folder deletes. Objects that fail stay queued and are retried on a later run.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Only the scheduler, which holds the service role key, may drain the queue
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { bucket, accessKeyId, secretAccessKey } = getS3Config();
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      return new Response(JSON.stringify({ error: 'AWS configuration missing' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+    const result = await drainPendingDeletions(supabaseClient, createS3Client());
+
+    return new Response(JSON.stringify(result), {
+      status: result.failedKeys.length > 0 ? 207 : 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Drain deletions error:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,176 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createS3Client, getS3Config, headObject } from '../_shared/s3.ts';
+import { canExtractText, extractText } from '../_shared/textContent.ts';
+import {
+  ImageMetadata,
+  canReadMetadata,
+  canRender,
+  canRenderFromFrame,
+  getFrameKey,
+  getPreviewKey,
+  getThumbnailKey,
+  readImageMetadata,
+  renderImage,
+} from '../_shared/thumbnails.ts';
+
+// Called by the request_thumbnail trigger (see the add_thumbnails migration) with the file
+// that got new contents. Without a fileId it works through a batch of pending files; the
+// generate-thumbnails cron job does that every ten minutes to catch up on the backlog.
+// Text documents get no renditions, but their text is read here for search.
+// Videos and PDFs cannot be decoded here, so their renditions are made from the poster frame
+// or first page the app uploads with them (see get-frame-upload-url in upload-to-s3). Files
+// uploaded without one are marked 'unsupported' and the app shows their type icon.
+const BACKFILL_BATCH_SIZE = 20;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Only the database trigger, which holds the service role key, may run the generator
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { bucket, accessKeyId, secretAccessKey } = getS3Config();
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      return new Response(JSON.stringify({ error: 'AWS configuration missing' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+    const s3Client = createS3Client();
+    const { fileId } = await req.json().catch(() => ({}));
+
+    let query = supabaseClient
+      .from('files')
+      .select('id, s3_key, mime_type, size_bytes')
+      .eq('thumbnail_status', 'pending');
+    query = fileId
+      ? query.eq('id', fileId)
+      : query.order('created_at', { ascending: true }).limit(BACKFILL_BATCH_SIZE);
+
+    const { data: files, error } = await query;
+    if (error) throw error;
+
+    const counts = { ready: 0, unsupported: 0, failed: 0 };
+
+    // One at a time, decoded images are large and the function's memory is not
+    for (const file of files ?? []) {
+      let status: keyof typeof counts = 'unsupported';
+      let imageMetadata: ImageMetadata | null = null;
+      const thumbnailKey = getThumbnailKey(file.s3_key);
+      const previewKey = getPreviewKey(file.s3_key);
+      const renderable = canRender(file.mime_type, file.size_bytes);
+
+      if (renderable || canReadMetadata(file.mime_type, file.size_bytes)) {
+        try {
+          // Another file with the same contents may already have been through here
+          const { data: twin } = await supabaseClient
+            .from('files')
+            .select('image_metadata')
+            .eq('s3_key', file.s3_key)
+            .not('image_metadata', 'is', null)
+            .limit(1)
+            .maybeSingle();
+          imageMetadata = twin?.image_metadata ?? null;
+          const hasRenditions = renderable && !!(await headObject(s3Client, thumbnailKey));
+
+          if ((renderable && !hasRenditions) || !imageMetadata) {
+            const original = await s3Client.getObject(file.s3_key);
+            const bytes = new Uint8Array(await original.arrayBuffer());
+            imageMetadata ??= await readImageMetadata(bytes);
+
+            if (renderable && !hasRenditions) {
+              const { thumbnail, preview, width, height } = await renderImage(bytes);
+              // The decoded size is right even when EXIF is missing or stale
+              imageMetadata = { ...imageMetadata, width, height };
+              // The thumbnail goes last, finding it means both renditions exist
+              await s3Client.putObject(previewKey, preview, {
+                metadata: { 'Content-Type': 'image/jpeg' },
+              });
+              await s3Client.putObject(thumbnailKey, thumbnail, {
+                metadata: { 'Content-Type': 'image/jpeg' },
+              });
+            }
+          }
+          status = renderable ? 'ready' : 'unsupported';
+        } catch (renderError) {
+          console.error(`Thumbnail Error for ${file.id}:`, renderError);
+          status = 'failed';
+        }
+      } else if (canRenderFromFrame(file.mime_type)) {
+        const frameKey = getFrameKey(file.s3_key);
+        try {
+          if (await headObject(s3Client, thumbnailKey)) {
+            status = 'ready';
+          } else if (await headObject(s3Client, frameKey)) {
+            const frame = await s3Client.getObject(frameKey);
+            const { thumbnail, preview } = await renderImage(
+              new Uint8Array(await frame.arrayBuffer())
+            );
+            await s3Client.putObject(previewKey, preview, {
+              metadata: { 'Content-Type': 'image/jpeg' },
+            });
+            await s3Client.putObject(thumbnailKey, thumbnail, {
+              metadata: { 'Content-Type': 'image/jpeg' },
+            });
+            status = 'ready';
+          }
+        } catch (renderError) {
+          console.error(`Thumbnail Error for ${file.id}:`, renderError);
+          status = 'failed';
+        }
+      }
+
+      let contentText: string | null = null;
+      if (canExtractText(file.mime_type, file.size_bytes)) {
+        try {
+          const original = await s3Client.getObject(file.s3_key);
+          contentText = await extractText(
+            new Uint8Array(await original.arrayBuffer()),
+            file.mime_type
+          );
+        } catch (extractError) {
+          // Search still finds the file by name
+          console.error(`Text Extraction Error for ${file.id}:`, extractError);
+        }
+      }
+
+      // Only if the contents did not change while we were rendering
+      const { error: updateError } = await supabaseClient
+        .from('files')
+        .update({
+          thumbnail_status: status,
+          thumbnail_s3_key: status === 'ready' ? thumbnailKey : null,
+          preview_s3_key: status === 'ready' ? previewKey : null,
+          image_metadata: imageMetadata,
+          content_text: contentText,
+        })
+        .eq('id', file.id)
+        .eq('s3_key', file.s3_key);
+      if (updateError) throw updateError;
+
+      counts[status]++;
+    }
+
+    return new Response(JSON.stringify(counts), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Generate thumbnail error:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
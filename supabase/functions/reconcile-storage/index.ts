@@ -0,0 +1,387 @@
+import { S3Client } from 'jsr:@bradenmacdonald/s3-lite-client@0.9.2';
+import { SupabaseClient, createClient } from 'jsr:@supabase/supabase-js@2';
+import { deleteObjectWithRenditions } from '../_shared/blobs.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import {
+  abortMultipartUpload,
+  createS3Client,
+  getS3Config,
+  listMultipartUploads,
+} from '../_shared/s3.ts';
+import { RENDITION_PREFIXES, getRenditionSourceKey } from '../_shared/thumbnails.ts';
+
+// Scheduled job (see the add_storage_reconciliation migration): compares the objects under
+// each user's key prefix with the keys the database knows about. Objects nothing refers to
+// are deleted once they are older than the grace period, which leaves time for an upload to
+// get its file record. Rows whose object is gone are flagged with files.object_missing_at.
+// Renditions whose original has no record are deleted the same way, and multipart uploads
+// left unfinished for STALE_UPLOAD_DAYS are aborted: the app resumes them from the session it
+// keeps on the device, which is gone once the app is uninstalled or the session discarded.
+// A run stops taking new accounts once RUN_TIME_BUDGET_SECONDS have passed and records where
+// it got to; the next run carries on from there, so a pass over every account can take
+// several runs. Once a pass is complete, runs return at once until MIN_PASS_INTERVAL_HOURS
+// after it started.
+// Send { "dryRun": true } to only report, or a userId to check one prefix.
+const ORPHAN_GRACE_HOURS = Number(Deno.env.get('ORPHAN_GRACE_HOURS') ?? '24');
+const STALE_UPLOAD_DAYS = Number(Deno.env.get('STALE_UPLOAD_DAYS') ?? '7');
+const RUN_TIME_BUDGET_SECONDS = Number(Deno.env.get('RUN_TIME_BUDGET_SECONDS') ?? '100');
+const MIN_PASS_INTERVAL_HOURS = 12;
+const USERS_PAGE_SIZE = 100;
+const KEYS_PAGE_SIZE = 1000;
+const BATCH_SIZE = 100;
+// The report lists at most this many keys of each kind, the counts are always complete
+const REPORT_KEY_LIMIT = 500;
+
+interface ReconciliationReport {
+  users: number;
+  scannedObjects: number;
+  orphanedObjects: number;
+  orphanedKeys: string[];
+  deletedObjects: number;
+  orphanedRenditions: number;
+  deletedRenditions: number;
+  staleUploads: number;
+  abortedUploads: number;
+  failedKeys: string[];
+  missingObjects: number;
+  missingKeys: string[];
+  flaggedFiles: number;
+  clearedFiles: number;
+}
+
+const addKeys = (list: string[], keys: string[]) => {
+  list.push(...keys.slice(0, Math.max(0, REPORT_KEY_LIMIT - list.length)));
+};
+
+// Every distinct s3_key under a prefix in a table, read in key order one page at a time.
+// With referencedBefore, only blobs something points at that were created before then.
+const loadKeys = async (
+  supabaseClient: SupabaseClient,
+  table: 'blobs' | 'files',
+  prefix: string,
+  referencedBefore?: string
+) => {
+  const keys = new Set<string>();
+  let after: string | null = null;
+
+  while (true) {
+    let query = supabaseClient
+      .from(table)
+      .select('s3_key')
+      .like('s3_key', `${prefix}%`)
+      .order('s3_key')
+      .limit(KEYS_PAGE_SIZE);
+    if (referencedBefore) query = query.gt('ref_count', 0).lt('created_at', referencedBefore);
+    if (after) query = query.gt('s3_key', after);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+
+    data.forEach((row) => keys.add(row.s3_key));
+    after = data[data.length - 1].s3_key;
+    if (data.length < KEYS_PAGE_SIZE) break;
+  }
+
+  return keys;
+};
+
+const reconcilePrefix = async (
+  supabaseClient: SupabaseClient,
+  s3Client: S3Client,
+  userId: string,
+  startedAt: Date,
+  dryRun: boolean,
+  report: ReconciliationReport
+) => {
+  const prefix = `${userId}/`;
+  const graceCutoff = startedAt.getTime() - ORPHAN_GRACE_HOURS * 60 * 60 * 1000;
+
+  // The bucket is listed before the rows are read, so an upload finishing in between is
+  // seen with its record rather than as an orphan
+  const objects = new Map<string, Date>();
+  for await (const object of s3Client.listObjects({ prefix })) {
+    objects.set(object.key, object.lastModified);
+  }
+  report.scannedObjects += objects.size;
+
+  // Blobs cover every file and version; files are read too in case a blob row went missing
+  const blobKeys = await loadKeys(supabaseClient, 'blobs', prefix);
+  const fileKeys = await loadKeys(supabaseClient, 'files', prefix);
+
+  const orphans = [...objects.entries()]
+    .filter(([key]) => !blobKeys.has(key) && !fileKeys.has(key))
+    .filter(([, lastModified]) => lastModified.getTime() < graceCutoff)
+    .map(([key]) => key);
+  report.orphanedObjects += orphans.length;
+  addKeys(report.orphanedKeys, orphans);
+
+  if (!dryRun) {
+    for (let start = 0; start < orphans.length; start += BATCH_SIZE) {
+      const batch = orphans.slice(start, start + BATCH_SIZE);
+
+      // Checked again right before deleting, a record may have arrived since the keys were read
+      const { data: claimed, error } = await supabaseClient
+        .from('blobs')
+        .select('s3_key')
+        .in('s3_key', batch);
+      if (error) throw error;
+      const claimedKeys = new Set((claimed ?? []).map((blob: { s3_key: string }) => blob.s3_key));
+
+      const unclaimed = batch.filter((key) => !claimedKeys.has(key));
+
+      const settled = await Promise.allSettled(
+        unclaimed.map((key) => deleteObjectWithRenditions(s3Client, key))
+      );
+
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          report.deletedObjects++;
+        } else {
+          console.error('S3 Deletion Error:', outcome.reason);
+          addKeys(report.failedKeys, [unclaimed[index]]);
+        }
+      });
+    }
+  }
+
+  // A rendition is left over when its original has no record; renditions of the orphans above
+  // went with them
+  const orphanedRenditions: string[] = [];
+  for (const renditionPrefix of RENDITION_PREFIXES) {
+    for await (const object of s3Client.listObjects({ prefix: `${renditionPrefix}${prefix}` })) {
+      report.scannedObjects++;
+      const sourceKey = getRenditionSourceKey(object.key);
+      if (
+        !objects.has(sourceKey) &&
+        !blobKeys.has(sourceKey) &&
+        !fileKeys.has(sourceKey) &&
+        object.lastModified.getTime() < graceCutoff
+      ) {
+        orphanedRenditions.push(object.key);
+      }
+    }
+  }
+  report.orphanedRenditions += orphanedRenditions.length;
+  addKeys(report.orphanedKeys, orphanedRenditions);
+
+  if (!dryRun) {
+    for (let start = 0; start < orphanedRenditions.length; start += BATCH_SIZE) {
+      const batch = orphanedRenditions.slice(start, start + BATCH_SIZE);
+
+      const { data: claimed, error } = await supabaseClient
+        .from('blobs')
+        .select('s3_key')
+        .in('s3_key', batch.map(getRenditionSourceKey));
+      if (error) throw error;
+      const claimedKeys = new Set((claimed ?? []).map((blob: { s3_key: string }) => blob.s3_key));
+
+      const unclaimed = batch.filter((key) => !claimedKeys.has(getRenditionSourceKey(key)));
+      const settled = await Promise.allSettled(unclaimed.map((key) => s3Client.deleteObject(key)));
+
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          report.deletedRenditions++;
+        } else {
+          console.error('S3 Deletion Error:', outcome.reason);
+          addKeys(report.failedKeys, [unclaimed[index]]);
+        }
+      });
+    }
+  }
+
+  const staleCutoff = startedAt.getTime() - STALE_UPLOAD_DAYS * 24 * 60 * 60 * 1000;
+  for await (const upload of listMultipartUploads(s3Client, prefix)) {
+    if (upload.initiated.getTime() >= staleCutoff) continue;
+    report.staleUploads++;
+    if (dryRun) continue;
+
+    try {
+      await abortMultipartUpload(s3Client, upload.key, upload.uploadId);
+      report.abortedUploads++;
+    } catch (error) {
+      console.error('Multipart Abort Error:', error);
+      addKeys(report.failedKeys, [upload.key]);
+    }
+  }
+
+  // Only blobs that existed when the bucket was listed can be missing from it
+  const referencedKeys = await loadKeys(supabaseClient, 'blobs', prefix, startedAt.toISOString());
+  const missing = [...referencedKeys].filter((key) => !objects.has(key));
+  report.missingObjects += missing.length;
+  addKeys(report.missingKeys, missing);
+
+  if (dryRun) return;
+
+  for (let start = 0; start < missing.length; start += BATCH_SIZE) {
+    const { data: flagged, error } = await supabaseClient
+      .from('files')
+      .update({ object_missing_at: startedAt.toISOString() })
+      .in('s3_key', missing.slice(start, start + BATCH_SIZE))
+      .is('object_missing_at', null)
+      .select('id');
+    if (error) throw error;
+    report.flaggedFiles += flagged?.length ?? 0;
+  }
+
+  // Objects restored since an earlier run, e.g. from a bucket backup
+  const { data: previouslyMissing, error: previousError } = await supabaseClient
+    .from('files')
+    .select('id, s3_key')
+    .like('s3_key', `${prefix}%`)
+    .not('object_missing_at', 'is', null);
+  if (previousError) throw previousError;
+
+  const found = (previouslyMissing ?? [])
+    .filter((file: { s3_key: string }) => objects.has(file.s3_key))
+    .map((file: { id: string }) => file.id);
+
+  for (let start = 0; start < found.length; start += BATCH_SIZE) {
+    const { error } = await supabaseClient
+      .from('files')
+      .update({ object_missing_at: null })
+      .in('id', found.slice(start, start + BATCH_SIZE));
+    if (error) throw error;
+    report.clearedFiles += Math.min(BATCH_SIZE, found.length - start);
+  }
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Only the scheduler, which holds the service role key, may run the job
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { bucket, accessKeyId, secretAccessKey } = getS3Config();
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      return new Response(JSON.stringify({ error: 'AWS configuration missing' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+    const s3Client = createS3Client();
+    const { dryRun = false, userId } = await req.json().catch(() => ({}));
+    const startedAt = new Date();
+
+    const report: ReconciliationReport = {
+      users: 0,
+      scannedObjects: 0,
+      orphanedObjects: 0,
+      orphanedKeys: [],
+      deletedObjects: 0,
+      orphanedRenditions: 0,
+      deletedRenditions: 0,
+      staleUploads: 0,
+      abortedUploads: 0,
+      failedKeys: [],
+      missingObjects: 0,
+      missingKeys: [],
+      flaggedFiles: 0,
+      clearedFiles: 0,
+    };
+
+    if (userId) {
+      await reconcilePrefix(supabaseClient, s3Client, userId, startedAt, dryRun, report);
+      report.users = 1;
+
+      const { error: reportError } = await supabaseClient
+        .from('storage_reconciliation_runs')
+        .insert({ started_at: startedAt.toISOString(), dry_run: dryRun, report });
+      if (reportError) console.error('Failed to store reconciliation report:', reportError);
+
+      return new Response(JSON.stringify(report), {
+        status: report.failedKeys.length > 0 ? 207 : 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Carry on with the pass in progress, or start a new one
+    const { data: lastRun, error: lastRunError } = await supabaseClient
+      .from('storage_reconciliation_runs')
+      .select('pass_started_at, next_user_id')
+      .eq('dry_run', dryRun)
+      .not('pass_started_at', 'is', null)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (lastRunError) throw lastRunError;
+
+    // The first account not checked yet, null to start from the beginning
+    let nextUserId: string | null = lastRun?.next_user_id ?? null;
+    const passStartedAt = nextUserId ? new Date(lastRun!.pass_started_at) : startedAt;
+
+    if (
+      !nextUserId &&
+      lastRun &&
+      startedAt.getTime() - new Date(lastRun.pass_started_at).getTime() <
+        MIN_PASS_INTERVAL_HOURS * 60 * 60 * 1000
+    ) {
+      return new Response(JSON.stringify({ skipped: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const deadline = startedAt.getTime() + RUN_TIME_BUDGET_SECONDS * 1000;
+    let passComplete = false;
+
+    while (!passComplete && Date.now() < deadline) {
+      // One more id than is checked, it is where the next page starts
+      const { data: userIds, error } = await supabaseClient.rpc('reconciliation_user_ids', {
+        p_from: nextUserId,
+        p_limit: USERS_PAGE_SIZE + 1,
+      });
+      if (error) throw error;
+
+      const page = ((userIds ?? []) as string[]).slice(0, USERS_PAGE_SIZE);
+      const following: string | undefined = (userIds ?? [])[USERS_PAGE_SIZE];
+
+      let checked = 0;
+      for (const id of page) {
+        if (Date.now() >= deadline) break;
+        await reconcilePrefix(supabaseClient, s3Client, id, startedAt, dryRun, report);
+        report.users++;
+        checked++;
+      }
+
+      if (checked < page.length) {
+        nextUserId = page[checked];
+      } else if (following) {
+        nextUserId = following;
+      } else {
+        passComplete = true;
+      }
+    }
+
+    const { error: reportError } = await supabaseClient.from('storage_reconciliation_runs').insert({
+      started_at: startedAt.toISOString(),
+      dry_run: dryRun,
+      report,
+      pass_started_at: passStartedAt.toISOString(),
+      next_user_id: passComplete ? null : nextUserId,
+    });
+    if (reportError) console.error('Failed to store reconciliation report:', reportError);
+
+    return new Response(JSON.stringify(report), {
+      status: report.failedKeys.length > 0 ? 207 : 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Reconcile storage error:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,176 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { verifyPassword } from '../_shared/crypto.ts';
+import { createS3Client } from '../_shared/s3.ts';
+
+// Public endpoint: resolves a share token to a short-lived download URL without a login.
+// Deploy with `supabase functions deploy share-link --no-verify-jwt`.
+const DOWNLOAD_URL_EXPIRY_SECONDS = 300; // 5 minutes
+
+interface SharedFile {
+  name: string;
+  mime_type: string | null;
+  size_bytes: number;
+  s3_key: string;
+  deleted_at: string | null;
+}
+
+// The embedded file, a single row as share_links.file_id is a foreign key
+const isSharedFile = (value: unknown): value is SharedFile =>
+  typeof value === 'object' &&
+  value !== null &&
+  'name' in value &&
+  typeof value.name === 'string' &&
+  's3_key' in value &&
+  typeof value.s3_key === 'string';
+
+const lockedResponse = (lockedUntil: string) =>
+  new Response(
+    JSON.stringify({ error: 'Too many wrong passwords, try again later', lockedUntil }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'Retry-After': String(
+          Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000))
+        ),
+      },
+    }
+  );
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      headers: {
+        ...corsHeaders,
+        'Access-Control-Allow-Headers': `${corsHeaders['Access-Control-Allow-Headers']}, x-share-password`,
+      },
+    });
+  }
+
+  try {
+    // GET ?token=... for plain links, POST { token, password } for protected ones
+    const url = new URL(req.url);
+    const body = req.method === 'POST' ? await req.json() : {};
+    const token: string | undefined = body.token ?? url.searchParams.get('token') ?? undefined;
+    const password: string | undefined =
+      body.password ?? req.headers.get('x-share-password') ?? undefined;
+
+    if (!token) {
+      return new Response(JSON.stringify({ error: 'token is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: link } = await supabaseClient
+      .from('share_links')
+      .select(
+        'id, password_hash, failed_password_attempts, password_locked_until, expires_at, max_downloads, download_count, revoked_at, files(name, mime_type, size_bytes, s3_key, deleted_at)'
+      )
+      .eq('token', token)
+      .maybeSingle();
+
+    const embedded: unknown = link?.files;
+    const file = isSharedFile(embedded) ? embedded : null;
+
+    // Same response for unknown, revoked and trashed links so tokens can't be probed
+    if (!link || !file || link.revoked_at || file.deleted_at) {
+      return new Response(JSON.stringify({ error: 'Link not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (link.expires_at && new Date(link.expires_at) <= new Date()) {
+      return new Response(JSON.stringify({ error: 'This link has expired' }), {
+        status: 410,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (link.max_downloads !== null && link.download_count >= link.max_downloads) {
+      return new Response(JSON.stringify({ error: 'This link has reached its download limit' }), {
+        status: 410,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (link.password_hash) {
+      // Guesses are not even checked while the link is locked
+      if (link.password_locked_until && new Date(link.password_locked_until) > new Date()) {
+        return lockedResponse(link.password_locked_until);
+      }
+
+      if (!password || !(await verifyPassword(password, link.password_hash))) {
+        if (password) {
+          const { data: lockedUntil, error: failureError } = await supabaseClient.rpc(
+            'record_share_link_password_failure',
+            { p_link_id: link.id }
+          );
+          if (failureError) throw failureError;
+          if (lockedUntil) return lockedResponse(lockedUntil);
+        }
+
+        return new Response(
+          JSON.stringify({ error: 'A valid password is required', passwordRequired: true }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      if (link.failed_password_attempts > 0) {
+        const { error: resetError } = await supabaseClient
+          .from('share_links')
+          .update({ failed_password_attempts: 0, password_locked_until: null })
+          .eq('id', link.id);
+        if (resetError) throw resetError;
+      }
+    }
+
+    // Re-checks the limits atomically in case another request got there first
+    const { data: consumed, error: consumeError } = await supabaseClient.rpc('consume_share_link', {
+      p_link_id: link.id,
+    });
+    if (consumeError) throw consumeError;
+
+    if (!consumed) {
+      return new Response(JSON.stringify({ error: 'This link is no longer available' }), {
+        status: 410,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const signedUrl = await createS3Client().presignedGetObject(file.s3_key, {
+      expirySeconds: DOWNLOAD_URL_EXPIRY_SECONDS,
+      responseParams: {
+        'response-content-disposition': `attachment; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+      },
+    });
+
+    return new Response(
+      JSON.stringify({
+        signedUrl,
+        expiresIn: DOWNLOAD_URL_EXPIRY_SECONDS,
+        fileName: file.name,
+        mimeType: file.mime_type,
+        sizeBytes: file.size_bytes,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Share link error:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,9 +1,97 @@
-import { S3Client } from 'jsr:@bradenmacdonald/s3-lite-client@0.9.2';
-import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { SupabaseClient, createClient } from 'jsr:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { generateToken, hashPassword } from '../_shared/crypto.ts';
+import { QUOTA_EXCEEDED_CODE, getQuotaError } from '../_shared/quota.ts';
+import { abortMultipartUpload, createS3Client, getS3Config, headObject } from '../_shared/s3.ts';
+import {
+  MAX_FRAME_BYTES,
+  canRenderFromFrame,
+  getFrameKey,
+  getPreviewKey,
+  getThumbnailKey,
+} from '../_shared/thumbnails.ts';
+import { deleteFolderForever, purgeTrash } from '../_shared/trash.ts';
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// Never return password hashes to the client, only whether a password is set
+const SHARE_LINK_COLUMNS =
+  'id, file_id, token, expires_at, max_downloads, download_count, revoked_at, created_at';
+
+const toShareLink = (link: Record<string, unknown>, hasPassword: boolean) => ({
+  ...link,
+  has_password: hasPassword,
+  url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/share-link?token=${link.token}`,
+});
+
+// The upload allowlist uses short names for these, players only recognise the registered types
+const PLAYBACK_CONTENT_TYPES: Record<string, string> = {
+  'video/mov': 'video/quicktime',
+  'video/mkv': 'video/x-matroska',
+  'video/avi': 'video/x-msvideo',
+};
+
+// For the writes users cannot make themselves, once the request has been checked
+const createServiceClient = () =>
+  createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+
+// Files in a folder, or the caller's own files at the top level
+const filesInFolder = (
+  supabaseClient: SupabaseClient,
+  folderId: string | null,
+  userId: string,
+  columns: string
+) => {
+  const query = supabaseClient.from('files').select(columns).is('deleted_at', null);
+  return folderId
+    ? query.eq('folder_id', folderId)
+    : query.is('folder_id', null).eq('user_id', userId);
+};
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+// "name (1).ext", or the lowest number that is still free in the folder
+const findAvailableName = async (
+  supabaseClient: SupabaseClient,
+  folderId: string | null,
+  userId: string,
+  fileName: string
+) => {
+  const dotIndex = fileName.lastIndexOf('.');
+  const [base, extension] =
+    dotIndex > 0 ? [fileName.slice(0, dotIndex), fileName.slice(dotIndex)] : [fileName, ''];
+
+  const { data, error } = await filesInFolder(supabaseClient, folderId, userId, 'name').like(
+    'name',
+    `${escapeLike(base)} (%)${escapeLike(extension)}`
+  );
+  if (error) throw error;
+
+  const taken = new Set((data ?? []).map((file: { name: string }) => file.name));
+  let n = 1;
+  while (taken.has(`${base} (${n})${extension}`)) n++;
+  return `${base} (${n})${extension}`;
+};
+
+// Account an upload into a folder is stored in: the folder owner for shared folders, the
+// caller at the top level. null if the caller cannot upload there. Objects are keyed under
+// this account's id, so every key a file points at starts with its owner's id.
+const getUploadOwner = async (
+  supabaseClient: SupabaseClient,
+  folderId: string | null,
+  userId: string
+): Promise<string | null> => {
+  if (!folderId) return userId;
+
+  const { data: canEdit } = await supabaseClient.rpc('can_edit_folder', {
+    p_folder_id: folderId,
+  });
+  if (!canEdit) return null;
+
+  const { data: folder } = await supabaseClient
+    .from('folders')
+    .select('user_id')
+    .eq('id', folderId)
+    .maybeSingle();
+  return folder?.user_id ?? null;
 };
 
 Deno.serve(async (req: Request) => {
@@ -31,10 +119,7 @@ Deno.serve(async (req: Request) => {
     }
 
     const body = await req.json();
-    const region = Deno.env.get('AWS_REGION') ?? 'us-east-1';
-    const bucket = Deno.env.get('AWS_S3_BUCKET') ?? '';
-    const accessKeyId = Deno.env.get('AWS_ACCESS_KEY_ID') ?? '';
-    const secretAccessKey = Deno.env.get('AWS_SECRET_ACCESS_KEY') ?? '';
+    const { region, bucket, accessKeyId, secretAccessKey } = getS3Config();
 
     if (!bucket || !accessKeyId || !secretAccessKey) {
       return new Response(JSON.stringify({ error: 'AWS configuration missing' }), {
@@ -43,17 +128,11 @@ Deno.serve(async (req: Request) => {
       });
     }
 
-    const s3Client = new S3Client({
-      endPoint: `https://s3.${region}.amazonaws.com`,
-      region,
-      accessKey: accessKeyId,
-      secretKey: secretAccessKey,
-      bucket,
-    });
+    const s3Client = createS3Client();
 
     // Mode 1: Get Presigned URL for upload
     if (body.action === 'get-presigned-url') {
-      const { fileName, fileType, fileSize } = body;
+      const { fileName, fileType, fileSize, folderId, checksumSha256 } = body;
       const maxFileSize = 5 * 1024 * 1024 * 1024; // 5GB
 
       if (fileSize > maxFileSize) {
@@ -63,14 +142,50 @@ Deno.serve(async (req: Request) => {
         });
       }
 
+      const ownerId = await getUploadOwner(supabaseClient, folderId ?? null, user.id);
+      if (!ownerId) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const quotaError = await getQuotaError(supabaseClient, folderId ?? null, fileSize);
+      if (quotaError) {
+        return new Response(JSON.stringify({ error: quotaError, code: 'QUOTA_EXCEEDED' }), {
+          status: 413,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Content that is already stored is not uploaded again, create-file-record points the
+      // new file at the existing object instead
+      if (checksumSha256) {
+        const { data: existingKey } = await supabaseClient.rpc('find_blob', {
+          p_folder_id: folderId ?? null,
+          p_checksum_sha256: checksumSha256,
+          p_size_bytes: fileSize,
+        });
+        if (existingKey) {
+          return new Response(JSON.stringify({ duplicate: true }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
       const timestamp = Date.now();
       const randomSuffix = Math.random().toString(36).substring(2, 15);
-      const s3Key = `${user.id}/${timestamp}-${randomSuffix}-${fileName}`;
+      const s3Key = `${ownerId}/${timestamp}-${randomSuffix}-${fileName}`;
 
       const { url, fields } = await s3Client.presignedPostObject(s3Key, {
         expirySeconds: 3600, // 1 hour
         fields: {
           'Content-Type': fileType,
+          // S3 rejects the upload if the bytes do not hash to the checksum
+          ...(checksumSha256 && {
+            'x-amz-checksum-algorithm': 'SHA256',
+            'x-amz-checksum-sha256': checksumSha256,
+          }),
         },
         conditions: [['content-length-range', 0, maxFileSize]],
       });
@@ -86,23 +201,216 @@ Deno.serve(async (req: Request) => {
     }
 
     // Mode 2: Create File Record
+    // The size, type and checksum are read back from S3 rather than trusted from the client.
+    // Errors carry a `code` (INVALID_KEY, OBJECT_NOT_FOUND, SIZE_MISMATCH, TYPE_MISMATCH,
+    // CHECKSUM_MISMATCH, QUOTA_EXCEEDED, NAME_CONFLICT). Without an s3Key the file reuses the
+    // stored object with the same checksum and size, as reported by get-presigned-url.
+    // onConflict decides what happens when the name is taken: 'overwrite' (the default) adds
+    // a version to the existing file, 'keep-both' stores the upload as "name (n).ext".
     if (body.action === 'create-file-record') {
-      const { s3Key, fileName, fileType, fileSize, folderId } = body;
+      const {
+        fileName,
+        fileType,
+        fileSize,
+        folderId,
+        checksumSha256,
+        onConflict = 'overwrite',
+      } = body;
+      let { s3Key } = body;
+      if ((!s3Key && !checksumSha256) || !fileName) {
+        return new Response(
+          JSON.stringify({ error: 's3Key or checksumSha256, and fileName are required' }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
 
-      const { data: fileRecord, error: dbError } = await supabaseClient
-        .from('files')
-        .insert({
-          name: fileName,
-          original_name: fileName,
-          mime_type: fileType,
-          size_bytes: fileSize,
-          folder_id: folderId || null,
-          user_id: user.id,
-          s3_key: s3Key,
-          s3_url: `https://${bucket}.s3.${region}.amazonaws.com/${s3Key}`,
-        })
-        .select()
-        .single();
+      const ownerId = await getUploadOwner(supabaseClient, folderId || null, user.id);
+      if (!ownerId) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const isDuplicate = !s3Key;
+      if (isDuplicate) {
+        const { data: existingKey } = await supabaseClient.rpc('find_blob', {
+          p_folder_id: folderId ?? null,
+          p_checksum_sha256: checksumSha256,
+          p_size_bytes: fileSize,
+        });
+        if (!existingKey) {
+          return new Response(
+            JSON.stringify({ error: 'No stored object matches', code: 'OBJECT_NOT_FOUND' }),
+            {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+        s3Key = existingKey;
+      } else if (!s3Key.startsWith(`${ownerId}/`)) {
+        return new Response(JSON.stringify({ error: 'Forbidden', code: 'INVALID_KEY' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const object = await headObject(s3Client, s3Key);
+      if (!object) {
+        return new Response(
+          JSON.stringify({ error: 'Uploaded object not found', code: 'OBJECT_NOT_FOUND' }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // A mismatch means the upload was truncated or swapped, so the object is not kept.
+      // Objects shared with other files are left alone.
+      const discardObject = async () => {
+        if (isDuplicate) return;
+        await s3Client.deleteObject(s3Key).catch((s3Error) => {
+          console.error('S3 Deletion Error:', s3Error);
+        });
+      };
+
+      if (fileSize != null && object.size !== fileSize) {
+        await discardObject();
+        return new Response(
+          JSON.stringify({
+            error: 'Uploaded size does not match',
+            code: 'SIZE_MISMATCH',
+            details: { expected: fileSize, actual: object.size },
+          }),
+          {
+            status: 422,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // A shared object keeps the type it was first uploaded with
+      if (!isDuplicate && fileType && object.contentType && object.contentType !== fileType) {
+        await discardObject();
+        return new Response(
+          JSON.stringify({
+            error: 'Uploaded content type does not match',
+            code: 'TYPE_MISMATCH',
+            details: { expected: fileType, actual: object.contentType },
+          }),
+          {
+            status: 422,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      if (checksumSha256 && object.checksumSha256 && object.checksumSha256 !== checksumSha256) {
+        await discardObject();
+        return new Response(
+          JSON.stringify({
+            error: 'Uploaded checksum does not match',
+            code: 'CHECKSUM_MISMATCH',
+            details: { expected: checksumSha256, actual: object.checksumSha256 },
+          }),
+          {
+            status: 422,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const contents = {
+        mime_type: isDuplicate ? fileType : (object.contentType ?? fileType),
+        size_bytes: object.size,
+        // Objects uploaded without a checksum keep the client's value unverified
+        checksum_sha256: object.checksumSha256 ?? checksumSha256 ?? null,
+        s3_key: s3Key,
+        s3_url: `https://${bucket}.s3.${region}.amazonaws.com/${s3Key}`,
+      };
+
+      const { data: existingFile } = await filesInFolder(
+        supabaseClient,
+        folderId || null,
+        user.id,
+        '*'
+      )
+        .eq('name', fileName)
+        .maybeSingle();
+
+      const keepBoth = !!existingFile && onConflict === 'keep-both';
+
+      // Same contents as the current version, there is nothing new to keep
+      if (existingFile && !keepBoth && existingFile.s3_key === s3Key) {
+        return new Response(JSON.stringify({ fileRecord: existingFile, outcome: 'unchanged' }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const name = keepBoth
+        ? await findAvailableName(supabaseClient, folderId || null, user.id, fileName)
+        : fileName;
+      const outcome = !existingFile ? 'created' : keepBoth ? 'renamed' : 'versioned';
+
+      // Users cannot write these rows themselves, so what they point at is always the object
+      // checked above
+      const serviceClient = createServiceClient();
+
+      const { data: fileRecord, error: dbError } =
+        existingFile && !keepBoth
+          ? await serviceClient
+              .rpc('add_file_version', {
+                p_file_id: existingFile.id,
+                p_s3_key: contents.s3_key,
+                p_s3_url: contents.s3_url,
+                p_size_bytes: contents.size_bytes,
+                p_mime_type: contents.mime_type,
+                p_checksum_sha256: contents.checksum_sha256,
+              })
+              .single()
+          : await serviceClient
+              .from('files')
+              .insert({
+                name,
+                original_name: fileName,
+                folder_id: folderId || null,
+                user_id: user.id,
+                ...contents,
+              })
+              .select()
+              .single();
+
+      if (dbError?.code === QUOTA_EXCEEDED_CODE) {
+        // The object is already in S3 but will never get a record, so remove it now
+        await discardObject();
+        return new Response(
+          JSON.stringify({ error: 'Storage quota exceeded.', code: 'QUOTA_EXCEEDED' }),
+          {
+            status: 413,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // Another upload took the name since we looked
+      if (dbError?.code === '23505') {
+        await discardObject();
+        return new Response(
+          JSON.stringify({
+            error: `A file named "${name}" was just created here`,
+            code: 'NAME_CONFLICT',
+          }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
 
       if (dbError) {
         return new Response(
@@ -114,7 +422,17 @@ Deno.serve(async (req: Request) => {
         );
       }
 
-      return new Response(JSON.stringify({ fileRecord }), {
+      // Stored content is only reused for the account member who uploaded it (see find_blob)
+      if (!isDuplicate) {
+        const { error: blobError } = await serviceClient
+          .from('blobs')
+          .update({ uploaded_by: user.id })
+          .eq('s3_key', s3Key)
+          .is('uploaded_by', null);
+        if (blobError) console.error('Failed to record the uploader:', blobError);
+      }
+
+      return new Response(JSON.stringify({ fileRecord, outcome }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
@@ -129,8 +447,46 @@ Deno.serve(async (req: Request) => {
         });
       }
 
+      // RLS only returns the row if the user owns the file or it is in a folder shared with them
+      const { data: file } = await supabaseClient
+        .from('files')
+        .select('id, user_id, mime_type')
+        .eq('s3_key', s3Key)
+        .limit(1)
+        .maybeSingle();
+
+      // Older versions are downloaded by their own key
+      const { data: version } = file
+        ? { data: null }
+        : await supabaseClient
+            .from('file_versions')
+            .select('id, user_id, mime_type')
+            .eq('s3_key', s3Key)
+            .limit(1)
+            .maybeSingle();
+
+      if (!file && !version) {
+        return new Response(JSON.stringify({ error: 'File not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Only objects stored in the owner's account are handed out, whatever the row says
+      if (!s3Key.startsWith(`${(file ?? version)?.user_id}/`)) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Media is streamed from this URL, so it has to be served with a type the player knows
+      const mimeType = (file ?? version)?.mime_type;
+      const playbackType = mimeType ? PLAYBACK_CONTENT_TYPES[mimeType] : undefined;
+
       const signedUrl = await s3Client.presignedGetObject(s3Key, {
         expirySeconds: 3600, // Expires in 1 hour
+        responseParams: playbackType ? { 'response-content-type': playbackType } : undefined,
       });
 
       return new Response(JSON.stringify({ signedUrl }), {
@@ -138,26 +494,232 @@ Deno.serve(async (req: Request) => {
       });
     }
 
-    // Mode 4: Delete File from S3
+    // Mode 4: Permanently delete a file
+    // Removing the row queues its S3 object for deletion in the same transaction, unless another
+    // file still points at the same content. The drain-deletions job deletes it from S3.
     if (body.action === 'delete-file') {
-      const { s3Key } = body;
-      if (!s3Key) {
-        return new Response(JSON.stringify({ error: 's3Key is required' }), {
+      const { fileId } = body;
+      if (!fileId) {
+        return new Response(JSON.stringify({ error: 'fileId is required' }), {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
-      try {
-        await s3Client.deleteObject(s3Key);
-        return new Response(JSON.stringify({ success: true, message: 'File deleted from S3' }), {
+      const { data: file } = await supabaseClient
+        .from('files')
+        .select('id, user_id, folder_id')
+        .eq('id', fileId)
+        .maybeSingle();
+
+      if (!file) {
+        return new Response(JSON.stringify({ error: 'File not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Viewers of a shared folder can read its files but not delete them
+      if (file.user_id !== user.id) {
+        const { data: canEdit } = file.folder_id
+          ? await supabaseClient.rpc('can_edit_folder', { p_folder_id: file.folder_id })
+          : { data: false };
+
+        if (!canEdit) {
+          return new Response(JSON.stringify({ error: 'Forbidden' }), {
+            status: 403,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
+      const { error: deleteError } = await supabaseClient.from('files').delete().eq('id', file.id);
+      if (deleteError) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to delete file record', details: deleteError }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      return new Response(JSON.stringify({ success: true, message: 'File deleted' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Mode 5: Start a multipart upload for large files
+    if (body.action === 'create-multipart-upload') {
+      const { fileName, fileType, fileSize, folderId, checksumSha256 } = body;
+      const maxFileSize = 5 * 1024 * 1024 * 1024; // 5GB
+
+      if (fileSize > maxFileSize) {
+        return new Response(JSON.stringify({ error: 'File size exceeds 5GB limit.' }), {
+          status: 413,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const ownerId = await getUploadOwner(supabaseClient, folderId ?? null, user.id);
+      if (!ownerId) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const quotaError = await getQuotaError(supabaseClient, folderId ?? null, fileSize);
+      if (quotaError) {
+        return new Response(JSON.stringify({ error: quotaError, code: 'QUOTA_EXCEEDED' }), {
+          status: 413,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Content that is already stored is not uploaded again, create-file-record points the
+      // new file at the existing object instead
+      if (checksumSha256) {
+        const { data: existingKey } = await supabaseClient.rpc('find_blob', {
+          p_folder_id: folderId ?? null,
+          p_checksum_sha256: checksumSha256,
+          p_size_bytes: fileSize,
+        });
+        if (existingKey) {
+          return new Response(JSON.stringify({ duplicate: true }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
+      const timestamp = Date.now();
+      const randomSuffix = Math.random().toString(36).substring(2, 15);
+      const s3Key = `${ownerId}/${timestamp}-${randomSuffix}-${fileName}`;
+
+      const response = await s3Client.makeRequest({
+        method: 'POST',
+        objectName: s3Key,
+        query: 'uploads',
+        headers: new Headers({
+          'Content-Type': fileType || 'application/octet-stream',
+          // Every part must then carry a checksum, and S3 keeps a composite one for the object
+          'x-amz-checksum-algorithm': 'SHA256',
+        }),
+        returnBody: true,
+      });
+      const uploadId = (await response.text()).match(/<UploadId>([^<]+)<\/UploadId>/)?.[1];
+
+      if (!uploadId) {
+        return new Response(JSON.stringify({ error: 'Failed to start multipart upload' }), {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      return new Response(JSON.stringify({ s3Key, uploadId }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Mode 6: Presign upload URLs for a range of parts
+    // Modes 6-8 take the upload's destination folderId, the key is in its owner's account
+    if (body.action === 'get-multipart-part-urls') {
+      const { s3Key, uploadId, partNumbers, folderId, checksums = {} } = body;
+      if (!s3Key || !uploadId || !Array.isArray(partNumbers) || partNumbers.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 's3Key, uploadId and partNumbers are required' }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const ownerId = await getUploadOwner(supabaseClient, folderId ?? null, user.id);
+      if (!ownerId || !s3Key.startsWith(`${ownerId}/`)) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // S3 accepts part numbers 1-10000
+      if (partNumbers.some((n: number) => !Number.isInteger(n) || n < 1 || n > 10000)) {
+        return new Response(JSON.stringify({ error: 'Invalid part number' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const parts = await Promise.all(
+        partNumbers.map(async (partNumber: number) => ({
+          partNumber,
+          url: await s3Client.getPresignedUrl('PUT', s3Key, {
+            parameters: {
+              partNumber: String(partNumber),
+              uploadId,
+              // Signed into the URL so the part is checked against the client's hash
+              ...(checksums[partNumber] && {
+                'x-amz-sdk-checksum-algorithm': 'SHA256',
+                'x-amz-checksum-sha256': checksums[partNumber],
+              }),
+            },
+            expirySeconds: 3600, // 1 hour
+          }),
+        }))
+      );
+
+      return new Response(JSON.stringify({ parts }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Mode 7: Assemble the uploaded parts into the final object
+    if (body.action === 'complete-multipart-upload') {
+      const { s3Key, uploadId, parts, folderId } = body;
+      if (!s3Key || !uploadId || !Array.isArray(parts) || parts.length === 0) {
+        return new Response(JSON.stringify({ error: 's3Key, uploadId and parts are required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const ownerId = await getUploadOwner(supabaseClient, folderId ?? null, user.id);
+      if (!ownerId || !s3Key.startsWith(`${ownerId}/`)) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
+      }
+
+      const partsXml = [...parts]
+        .sort((a: { partNumber: number }, b: { partNumber: number }) => a.partNumber - b.partNumber)
+        .map(
+          (part: { partNumber: number; etag: string; checksum?: string }) =>
+            `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${part.etag}</ETag>${
+              part.checksum ? `<ChecksumSHA256>${part.checksum}</ChecksumSHA256>` : ''
+            }</Part>`
+        )
+        .join('');
+
+      try {
+        const response = await s3Client.makeRequest({
+          method: 'POST',
+          objectName: s3Key,
+          query: { uploadId },
+          payload: `<CompleteMultipartUpload>${partsXml}</CompleteMultipartUpload>`,
+          returnBody: true,
+        });
+        // S3 can report a failure in the body of a 200 response
+        const responseText = await response.text();
+        if (responseText.includes('<Error>')) {
+          throw new Error(responseText.match(/<Message>([^<]+)<\/Message>/)?.[1] ?? 'Unknown');
+        }
       } catch (s3Error) {
-        console.error('S3 Deletion Error:', s3Error);
+        console.error('Multipart Completion Error:', s3Error);
         return new Response(
           JSON.stringify({
-            error: 'Failed to delete file from S3',
+            error: 'Failed to complete multipart upload',
             details: (s3Error as Error).message,
           }),
           {
@@ -166,6 +728,386 @@ Deno.serve(async (req: Request) => {
           }
         );
       }
+
+      return new Response(JSON.stringify({ s3Key }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Mode 8: Abort a multipart upload and discard its parts
+    if (body.action === 'abort-multipart-upload') {
+      const { s3Key, uploadId, folderId } = body;
+      if (!s3Key || !uploadId) {
+        return new Response(JSON.stringify({ error: 's3Key and uploadId are required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const ownerId = await getUploadOwner(supabaseClient, folderId ?? null, user.id);
+      if (!ownerId || !s3Key.startsWith(`${ownerId}/`)) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      try {
+        await abortMultipartUpload(s3Client, s3Key, uploadId);
+      } catch (s3Error) {
+        // The upload may already be completed or aborted
+        console.error('Multipart Abort Error:', s3Error);
+      }
+
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Mode 9: Permanently delete everything in the user's trash
+    if (body.action === 'empty-trash') {
+      const result = await purgeTrash(supabaseClient, { userId: user.id });
+
+      return new Response(JSON.stringify(result), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Mode 10: Create a public share link for a file
+    if (body.action === 'create-share-link') {
+      const { fileId, password, expiresInHours, maxDownloads } = body;
+      if (!fileId) {
+        return new Response(JSON.stringify({ error: 'fileId is required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (
+        (expiresInHours != null && !(expiresInHours > 0)) ||
+        (maxDownloads != null && !(Number.isInteger(maxDownloads) && maxDownloads > 0))
+      ) {
+        return new Response(
+          JSON.stringify({ error: 'Expiry and download limit must be positive numbers' }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const { data: file } = await supabaseClient
+        .from('files')
+        .select('id')
+        .eq('id', fileId)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (!file) {
+        return new Response(JSON.stringify({ error: 'File not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: link, error: dbError } = await createServiceClient()
+        .from('share_links')
+        .insert({
+          file_id: fileId,
+          user_id: user.id,
+          token: generateToken(),
+          password_hash: password ? await hashPassword(password) : null,
+          expires_at: expiresInHours
+            ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString()
+            : null,
+          max_downloads: maxDownloads ?? null,
+        })
+        .select(SHARE_LINK_COLUMNS)
+        .single();
+
+      if (dbError) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to create share link', details: dbError }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      return new Response(JSON.stringify({ shareLink: toShareLink(link, !!password) }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Mode 11: List the share links of a file
+    if (body.action === 'list-share-links') {
+      const { fileId } = body;
+      if (!fileId) {
+        return new Response(JSON.stringify({ error: 'fileId is required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: links, error: dbError } = await supabaseClient
+        .from('share_links')
+        .select(`${SHARE_LINK_COLUMNS}, password_hash`)
+        .eq('file_id', fileId)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (dbError) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to list share links', details: dbError }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          shareLinks: links.map(({ password_hash, ...link }) => toShareLink(link, !!password_hash)),
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Mode 12: Revoke a share link so its token stops working
+    if (body.action === 'revoke-share-link') {
+      const { linkId } = body;
+      if (!linkId) {
+        return new Response(JSON.stringify({ error: 'linkId is required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: link, error: dbError } = await createServiceClient()
+        .from('share_links')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', linkId)
+        .eq('user_id', user.id)
+        .is('revoked_at', null)
+        .select('id')
+        .maybeSingle();
+
+      if (dbError) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to revoke share link', details: dbError }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      if (!link) {
+        return new Response(JSON.stringify({ error: 'Share link not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Mode 13: Report which of the names about to be uploaded already exist in a folder,
+    // so the client can settle conflicts before any bytes are sent
+    if (body.action === 'check-name-conflicts') {
+      const { folderId, fileNames } = body;
+      if (!Array.isArray(fileNames) || fileNames.length === 0) {
+        return new Response(JSON.stringify({ error: 'fileNames are required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: existing, error } = await filesInFolder(
+        supabaseClient,
+        folderId || null,
+        user.id,
+        'name'
+      ).in('name', fileNames);
+
+      if (error) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to check names', details: error.message }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ conflicts: (existing ?? []).map((file: { name: string }) => file.name) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Mode 14: Signed URLs for the thumbnails (or previews) of the files that have them,
+    // keyed by file id. Files still pending or without a rendition are left out.
+    if (body.action === 'get-thumbnail-urls') {
+      const { fileIds, variant = 'thumbnail' } = body;
+      if (!Array.isArray(fileIds) || fileIds.length === 0) {
+        return new Response(JSON.stringify({ error: 'fileIds are required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: files, error } = await supabaseClient
+        .from('files')
+        .select('id, user_id, s3_key')
+        .in('id', fileIds)
+        .eq('thumbnail_status', 'ready');
+
+      if (error) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to load thumbnails', details: error.message }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // The rendition keys are derived from the file's own object, like generate-thumbnail
+      // writes them, so only renditions in the owner's account are handed out
+      const getRenditionKey = variant === 'preview' ? getPreviewKey : getThumbnailKey;
+      const urls = Object.fromEntries(
+        await Promise.all(
+          (files ?? [])
+            .filter((file: { user_id: string; s3_key: string }) =>
+              file.s3_key.startsWith(`${file.user_id}/`)
+            )
+            .map(async (file: { id: string; s3_key: string }) => [
+              file.id,
+              await s3Client.presignedGetObject(getRenditionKey(file.s3_key), {
+                expirySeconds: 3600, // 1 hour
+              }),
+            ])
+        )
+      );
+
+      return new Response(JSON.stringify({ urls }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Mode 15: Permanently delete a folder and everything below it, with the S3 objects no
+    // other file points at. Objects that fail to delete are returned in failedKeys with a 207;
+    // they stay queued and the drain-deletions job retries them.
+    if (body.action === 'delete-folder') {
+      const { folderId } = body;
+      if (!folderId) {
+        return new Response(JSON.stringify({ error: 'folderId is required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: folder } = await supabaseClient
+        .from('folders')
+        .select('id, user_id')
+        .eq('id', folderId)
+        .maybeSingle();
+
+      if (!folder) {
+        return new Response(JSON.stringify({ error: 'Folder not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (folder.user_id !== user.id) {
+        const { data: canEdit } = await supabaseClient.rpc('can_edit_folder', {
+          p_folder_id: folder.id,
+        });
+
+        if (!canEdit) {
+          return new Response(JSON.stringify({ error: 'Forbidden' }), {
+            status: 403,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
+      const result = await deleteFolderForever(
+        supabaseClient,
+        createServiceClient(),
+        s3Client,
+        folder.id
+      );
+
+      return new Response(JSON.stringify(result), {
+        status: result.failedKeys.length > 0 ? 207 : 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Mode 16: Presign the upload of the frame a video's or PDF's renditions are made from.
+    // Only for an object just uploaded by the caller: once a file points at it, its frame
+    // would change the thumbnail of every file with the same contents.
+    if (body.action === 'get-frame-upload-url') {
+      const { s3Key, fileType, folderId } = body;
+      if (!s3Key || !canRenderFromFrame(fileType ?? null)) {
+        return new Response(
+          JSON.stringify({ error: 's3Key and a video or PDF fileType are required' }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const ownerId = await getUploadOwner(supabaseClient, folderId ?? null, user.id);
+      if (!ownerId) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (!s3Key.startsWith(`${ownerId}/`)) {
+        return new Response(JSON.stringify({ error: 'Forbidden', code: 'INVALID_KEY' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: blob, error: blobError } = await createServiceClient()
+        .from('blobs')
+        .select('id')
+        .eq('s3_key', s3Key)
+        .maybeSingle();
+      if (blobError) throw blobError;
+
+      if (blob) {
+        return new Response(
+          JSON.stringify({ error: 'The object is already in use', code: 'OBJECT_IN_USE' }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const { url, fields } = await s3Client.presignedPostObject(getFrameKey(s3Key), {
+        expirySeconds: 600,
+        fields: { 'Content-Type': 'image/jpeg' },
+        conditions: [['content-length-range', 0, MAX_FRAME_BYTES]],
+      });
+
+      return new Response(JSON.stringify({ uploadUrl: url, formData: fields }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
     return new Response(JSON.stringify({ error: 'Invalid action' }), {
@@ -0,0 +1,124 @@
+-- Soft delete: trashed rows keep their place in the tree until they are purged
+ALTER TABLE folders ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE files ADD COLUMN deleted_at TIMESTAMPTZ;
+
+-- Names only need to be unique among items that are not in the trash
+ALTER TABLE folders DROP CONSTRAINT folders_user_id_parent_id_name_key;
+ALTER TABLE files DROP CONSTRAINT files_user_id_folder_id_name_key;
+
+CREATE UNIQUE INDEX folders_user_id_parent_id_name_key
+    ON folders(user_id, parent_id, name)
+    WHERE deleted_at IS NULL;
+CREATE UNIQUE INDEX files_user_id_folder_id_name_key
+    ON files(user_id, folder_id, name)
+    WHERE deleted_at IS NULL;
+
+-- Indexes for the trash view and the purge job
+CREATE INDEX idx_folders_deleted_at ON folders(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_files_deleted_at ON files(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Ids of a folder and every folder below it
+CREATE OR REPLACE FUNCTION folder_subtree_ids(p_folder_id UUID)
+RETURNS SETOF UUID AS $$
+    WITH RECURSIVE subtree AS (
+        SELECT id FROM folders WHERE id = p_folder_id
+        UNION
+        SELECT f.id FROM folders f JOIN subtree s ON f.parent_id = s.id
+    )
+    SELECT id FROM subtree;
+$$ LANGUAGE sql STABLE;
+
+-- Move a folder and its contents to the trash. Everything trashed by one call shares the
+-- same deleted_at, which is how restore_folder knows what to bring back.
+CREATE OR REPLACE FUNCTION trash_folder(p_folder_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    trashed_at TIMESTAMPTZ := NOW();
+BEGIN
+    UPDATE folders SET deleted_at = trashed_at
+    WHERE id IN (SELECT folder_subtree_ids(p_folder_id)) AND deleted_at IS NULL;
+
+    UPDATE files SET deleted_at = trashed_at
+    WHERE folder_id IN (SELECT folder_subtree_ids(p_folder_id)) AND deleted_at IS NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Restore a trashed folder. Items that were trashed separately stay in the trash.
+CREATE OR REPLACE FUNCTION restore_folder(p_folder_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    trashed_at TIMESTAMPTZ;
+BEGIN
+    SELECT deleted_at INTO trashed_at FROM folders WHERE id = p_folder_id;
+    IF trashed_at IS NULL THEN
+        RETURN;
+    END IF;
+
+    -- If the parent is still in the trash, bring the folder back at the root
+    UPDATE folders SET parent_id = NULL
+    WHERE id = p_folder_id
+      AND parent_id IN (SELECT id FROM folders WHERE deleted_at IS NOT NULL);
+
+    UPDATE folders SET deleted_at = NULL
+    WHERE id IN (SELECT folder_subtree_ids(p_folder_id)) AND deleted_at = trashed_at;
+
+    UPDATE files SET deleted_at = NULL
+    WHERE folder_id IN (SELECT folder_subtree_ids(p_folder_id)) AND deleted_at = trashed_at;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION restore_file(p_file_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE files
+    SET deleted_at = NULL,
+        folder_id = CASE
+            WHEN folder_id IN (SELECT id FROM folders WHERE deleted_at IS NOT NULL) THEN NULL
+            ELSE folder_id
+        END
+    WHERE id = p_file_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Top-level trash entries: items whose parent was not trashed along with them
+CREATE OR REPLACE FUNCTION trashed_folders()
+RETURNS SETOF folders AS $$
+    SELECT f.*
+    FROM folders f
+    LEFT JOIN folders p ON p.id = f.parent_id
+    WHERE f.deleted_at IS NOT NULL
+      AND (p.id IS NULL OR p.deleted_at IS DISTINCT FROM f.deleted_at);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION trashed_files()
+RETURNS SETOF files AS $$
+    SELECT f.*
+    FROM files f
+    LEFT JOIN folders p ON p.id = f.folder_id
+    WHERE f.deleted_at IS NOT NULL
+      AND (p.id IS NULL OR p.deleted_at IS DISTINCT FROM f.deleted_at);
+$$ LANGUAGE sql STABLE;
+
+-- Purge expired trash every night. The project URL and service role key are read from Vault:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+    'purge-trash',
+    '0 3 * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/purge-trash',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (
+                SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+            )
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
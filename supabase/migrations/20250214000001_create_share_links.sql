@@ -0,0 +1,47 @@
+-- Public links that let anyone with the token download a single file
+CREATE TABLE share_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    password_hash TEXT,
+    expires_at TIMESTAMPTZ,
+    max_downloads INTEGER CHECK (max_downloads IS NULL OR max_downloads > 0),
+    download_count INTEGER NOT NULL DEFAULT 0,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_share_links_file_id ON share_links(file_id);
+CREATE INDEX idx_share_links_user_id ON share_links(user_id);
+
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+-- Share links policies (tokens are resolved by the share-link function with the service role)
+CREATE POLICY "Users can view their own share links"
+    ON share_links FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own share links"
+    ON share_links FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own share links"
+    ON share_links FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- Count one download. Returns true only while the link is still usable, so concurrent
+-- requests cannot go past max_downloads.
+CREATE OR REPLACE FUNCTION consume_share_link(p_link_id UUID)
+RETURNS BOOLEAN AS $$
+    UPDATE share_links
+    SET download_count = download_count + 1
+    WHERE id = p_link_id
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > NOW())
+      AND (max_downloads IS NULL OR download_count < max_downloads)
+    RETURNING TRUE;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION consume_share_link(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,241 @@
+-- Folder sharing: members get a role on a folder that also applies to everything below it.
+-- The folder's user_id stays the owner; items created inside a shared folder belong to that owner.
+CREATE TABLE folder_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    folder_id UUID NOT NULL REFERENCES folders(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'editor', 'owner')),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(folder_id, user_id)
+);
+
+CREATE INDEX idx_folder_members_user_id ON folder_members(user_id);
+
+-- Effective role of the current user on a folder: 'owner' if they own it or any ancestor,
+-- otherwise the strongest membership on the folder or one of its ancestors, or NULL.
+-- SECURITY DEFINER so policies can walk the tree without recursing into RLS.
+CREATE OR REPLACE FUNCTION folder_role(p_folder_id UUID)
+RETURNS TEXT AS $$
+    WITH RECURSIVE ancestors AS (
+        SELECT id, parent_id, user_id FROM folders WHERE id = p_folder_id
+        UNION
+        SELECT f.id, f.parent_id, f.user_id FROM folders f JOIN ancestors a ON f.id = a.parent_id
+    )
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM ancestors WHERE user_id = auth.uid()) THEN 'owner'
+        ELSE (
+            SELECT m.role
+            FROM folder_members m
+            JOIN ancestors a ON a.id = m.folder_id
+            WHERE m.user_id = auth.uid()
+            ORDER BY CASE m.role WHEN 'owner' THEN 3 WHEN 'editor' THEN 2 ELSE 1 END DESC
+            LIMIT 1
+        )
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit_folder(p_folder_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(folder_role(p_folder_id) IN ('editor', 'owner'), FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- New items inherit the owner of the folder they are created in. Moves are checked here
+-- rather than in the policies because a policy cannot see where an item is moving from:
+-- the destination must be editable, and items never change owner (their subtree would not).
+CREATE OR REPLACE FUNCTION inherit_folder_owner()
+RETURNS TRIGGER AS $$
+DECLARE
+    new_parent_id UUID;
+    old_parent_id UUID;
+BEGIN
+    IF TG_TABLE_NAME = 'folders' THEN
+        new_parent_id := NEW.parent_id;
+    ELSE
+        new_parent_id := NEW.folder_id;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF new_parent_id IS NOT NULL THEN
+            SELECT user_id INTO NEW.user_id FROM folders WHERE id = new_parent_id;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+        RAISE EXCEPTION 'The owner of an item cannot be changed' USING ERRCODE = '42501';
+    END IF;
+
+    IF TG_TABLE_NAME = 'folders' THEN
+        old_parent_id := OLD.parent_id;
+    ELSE
+        old_parent_id := OLD.folder_id;
+    END IF;
+
+    IF new_parent_id IS NOT DISTINCT FROM old_parent_id THEN
+        RETURN NEW;
+    END IF;
+
+    IF new_parent_id IS NULL THEN
+        IF auth.uid() IS DISTINCT FROM OLD.user_id THEN
+            RAISE EXCEPTION 'Only the owner can move items to the top level'
+                USING ERRCODE = '42501';
+        END IF;
+    ELSIF NOT can_edit_folder(new_parent_id) THEN
+        RAISE EXCEPTION 'You do not have permission to move items into that folder'
+            USING ERRCODE = '42501';
+    ELSIF (SELECT user_id FROM folders WHERE id = new_parent_id) IS DISTINCT FROM OLD.user_id THEN
+        RAISE EXCEPTION 'Items cannot be moved into a folder owned by another user'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_folders_inherit_owner
+    BEFORE INSERT OR UPDATE OF parent_id, user_id ON folders
+    FOR EACH ROW
+    EXECUTE FUNCTION inherit_folder_owner();
+
+CREATE TRIGGER trigger_files_inherit_owner
+    BEFORE INSERT OR UPDATE OF folder_id, user_id ON files
+    FOR EACH ROW
+    EXECUTE FUNCTION inherit_folder_owner();
+
+-- Replace the owner-only policies with membership-aware ones
+DROP POLICY "Users can view their own folders" ON folders;
+DROP POLICY "Users can insert their own folders" ON folders;
+DROP POLICY "Users can update their own folders" ON folders;
+DROP POLICY "Users can delete their own folders" ON folders;
+DROP POLICY "Users can view their own files" ON files;
+DROP POLICY "Users can insert their own files" ON files;
+DROP POLICY "Users can update their own files" ON files;
+DROP POLICY "Users can delete their own files" ON files;
+
+-- Folders policies
+CREATE POLICY "Users can view folders they own or were shared"
+    ON folders FOR SELECT
+    USING (auth.uid() = user_id OR folder_role(id) IS NOT NULL);
+
+CREATE POLICY "Users can create folders in folders they can edit"
+    ON folders FOR INSERT
+    WITH CHECK (
+        CASE WHEN parent_id IS NULL THEN auth.uid() = user_id ELSE can_edit_folder(parent_id) END
+    );
+
+CREATE POLICY "Users can update folders they can edit"
+    ON folders FOR UPDATE
+    USING (auth.uid() = user_id OR can_edit_folder(id))
+    WITH CHECK (auth.uid() = user_id OR can_edit_folder(id));
+
+CREATE POLICY "Users can delete folders they can edit"
+    ON folders FOR DELETE
+    USING (auth.uid() = user_id OR can_edit_folder(id));
+
+-- Files policies
+CREATE POLICY "Users can view files they own or were shared"
+    ON files FOR SELECT
+    USING (auth.uid() = user_id OR (folder_id IS NOT NULL AND folder_role(folder_id) IS NOT NULL));
+
+CREATE POLICY "Users can create files in folders they can edit"
+    ON files FOR INSERT
+    WITH CHECK (
+        CASE WHEN folder_id IS NULL THEN auth.uid() = user_id ELSE can_edit_folder(folder_id) END
+    );
+
+CREATE POLICY "Users can update files they can edit"
+    ON files FOR UPDATE
+    USING (auth.uid() = user_id OR (folder_id IS NOT NULL AND can_edit_folder(folder_id)))
+    WITH CHECK (auth.uid() = user_id OR (folder_id IS NOT NULL AND can_edit_folder(folder_id)));
+
+CREATE POLICY "Users can delete files they can edit"
+    ON files FOR DELETE
+    USING (auth.uid() = user_id OR (folder_id IS NOT NULL AND can_edit_folder(folder_id)));
+
+-- Folder members policies (owners manage members, anyone can leave a folder)
+ALTER TABLE folder_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view who else has access"
+    ON folder_members FOR SELECT
+    USING (auth.uid() = user_id OR folder_role(folder_id) IS NOT NULL);
+
+CREATE POLICY "Owners can update members"
+    ON folder_members FOR UPDATE
+    USING (folder_role(folder_id) = 'owner')
+    WITH CHECK (folder_role(folder_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+    ON folder_members FOR DELETE
+    USING (auth.uid() = user_id OR folder_role(folder_id) = 'owner');
+
+-- Invite someone by email. Inserts go through this function because looking up
+-- another account's id needs access to auth.users.
+CREATE OR REPLACE FUNCTION share_folder(p_folder_id UUID, p_email TEXT, p_role TEXT)
+RETURNS folder_members AS $$
+DECLARE
+    member_id UUID;
+    result folder_members;
+BEGIN
+    IF folder_role(p_folder_id) IS DISTINCT FROM 'owner' THEN
+        RAISE EXCEPTION 'Only owners can share this folder' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT id INTO member_id FROM auth.users WHERE lower(email) = lower(trim(p_email));
+    IF member_id IS NULL THEN
+        RAISE EXCEPTION 'No Rapid Storage account uses that email' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF member_id = (SELECT user_id FROM folders WHERE id = p_folder_id) THEN
+        RAISE EXCEPTION 'The folder owner already has access' USING ERRCODE = '23505';
+    END IF;
+
+    INSERT INTO folder_members (folder_id, user_id, role, invited_by)
+    VALUES (p_folder_id, member_id, p_role, auth.uid())
+    ON CONFLICT (folder_id, user_id) DO UPDATE SET role = EXCLUDED.role
+    RETURNING * INTO result;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Members of a folder with their emails, for the sharing sheet
+CREATE OR REPLACE FUNCTION folder_members_with_email(p_folder_id UUID)
+RETURNS TABLE (
+    id UUID,
+    folder_id UUID,
+    user_id UUID,
+    role TEXT,
+    email TEXT,
+    created_at TIMESTAMPTZ
+) AS $$
+    SELECT m.id, m.folder_id, m.user_id, m.role, u.email::TEXT, m.created_at
+    FROM folder_members m
+    JOIN auth.users u ON u.id = m.user_id
+    WHERE m.folder_id = p_folder_id
+      AND folder_role(p_folder_id) IS NOT NULL
+    ORDER BY m.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Folders shared directly with the current user, for the "Shared with me" section
+CREATE OR REPLACE FUNCTION shared_folders()
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    parent_id UUID,
+    user_id UUID,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ,
+    deleted_at TIMESTAMPTZ,
+    role TEXT,
+    owner_email TEXT
+) AS $$
+    SELECT f.id, f.name, f.parent_id, f.user_id, f.created_at, f.updated_at, f.deleted_at,
+           m.role, u.email::TEXT
+    FROM folder_members m
+    JOIN folders f ON f.id = m.folder_id
+    JOIN auth.users u ON u.id = f.user_id
+    WHERE m.user_id = auth.uid()
+      AND f.deleted_at IS NULL
+    ORDER BY f.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,83 @@
+-- Storage allowance per account. Accounts without a row get default_storage_quota().
+-- Rows are managed with the service role, users can only read their own.
+CREATE TABLE user_quotas (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    quota_bytes BIGINT NOT NULL CHECK (quota_bytes >= 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER trigger_user_quotas_updated_at
+    BEFORE UPDATE ON user_quotas
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE user_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quota"
+    ON user_quotas FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION default_storage_quota()
+RETURNS BIGINT AS $$
+    SELECT 10::BIGINT * 1024 * 1024 * 1024; -- 10GB
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Bytes stored by an account and its allowance. Trashed files still count until they are purged.
+CREATE OR REPLACE FUNCTION account_storage(p_user_id UUID)
+RETURNS TABLE (used_bytes BIGINT, quota_bytes BIGINT) AS $$
+    SELECT
+        (SELECT COALESCE(SUM(size_bytes), 0)::BIGINT FROM files WHERE user_id = p_user_id),
+        COALESCE(
+            (SELECT q.quota_bytes FROM user_quotas q WHERE q.user_id = p_user_id),
+            default_storage_quota()
+        );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION account_storage(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Usage of the account an upload into p_folder_id would be charged to: the folder owner for
+-- shared folders, the caller at the root.
+CREATE OR REPLACE FUNCTION storage_usage(p_folder_id UUID DEFAULT NULL)
+RETURNS TABLE (used_bytes BIGINT, quota_bytes BIGINT) AS $$
+DECLARE
+    owner_id UUID := auth.uid();
+BEGIN
+    IF p_folder_id IS NOT NULL THEN
+        IF NOT can_edit_folder(p_folder_id) THEN
+            RAISE EXCEPTION 'You do not have permission to upload to this folder'
+                USING ERRCODE = '42501';
+        END IF;
+        SELECT user_id INTO owner_id FROM folders WHERE id = p_folder_id;
+    END IF;
+
+    RETURN QUERY SELECT * FROM account_storage(owner_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Final check when a file record is created. The advisory lock serialises inserts per account
+-- so parallel uploads cannot each see room for themselves and overshoot together.
+CREATE OR REPLACE FUNCTION enforce_storage_quota()
+RETURNS TRIGGER AS $$
+DECLARE
+    usage RECORD;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('storage_quota:' || NEW.user_id::TEXT));
+
+    SELECT * INTO usage FROM account_storage(NEW.user_id);
+    IF usage.used_bytes + NEW.size_bytes > usage.quota_bytes THEN
+        RAISE EXCEPTION 'Storage quota exceeded'
+            USING ERRCODE = '53400',
+                  DETAIL = format('%s of %s bytes used', usage.used_bytes, usage.quota_bytes);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs after trigger_files_inherit_owner (triggers fire in name order) so the quota is
+-- charged to the final owner
+CREATE TRIGGER trigger_files_storage_quota
+    BEFORE INSERT ON files
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_storage_quota();
@@ -0,0 +1,3 @@
+-- SHA-256 of the stored object, base64 encoded as S3 reports it. Multipart uploads use S3's
+-- composite format: the hash of the part hashes followed by "-<part count>".
+ALTER TABLE files ADD COLUMN checksum_sha256 TEXT;
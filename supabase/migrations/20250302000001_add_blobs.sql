@@ -0,0 +1,93 @@
+-- Stored S3 objects. Files with the same content point at the same object through their
+-- s3_key, and ref_count tracks how many file rows do. An object is only deleted from S3 once
+-- its count reaches zero (see purgeUnreferencedBlobs in the edge functions).
+-- Blobs belong to the account that owns the files, so a known hash cannot be used to reach
+-- another account's data.
+CREATE TABLE blobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    s3_key TEXT NOT NULL UNIQUE,
+    checksum_sha256 TEXT,
+    size_bytes BIGINT NOT NULL,
+    ref_count INTEGER NOT NULL DEFAULT 0 CHECK (ref_count >= 0),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_blobs_content ON blobs(user_id, checksum_sha256, size_bytes);
+CREATE INDEX idx_blobs_unreferenced ON blobs(user_id) WHERE ref_count = 0;
+
+-- Objects uploaded before blobs existed, each referenced by exactly one file
+INSERT INTO blobs (user_id, s3_key, checksum_sha256, size_bytes, ref_count)
+SELECT user_id, s3_key, checksum_sha256, size_bytes, COUNT(*)
+FROM files
+GROUP BY user_id, s3_key, checksum_sha256, size_bytes;
+
+-- Keeps ref_count in step with the file rows. Runs after the owner triggers so the blob is
+-- registered to the file's final owner.
+CREATE OR REPLACE FUNCTION track_blob_references()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        UPDATE blobs SET ref_count = ref_count - 1 WHERE s3_key = OLD.s3_key;
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        INSERT INTO blobs (user_id, s3_key, checksum_sha256, size_bytes, ref_count)
+        VALUES (NEW.user_id, NEW.s3_key, NEW.checksum_sha256, NEW.size_bytes, 1)
+        ON CONFLICT (s3_key) DO UPDATE SET ref_count = blobs.ref_count + 1;
+        RETURN NEW;
+    END IF;
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_files_blob_references
+    AFTER INSERT OR DELETE OR UPDATE OF s3_key ON files
+    FOR EACH ROW
+    EXECUTE FUNCTION track_blob_references();
+
+-- Blobs are written by the trigger above. Users can see their own and clear out the
+-- unreferenced ones once the object is gone from S3.
+ALTER TABLE blobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own blobs"
+    ON blobs FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own unreferenced blobs"
+    ON blobs FOR DELETE
+    USING (auth.uid() = user_id AND ref_count = 0);
+
+-- Key of an object with this content in the account an upload into p_folder_id belongs to,
+-- so the new file can point at it instead of storing the bytes again. NULL if there is none.
+CREATE OR REPLACE FUNCTION find_blob(
+    p_folder_id UUID,
+    p_checksum_sha256 TEXT,
+    p_size_bytes BIGINT
+)
+RETURNS TEXT AS $$
+DECLARE
+    owner_id UUID := auth.uid();
+BEGIN
+    IF p_folder_id IS NOT NULL THEN
+        IF NOT can_edit_folder(p_folder_id) THEN
+            RAISE EXCEPTION 'You do not have permission to upload to this folder'
+                USING ERRCODE = '42501';
+        END IF;
+        SELECT user_id INTO owner_id FROM folders WHERE id = p_folder_id;
+    END IF;
+
+    -- Unreferenced blobs are about to be purged, so they are never reused
+    RETURN (
+        SELECT s3_key
+        FROM blobs
+        WHERE user_id = owner_id
+          AND checksum_sha256 = p_checksum_sha256
+          AND size_bytes = p_size_bytes
+          AND ref_count > 0
+        ORDER BY created_at
+        LIMIT 1
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
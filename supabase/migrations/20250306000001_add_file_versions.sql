@@ -0,0 +1,220 @@
+-- Version history. The files row always holds the current contents; uploading to an existing
+-- name or restoring an old version moves the current contents into file_versions first.
+ALTER TABLE files ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE files ADD COLUMN version_created_at TIMESTAMPTZ DEFAULT NOW();
+
+UPDATE files SET version_created_at = created_at;
+
+CREATE TABLE file_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    mime_type TEXT,
+    size_bytes BIGINT NOT NULL,
+    s3_key TEXT NOT NULL,
+    s3_url TEXT,
+    checksum_sha256 TEXT,
+    -- When these contents were uploaded, not when they were replaced
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(file_id, version)
+);
+
+CREATE INDEX idx_file_versions_user_id ON file_versions(user_id);
+
+-- Old versions keep their objects alive too
+CREATE TRIGGER trigger_file_versions_blob_references
+    AFTER INSERT OR DELETE ON file_versions
+    FOR EACH ROW
+    EXECUTE FUNCTION track_blob_references();
+
+-- Versions are visible to anyone who can see the file. They are only written through the
+-- functions below.
+ALTER TABLE file_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions of files they can see"
+    ON file_versions FOR SELECT
+    USING (EXISTS (SELECT 1 FROM files f WHERE f.id = file_id));
+
+CREATE OR REPLACE FUNCTION can_edit_file(p_file_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(
+        (SELECT user_id = auth.uid() OR (folder_id IS NOT NULL AND can_edit_folder(folder_id))
+         FROM files WHERE id = p_file_id),
+        FALSE
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Old versions count towards the quota, they are stored bytes like any other
+CREATE OR REPLACE FUNCTION account_storage(p_user_id UUID)
+RETURNS TABLE (used_bytes BIGINT, quota_bytes BIGINT) AS $$
+    SELECT
+        (SELECT COALESCE(SUM(size_bytes), 0)::BIGINT FROM files WHERE user_id = p_user_id)
+            + (SELECT COALESCE(SUM(size_bytes), 0)::BIGINT
+               FROM file_versions WHERE user_id = p_user_id),
+        COALESCE(
+            (SELECT q.quota_bytes FROM user_quotas q WHERE q.user_id = p_user_id),
+            default_storage_quota()
+        );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Raises the quota error if the account cannot take p_bytes more. The advisory lock
+-- serialises writes per account so parallel uploads cannot overshoot together.
+CREATE OR REPLACE FUNCTION check_storage_quota(p_user_id UUID, p_bytes BIGINT)
+RETURNS VOID AS $$
+DECLARE
+    usage RECORD;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('storage_quota:' || p_user_id::TEXT));
+
+    SELECT * INTO usage FROM account_storage(p_user_id);
+    IF usage.used_bytes + p_bytes > usage.quota_bytes THEN
+        RAISE EXCEPTION 'Storage quota exceeded'
+            USING ERRCODE = '53400',
+                  DETAIL = format('%s of %s bytes used', usage.used_bytes, usage.quota_bytes);
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION check_storage_quota(UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_storage_quota()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM check_storage_quota(NEW.user_id, NEW.size_bytes);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Point a file at new contents, keeping the current ones as a version. Shared by uploads
+-- and restores; callers check permissions and the quota.
+CREATE OR REPLACE FUNCTION replace_file_contents(
+    p_file files,
+    p_s3_key TEXT,
+    p_s3_url TEXT,
+    p_size_bytes BIGINT,
+    p_mime_type TEXT,
+    p_checksum_sha256 TEXT
+)
+RETURNS files AS $$
+DECLARE
+    result files;
+BEGIN
+    INSERT INTO file_versions (
+        file_id, user_id, version, mime_type, size_bytes, s3_key, s3_url, checksum_sha256,
+        created_at
+    )
+    VALUES (
+        p_file.id, p_file.user_id, p_file.version, p_file.mime_type, p_file.size_bytes,
+        p_file.s3_key, p_file.s3_url, p_file.checksum_sha256, p_file.version_created_at
+    );
+
+    UPDATE files
+    SET s3_key = p_s3_key,
+        s3_url = p_s3_url,
+        size_bytes = p_size_bytes,
+        mime_type = p_mime_type,
+        checksum_sha256 = p_checksum_sha256,
+        version = p_file.version + 1,
+        version_created_at = NOW()
+    WHERE id = p_file.id
+    RETURNING * INTO result;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION replace_file_contents(files, TEXT, TEXT, BIGINT, TEXT, TEXT)
+    FROM PUBLIC, anon, authenticated;
+
+-- A re-upload to an existing name: the uploaded object becomes the current version
+CREATE OR REPLACE FUNCTION add_file_version(
+    p_file_id UUID,
+    p_s3_key TEXT,
+    p_s3_url TEXT,
+    p_size_bytes BIGINT,
+    p_mime_type TEXT,
+    p_checksum_sha256 TEXT
+)
+RETURNS files AS $$
+DECLARE
+    current_file files;
+BEGIN
+    IF NOT can_edit_file(p_file_id) THEN
+        RAISE EXCEPTION 'You do not have permission to edit this file' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO current_file FROM files WHERE id = p_file_id AND deleted_at IS NULL FOR UPDATE;
+    IF current_file.id IS NULL THEN
+        RAISE EXCEPTION 'File not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    PERFORM check_storage_quota(current_file.user_id, p_size_bytes);
+
+    RETURN replace_file_contents(
+        current_file, p_s3_key, p_s3_url, p_size_bytes, p_mime_type, p_checksum_sha256
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Make an old version current again. The version stays in the history and the restored
+-- contents get a new version number, so nothing is lost.
+CREATE OR REPLACE FUNCTION restore_file_version(p_version_id UUID)
+RETURNS files AS $$
+DECLARE
+    target file_versions;
+    current_file files;
+BEGIN
+    SELECT * INTO target FROM file_versions WHERE id = p_version_id;
+    IF target.id IS NULL OR NOT can_edit_file(target.file_id) THEN
+        RAISE EXCEPTION 'Version not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO current_file FROM files
+    WHERE id = target.file_id AND deleted_at IS NULL
+    FOR UPDATE;
+    IF current_file.id IS NULL THEN
+        RAISE EXCEPTION 'File not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    PERFORM check_storage_quota(current_file.user_id, target.size_bytes);
+
+    RETURN replace_file_contents(
+        current_file, target.s3_key, target.s3_url, target.size_bytes, target.mime_type,
+        target.checksum_sha256
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Delete old versions of a file: all but the newest p_keep, and/or those uploaded before
+-- p_before. Returns how many were removed. Their objects go with the next purge once no
+-- other file or version refers to them.
+CREATE OR REPLACE FUNCTION prune_file_versions(
+    p_file_id UUID,
+    p_keep INTEGER DEFAULT NULL,
+    p_before TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    removed INTEGER;
+BEGIN
+    IF NOT can_edit_file(p_file_id) THEN
+        RAISE EXCEPTION 'You do not have permission to edit this file' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM file_versions v
+    WHERE v.file_id = p_file_id
+      AND (
+          (p_keep IS NOT NULL AND v.id NOT IN (
+              SELECT id FROM file_versions
+              WHERE file_id = p_file_id
+              ORDER BY version DESC
+              LIMIT p_keep
+          ))
+          OR (p_before IS NOT NULL AND v.created_at < p_before)
+      );
+
+    GET DIAGNOSTICS removed = ROW_COUNT;
+    RETURN removed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,54 @@
+-- Small renditions of each file, made by the generate-thumbnail function. The objects live
+-- under keys derived from s3_key ("thumbnails/<s3_key>.jpg", "previews/<s3_key>.jpg"), so
+-- files that share contents share renditions and they are purged with the blob.
+-- thumbnail_status: pending until the generator has run, then ready, unsupported (a type it
+-- cannot render) or failed.
+ALTER TABLE files ADD COLUMN thumbnail_s3_key TEXT;
+ALTER TABLE files ADD COLUMN preview_s3_key TEXT;
+ALTER TABLE files ADD COLUMN thumbnail_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (thumbnail_status IN ('pending', 'ready', 'unsupported', 'failed'));
+
+CREATE INDEX idx_files_thumbnail_pending ON files(created_at) WHERE thumbnail_status = 'pending';
+
+-- Renditions belong to the contents, so a new version needs new ones
+CREATE OR REPLACE FUNCTION reset_thumbnail()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.thumbnail_s3_key := NULL;
+    NEW.preview_s3_key := NULL;
+    NEW.thumbnail_status := 'pending';
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_files_reset_thumbnail
+    BEFORE UPDATE OF s3_key ON files
+    FOR EACH ROW
+    WHEN (NEW.s3_key IS DISTINCT FROM OLD.s3_key)
+    EXECUTE FUNCTION reset_thumbnail();
+
+-- Ask generate-thumbnail to render new contents. pg_net sends the request once the
+-- transaction commits; the URL and key come from Vault, as for the purge-trash job.
+CREATE OR REPLACE FUNCTION request_thumbnail()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/generate-thumbnail',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (
+                SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+            )
+        ),
+        body := jsonb_build_object('fileId', NEW.id)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_files_request_thumbnail
+    AFTER INSERT OR UPDATE OF s3_key ON files
+    FOR EACH ROW
+    WHEN (NEW.thumbnail_status = 'pending')
+    EXECUTE FUNCTION request_thumbnail();
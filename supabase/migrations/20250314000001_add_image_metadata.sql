@@ -0,0 +1,41 @@
+-- Details read from an image when generate-thumbnail renders it: dimensions, and where the
+-- file has EXIF, the capture date, camera, exposure and GPS position. NULL until then, and
+-- for files that are not images.
+ALTER TABLE files ADD COLUMN image_metadata JSONB;
+
+-- The metadata describes the contents, like the renditions, so it goes when they change
+CREATE OR REPLACE FUNCTION reset_thumbnail()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.thumbnail_s3_key := NULL;
+    NEW.preview_s3_key := NULL;
+    NEW.thumbnail_status := 'pending';
+    NEW.image_metadata := NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Images rendered before metadata existed go through the generator again. It reuses their
+-- renditions and only reads the metadata.
+UPDATE files SET thumbnail_status = 'pending'
+WHERE thumbnail_status = 'ready' AND image_metadata IS NULL;
+
+-- Work through pending files in the background: the backlog above, and any file whose
+-- request from the request_thumbnail trigger was lost
+SELECT cron.schedule(
+    'generate-thumbnails',
+    '*/10 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/generate-thumbnail',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (
+                SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+            )
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
@@ -0,0 +1,127 @@
+-- Search across folder names, file names and the text of documents, replacing the ILIKE
+-- filters in the app. Names are matched by words (full text) and by fragments (trigrams),
+-- so "rep" finds "Quarterly report.pdf" and "port" still finds it.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Text extracted from PDFs and text files by generate-thumbnail, NULL for anything else
+ALTER TABLE files ADD COLUMN content_text TEXT;
+
+-- Separators are spaced out first so "q3_report.final.pdf" gives the words q3, report,
+-- final and pdf instead of one token. Names outrank content.
+ALTER TABLE files ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', regexp_replace(name, '[._-]+', ' ', 'g')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(content_text, '')), 'C')
+) STORED;
+
+ALTER TABLE folders ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('simple', regexp_replace(name, '[._-]+', ' ', 'g'))
+) STORED;
+
+CREATE INDEX idx_files_search_vector ON files USING GIN (search_vector);
+CREATE INDEX idx_files_name_trgm ON files USING GIN (name gin_trgm_ops);
+CREATE INDEX idx_folders_search_vector ON folders USING GIN (search_vector);
+CREATE INDEX idx_folders_name_trgm ON folders USING GIN (name gin_trgm_ops);
+
+-- Extracted text describes the contents, so it goes with them like the renditions
+CREATE OR REPLACE FUNCTION reset_thumbnail()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.thumbnail_s3_key := NULL;
+    NEW.preview_s3_key := NULL;
+    NEW.thumbnail_status := 'pending';
+    NEW.image_metadata := NULL;
+    NEW.content_text := NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Existing documents go through the generator again to have their text read
+UPDATE files SET thumbnail_status = 'pending'
+WHERE content_text IS NULL
+  AND (mime_type = 'application/pdf' OR mime_type LIKE 'text/%'
+       OR mime_type IN ('application/json', 'application/xml', 'application/javascript'));
+
+-- "quart rep" becomes 'quart':* & 'rep':*, so results show while a word is being typed
+CREATE OR REPLACE FUNCTION search_tsquery(p_query TEXT)
+RETURNS TSQUERY AS $$
+    SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+    FROM regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') AS word
+    WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Folders from the top down to p_folder_id as [{id, name}]. This runs with the caller's
+-- rights, so the walk stops below the first folder they cannot see and a folder shared with
+-- them starts the path.
+CREATE OR REPLACE FUNCTION folder_path(p_folder_id UUID)
+RETURNS JSONB AS $$
+    WITH RECURSIVE ancestors AS (
+        SELECT id, name, parent_id, 0 AS depth FROM folders WHERE id = p_folder_id
+        UNION ALL
+        SELECT f.id, f.name, f.parent_id, a.depth + 1
+        FROM folders f
+        JOIN ancestors a ON f.id = a.parent_id
+    )
+    SELECT COALESCE(
+        jsonb_agg(jsonb_build_object('id', id, 'name', name) ORDER BY depth DESC),
+        '[]'::jsonb
+    )
+    FROM ancestors;
+$$ LANGUAGE sql STABLE;
+
+-- Folders and files the caller can see that match p_query, best first. path is where the
+-- item lives (see folder_path); snippet is the matching passage when a document's text
+-- matched, with the matched words between « and ». Runs with the caller's rights, so RLS decides what is searched.
+CREATE OR REPLACE FUNCTION search_items(p_query TEXT, p_limit INT DEFAULT 30, p_offset INT DEFAULT 0)
+RETURNS TABLE (
+    item_type TEXT,
+    id UUID,
+    name TEXT,
+    folder_id UUID,
+    mime_type TEXT,
+    size_bytes BIGINT,
+    created_at TIMESTAMPTZ,
+    path JSONB,
+    snippet TEXT,
+    rank REAL
+) AS $$
+    WITH terms AS (
+        SELECT
+            search_tsquery(p_query) AS tsq,
+            lower(trim(p_query)) AS term,
+            '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+                AS pattern
+    ),
+    matches AS (
+        SELECT 'folder'::TEXT AS item_type, f.id, f.name, f.parent_id AS folder_id,
+               NULL::TEXT AS mime_type, NULL::BIGINT AS size_bytes, f.created_at,
+               ts_rank(f.search_vector, t.tsq) + similarity(f.name, t.term) AS rank
+        FROM folders f, terms t
+        WHERE f.deleted_at IS NULL
+          AND (f.search_vector @@ t.tsq OR f.name ILIKE t.pattern)
+        UNION ALL
+        SELECT 'file', fi.id, fi.name, fi.folder_id, fi.mime_type, fi.size_bytes, fi.created_at,
+               ts_rank(fi.search_vector, t.tsq) + similarity(fi.name, t.term)
+        FROM files fi, terms t
+        WHERE fi.deleted_at IS NULL
+          AND (fi.search_vector @@ t.tsq OR fi.name ILIKE t.pattern)
+    ),
+    page AS (
+        SELECT * FROM matches
+        ORDER BY rank DESC, name, id
+        LIMIT p_limit OFFSET p_offset
+    )
+    -- Paths and snippets are only worked out for the page that is returned
+    SELECT p.item_type, p.id, p.name, p.folder_id, p.mime_type, p.size_bytes, p.created_at,
+           folder_path(p.folder_id),
+           (
+               SELECT ts_headline('simple', fi.content_text, t.tsq,
+                                  'MaxWords=24, MinWords=12, StartSel=«, StopSel=»')
+               FROM files fi
+               WHERE fi.id = p.id
+                 AND fi.content_text IS NOT NULL
+                 AND to_tsvector('simple', fi.content_text) @@ t.tsq
+           ),
+           p.rank::REAL
+    FROM page p, terms t
+    ORDER BY p.rank DESC, p.name, p.id;
+$$ LANGUAGE sql STABLE;
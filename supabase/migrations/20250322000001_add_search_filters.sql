@@ -0,0 +1,97 @@
+-- Filters for search_items, matching the filter sheet in the app. The function is replaced
+-- rather than overloaded so existing calls keep resolving to one function.
+--   p_mime_patterns    ILIKE patterns for files' mime_type, any of which may match
+--   p_min_size         inclusive, in bytes
+--   p_max_size         exclusive, in bytes
+--   p_date_field       'created_at' or 'updated_at', compared with p_date_from
+--   p_scope_folder_id  with p_scope = 'folder', only items in this folder or below it; NULL
+--                      means the caller's own top level and everything in it
+-- Folders have no type or size, so they are left out once either is filtered on.
+DROP FUNCTION search_items(TEXT, INT, INT);
+
+CREATE OR REPLACE FUNCTION search_items(
+    p_query TEXT,
+    p_limit INT DEFAULT 30,
+    p_offset INT DEFAULT 0,
+    p_mime_patterns TEXT[] DEFAULT NULL,
+    p_min_size BIGINT DEFAULT NULL,
+    p_max_size BIGINT DEFAULT NULL,
+    p_date_field TEXT DEFAULT 'created_at',
+    p_date_from TIMESTAMPTZ DEFAULT NULL,
+    p_scope TEXT DEFAULT 'everywhere',
+    p_scope_folder_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    item_type TEXT,
+    id UUID,
+    name TEXT,
+    folder_id UUID,
+    mime_type TEXT,
+    size_bytes BIGINT,
+    created_at TIMESTAMPTZ,
+    path JSONB,
+    snippet TEXT,
+    rank REAL
+) AS $$
+    WITH terms AS (
+        SELECT
+            search_tsquery(p_query) AS tsq,
+            lower(trim(p_query)) AS term,
+            '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+                AS pattern
+    ),
+    scope AS (
+        SELECT folder_subtree_ids(p_scope_folder_id) AS folder_id
+        WHERE p_scope = 'folder' AND p_scope_folder_id IS NOT NULL
+    ),
+    matches AS (
+        SELECT 'folder'::TEXT AS item_type, f.id, f.name, f.parent_id AS folder_id,
+               NULL::TEXT AS mime_type, NULL::BIGINT AS size_bytes, f.created_at,
+               ts_rank(f.search_vector, t.tsq) + similarity(f.name, t.term) AS rank
+        FROM folders f, terms t
+        WHERE f.deleted_at IS NULL
+          AND (f.search_vector @@ t.tsq OR f.name ILIKE t.pattern)
+          AND p_mime_patterns IS NULL AND p_min_size IS NULL AND p_max_size IS NULL
+          AND (p_date_from IS NULL
+               OR (CASE p_date_field WHEN 'updated_at' THEN f.updated_at ELSE f.created_at END)
+                  >= p_date_from)
+          AND (p_scope <> 'folder'
+               OR (p_scope_folder_id IS NULL AND f.user_id = auth.uid())
+               OR f.parent_id IN (SELECT folder_id FROM scope))
+        UNION ALL
+        SELECT 'file', fi.id, fi.name, fi.folder_id, fi.mime_type, fi.size_bytes, fi.created_at,
+               ts_rank(fi.search_vector, t.tsq) + similarity(fi.name, t.term)
+        FROM files fi, terms t
+        WHERE fi.deleted_at IS NULL
+          AND (fi.search_vector @@ t.tsq OR fi.name ILIKE t.pattern)
+          AND (p_mime_patterns IS NULL OR fi.mime_type ILIKE ANY (p_mime_patterns))
+          AND (p_min_size IS NULL OR fi.size_bytes >= p_min_size)
+          AND (p_max_size IS NULL OR fi.size_bytes < p_max_size)
+          AND (p_date_from IS NULL
+               OR (CASE p_date_field WHEN 'updated_at' THEN fi.updated_at ELSE fi.created_at END)
+                  >= p_date_from)
+          AND (p_scope <> 'folder'
+               OR (p_scope_folder_id IS NULL AND fi.user_id = auth.uid())
+               OR fi.folder_id IN (SELECT folder_id FROM scope))
+    ),
+    page AS (
+        SELECT * FROM matches
+        ORDER BY rank DESC, name, id
+        LIMIT p_limit OFFSET p_offset
+    )
+    -- Paths and snippets are only worked out for the page that is returned
+    SELECT p.item_type, p.id, p.name, p.folder_id, p.mime_type, p.size_bytes, p.created_at,
+           folder_path(p.folder_id),
+           (
+               SELECT ts_headline('simple', fi.content_text, t.tsq,
+                                  'MaxWords=24, MinWords=12, StartSel=«, StopSel=»')
+               FROM files fi
+               WHERE fi.id = p.id
+                 AND fi.content_text IS NOT NULL
+                 AND to_tsvector('simple', fi.content_text) @@ t.tsq
+           ),
+           p.rank::REAL
+    FROM page p, terms t
+    ORDER BY p.rank DESC, p.name, p.id;
+$$ LANGUAGE sql STABLE;
+
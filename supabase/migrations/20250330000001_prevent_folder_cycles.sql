@@ -0,0 +1,39 @@
+-- A folder moved into itself or a folder below it would form a loop that is no longer
+-- reachable from the top level, taking its whole subtree out of view. Moves into another
+-- user's folder are already rejected by inherit_folder_owner.
+--
+-- The walk goes up from the destination rather than down from the folder, which only
+-- visits its ancestors. It runs with definer rights so folders the caller cannot see are
+-- still followed. Moves within one owner's tree are serialized, otherwise two concurrent
+-- moves (A into B, B into A) could each pass the check and form a loop together.
+CREATE OR REPLACE FUNCTION prevent_folder_cycles()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.parent_id IS NULL OR NEW.parent_id IS NOT DISTINCT FROM OLD.parent_id THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('folder-moves:' || NEW.user_id::TEXT));
+
+    IF EXISTS (
+        WITH RECURSIVE ancestors AS (
+            SELECT id, parent_id FROM folders WHERE id = NEW.parent_id
+            UNION
+            SELECT f.id, f.parent_id
+            FROM folders f
+            JOIN ancestors a ON f.id = a.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'A folder cannot be moved into itself or one of its subfolders'
+            USING ERRCODE = '23514';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_folders_prevent_cycles
+    BEFORE UPDATE OF parent_id ON folders
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_folder_cycles();
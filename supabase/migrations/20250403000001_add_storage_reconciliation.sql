@@ -0,0 +1,60 @@
+-- Nightly check that the bucket and the database agree (see the reconcile-storage function).
+-- Objects nothing refers to are left behind when an upload succeeds but its file record is
+-- never created; rows can lose their object when a delete or an upload goes wrong part way.
+
+-- Set when reconciliation finds no object for the file's s3_key, cleared if it shows up again
+ALTER TABLE files ADD COLUMN object_missing_at TIMESTAMPTZ;
+
+-- New contents come with their own object, so the flag goes with the old ones
+CREATE OR REPLACE FUNCTION reset_thumbnail()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.thumbnail_s3_key := NULL;
+    NEW.preview_s3_key := NULL;
+    NEW.thumbnail_status := 'pending';
+    NEW.image_metadata := NULL;
+    NEW.content_text := NULL;
+    NEW.object_missing_at := NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Each run's report. Only the service role reads or writes it.
+CREATE TABLE storage_reconciliation_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    started_at TIMESTAMPTZ NOT NULL,
+    finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    dry_run BOOLEAN NOT NULL,
+    report JSONB NOT NULL
+);
+
+ALTER TABLE storage_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+-- Keys start with the uploader's id, the job reads the rows under one prefix at a time
+CREATE INDEX idx_blobs_s3_key_prefix ON blobs(s3_key text_pattern_ops);
+CREATE INDEX idx_files_s3_key_prefix ON files(s3_key text_pattern_ops);
+
+SELECT cron.schedule(
+    'reconcile-storage',
+    '0 4 * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/reconcile-storage',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (
+                SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+            )
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+-- Reports are kept for 90 days
+SELECT cron.schedule(
+    'prune-storage-reconciliation-runs',
+    '30 4 * * *',
+    $$ DELETE FROM storage_reconciliation_runs WHERE started_at < NOW() - INTERVAL '90 days' $$
+);
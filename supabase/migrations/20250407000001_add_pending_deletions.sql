@@ -0,0 +1,82 @@
+-- Outbox for S3 deletions. When the last file or version pointing at a blob is deleted, its
+-- object is queued here by the same transaction, so a delete either happens with its S3
+-- cleanup recorded or not at all. The drain-deletions function works through the queue
+-- every few minutes, retrying failed objects with a growing delay; callers never wait on S3.
+CREATE TABLE pending_deletions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Not a foreign key: the objects of a deleted account still have to go
+    user_id UUID NOT NULL,
+    s3_key TEXT NOT NULL UNIQUE,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_pending_deletions_due ON pending_deletions(next_attempt_at);
+
+-- Only the service role reads or writes the queue
+ALTER TABLE pending_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION enqueue_blob_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO pending_deletions (user_id, s3_key)
+    VALUES (NEW.user_id, NEW.s3_key)
+    ON CONFLICT (s3_key) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_blobs_enqueue_deletion
+    AFTER UPDATE OF ref_count ON blobs
+    FOR EACH ROW
+    WHEN (NEW.ref_count = 0 AND OLD.ref_count > 0)
+    EXECUTE FUNCTION enqueue_blob_deletion();
+
+-- Blobs that were already waiting for a purge
+INSERT INTO pending_deletions (user_id, s3_key)
+SELECT user_id, s3_key FROM blobs WHERE ref_count = 0
+ON CONFLICT (s3_key) DO NOTHING;
+
+-- The next due deletions for the worker. Claimed entries are pushed back by a lease, so the
+-- entries of a worker that dies part way come round again. Entries whose blob was referenced
+-- again in the meantime are dropped, the object is in use.
+CREATE OR REPLACE FUNCTION claim_pending_deletions(p_limit INT DEFAULT 100)
+RETURNS SETOF pending_deletions AS $$
+    DELETE FROM pending_deletions p
+    USING blobs b
+    WHERE b.s3_key = p.s3_key AND b.ref_count > 0;
+
+    UPDATE pending_deletions
+    SET next_attempt_at = NOW() + INTERVAL '10 minutes',
+        attempts = attempts + 1
+    WHERE id IN (
+        SELECT id FROM pending_deletions
+        WHERE next_attempt_at <= NOW()
+        ORDER BY next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION claim_pending_deletions(INT) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+    'drain-deletions',
+    '*/5 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/drain-deletions',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (
+                SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+            )
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
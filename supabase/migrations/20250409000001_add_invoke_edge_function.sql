@@ -0,0 +1,56 @@
+-- The scheduled jobs and the thumbnail trigger each built the same pg_net request to an edge
+-- function. They now go through one helper, so the Vault lookups and headers live in one place.
+
+-- Call an edge function with the service role, for scheduled jobs and triggers. pg_net sends
+-- the request once the transaction commits. The project URL and service role key are read
+-- from Vault, see the add_trash migration.
+CREATE OR REPLACE FUNCTION invoke_edge_function(p_name TEXT, p_body JSONB DEFAULT '{}')
+RETURNS BIGINT AS $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/' || p_name,
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (
+                SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+            )
+        ),
+        body := p_body
+    );
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Ask generate-thumbnail to render new contents
+CREATE OR REPLACE FUNCTION request_thumbnail()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM invoke_edge_function('generate-thumbnail', jsonb_build_object('fileId', NEW.id));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Scheduling a job under an existing name replaces its command
+SELECT cron.schedule(
+    'purge-trash',
+    '0 3 * * *',
+    $$ SELECT invoke_edge_function('purge-trash') $$
+);
+
+SELECT cron.schedule(
+    'generate-thumbnails',
+    '*/10 * * * *',
+    $$ SELECT invoke_edge_function('generate-thumbnail') $$
+);
+
+SELECT cron.schedule(
+    'reconcile-storage',
+    '0 4 * * *',
+    $$ SELECT invoke_edge_function('reconcile-storage') $$
+);
+
+SELECT cron.schedule(
+    'drain-deletions',
+    '*/5 * * * *',
+    $$ SELECT invoke_edge_function('drain-deletions') $$
+);
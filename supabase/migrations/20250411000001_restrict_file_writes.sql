@@ -0,0 +1,39 @@
+-- A file row is only trusted because upload-to-s3 checked its object in S3 first (key prefix,
+-- size, checksum), and the renditions, metadata and missing-object flag are written by the
+-- background functions. Users could skip all of that by inserting rows or repointing one
+-- through the API, so those writes are left to the service role. Users keep renaming, moving
+-- and trashing the files they can edit.
+REVOKE INSERT, UPDATE ON files FROM anon, authenticated;
+GRANT UPDATE (name, folder_id, deleted_at) ON files TO authenticated;
+
+DROP POLICY "Users can create files in folders they can edit" ON files;
+
+-- The uploaded key comes from the caller, so new versions are only added by upload-to-s3 with
+-- the service role, once it has verified the object and checked the caller can edit the file
+CREATE OR REPLACE FUNCTION add_file_version(
+    p_file_id UUID,
+    p_s3_key TEXT,
+    p_s3_url TEXT,
+    p_size_bytes BIGINT,
+    p_mime_type TEXT,
+    p_checksum_sha256 TEXT
+)
+RETURNS files AS $$
+DECLARE
+    current_file files;
+BEGIN
+    SELECT * INTO current_file FROM files WHERE id = p_file_id AND deleted_at IS NULL FOR UPDATE;
+    IF current_file.id IS NULL THEN
+        RAISE EXCEPTION 'File not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    PERFORM check_storage_quota(current_file.user_id, p_size_bytes);
+
+    RETURN replace_file_contents(
+        current_file, p_s3_key, p_s3_url, p_size_bytes, p_mime_type, p_checksum_sha256
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION add_file_version(UUID, TEXT, TEXT, BIGINT, TEXT, TEXT)
+    FROM PUBLIC, anon, authenticated;
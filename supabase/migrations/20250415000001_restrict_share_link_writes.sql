@@ -0,0 +1,7 @@
+-- Links are created and revoked by upload-to-s3, which checks the caller owns the file, and
+-- downloads are counted by share-link. Users could otherwise link files they only view, or
+-- reset a link's download count and revocation, so they only read their links.
+DROP POLICY "Users can insert their own share links" ON share_links;
+DROP POLICY "Users can update their own share links" ON share_links;
+
+REVOKE INSERT, UPDATE ON share_links FROM anon, authenticated;
@@ -0,0 +1,27 @@
+-- The quota was only checked when a file row was inserted, so a larger size written later
+-- went uncharged. Growth is now checked too, for the bytes added. New versions already pass
+-- this check in add_file_version; the old contents are in file_versions by the time the row
+-- changes, so both see the same total.
+CREATE OR REPLACE FUNCTION enforce_storage_quota()
+RETURNS TRIGGER AS $$
+DECLARE
+    added_bytes BIGINT := NEW.size_bytes;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        added_bytes := NEW.size_bytes - OLD.size_bytes;
+        IF added_bytes <= 0 THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    PERFORM check_storage_quota(NEW.user_id, added_bytes);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER trigger_files_storage_quota ON files;
+
+CREATE TRIGGER trigger_files_storage_quota
+    BEFORE INSERT OR UPDATE OF size_bytes ON files
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_storage_quota();
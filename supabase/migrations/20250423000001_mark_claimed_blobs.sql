@@ -0,0 +1,68 @@
+-- A blob could be referenced again after drain-deletions claimed it but before its object was
+-- deleted, leaving the new file pointing at nothing. Claiming now marks the blob under its row
+-- lock, and a marked blob can never be referenced again: find_blob only offers blobs in use,
+-- and the reference trigger refuses it. The upload then fails and is retried from the start,
+-- storing its own copy of the bytes.
+ALTER TABLE blobs ADD COLUMN deleting_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION track_blob_references()
+RETURNS TRIGGER AS $$
+DECLARE
+    deleting_since TIMESTAMPTZ;
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        UPDATE blobs SET ref_count = ref_count - 1 WHERE s3_key = OLD.s3_key;
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        INSERT INTO blobs (user_id, s3_key, checksum_sha256, size_bytes, ref_count)
+        VALUES (NEW.user_id, NEW.s3_key, NEW.checksum_sha256, NEW.size_bytes, 1)
+        ON CONFLICT (s3_key) DO UPDATE SET ref_count = blobs.ref_count + 1
+        RETURNING deleting_at INTO deleting_since;
+
+        IF deleting_since IS NOT NULL THEN
+            RAISE EXCEPTION 'The stored object is being deleted'
+                USING ERRCODE = '55006';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only entries whose blob is still unreferenced once locked, or has no row at all, are handed
+-- out. The others stay leased and are dropped by the next claim.
+CREATE OR REPLACE FUNCTION claim_pending_deletions(p_limit INT DEFAULT 100)
+RETURNS SETOF pending_deletions AS $$
+    DELETE FROM pending_deletions p
+    USING blobs b
+    WHERE b.s3_key = p.s3_key AND b.ref_count > 0;
+
+    WITH leased AS (
+        UPDATE pending_deletions
+        SET next_attempt_at = NOW() + INTERVAL '10 minutes',
+            attempts = attempts + 1
+        WHERE id IN (
+            SELECT id FROM pending_deletions
+            WHERE next_attempt_at <= NOW()
+            ORDER BY next_attempt_at
+            LIMIT p_limit
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+    ),
+    marked AS (
+        UPDATE blobs b
+        SET deleting_at = COALESCE(b.deleting_at, NOW())
+        FROM leased l
+        WHERE b.s3_key = l.s3_key AND b.ref_count = 0
+        RETURNING b.s3_key
+    )
+    SELECT l.*
+    FROM leased l
+    WHERE l.s3_key IN (SELECT s3_key FROM marked)
+       OR NOT EXISTS (SELECT 1 FROM blobs b WHERE b.s3_key = l.s3_key);
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION claim_pending_deletions(INT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,47 @@
+-- Reusing stored content only needed a checksum and size, so an editor of a shared folder who
+-- knew a file's hash could get the owner's private object without having its bytes. Content
+-- is now only reused for the account member who uploaded it, who has proven they hold it.
+ALTER TABLE blobs ADD COLUMN uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Keys used to start with the uploader's id, before objects moved to the owner's account
+UPDATE blobs b
+SET uploaded_by = u.id
+FROM auth.users u
+WHERE u.id::TEXT = split_part(b.s3_key, '/', 1);
+
+CREATE OR REPLACE FUNCTION find_blob(
+    p_folder_id UUID,
+    p_checksum_sha256 TEXT,
+    p_size_bytes BIGINT
+)
+RETURNS TEXT AS $$
+DECLARE
+    owner_id UUID := auth.uid();
+BEGIN
+    IF p_folder_id IS NOT NULL THEN
+        IF NOT can_edit_folder(p_folder_id) THEN
+            RAISE EXCEPTION 'You do not have permission to upload to this folder'
+                USING ERRCODE = '42501';
+        END IF;
+        SELECT user_id INTO owner_id FROM folders WHERE id = p_folder_id;
+    END IF;
+
+    -- Unreferenced blobs are queued for deletion, so they are never reused
+    RETURN (
+        SELECT s3_key
+        FROM blobs
+        WHERE user_id = owner_id
+          AND uploaded_by = auth.uid()
+          AND checksum_sha256 = p_checksum_sha256
+          AND size_bytes = p_size_bytes
+          AND ref_count > 0
+          AND deleting_at IS NULL
+        ORDER BY created_at
+        LIMIT 1
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- add_blobs points at purgeUnreferencedBlobs, which the pending_deletions outbox replaced
+COMMENT ON TABLE blobs IS
+    'Stored S3 objects. An object is deleted once its ref_count reaches zero, by drainPendingDeletions in the edge functions.';
@@ -0,0 +1,27 @@
+-- Reconciliation no longer walks every account in one invocation, which does not fit in an
+-- edge function's time limit. Each run covers the accounts it has time for and records the
+-- next one; the following run carries on from there until the pass reaches the last account.
+ALTER TABLE storage_reconciliation_runs ADD COLUMN pass_started_at TIMESTAMPTZ;
+-- NULL once the pass is complete
+ALTER TABLE storage_reconciliation_runs ADD COLUMN next_user_id UUID;
+
+CREATE INDEX idx_storage_reconciliation_runs_started_at
+    ON storage_reconciliation_runs(dry_run, started_at DESC);
+
+-- Account ids in order, a page at a time, for the service role
+CREATE OR REPLACE FUNCTION reconciliation_user_ids(p_from UUID, p_limit INT)
+RETURNS SETOF UUID AS $$
+    SELECT id FROM auth.users
+    WHERE p_from IS NULL OR id >= p_from
+    ORDER BY id
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION reconciliation_user_ids(UUID, INT) FROM PUBLIC, anon, authenticated;
+
+-- Every five minutes in the early hours, a run after the night's pass is done returns at once
+SELECT cron.schedule(
+    'reconcile-storage',
+    '*/5 4-5 * * *',
+    $$ SELECT invoke_edge_function('reconcile-storage') $$
+);
@@ -0,0 +1,124 @@
+-- Restoring an item whose folder is still in the trash used to move it to the top level,
+-- which only its owner may do and which took items out of the shared folder they were in.
+-- It now goes to the nearest folder above it that is not in the trash and the caller can
+-- edit, and to the top level only when there is none and the caller owns the item.
+-- An item whose name has been taken there since it was trashed is restored as "name (n)",
+-- like uploads that keep both, instead of failing on the unique index.
+
+-- The nearest folder at or above p_folder_id that is not in the trash and the caller can edit
+CREATE OR REPLACE FUNCTION restore_destination(p_folder_id UUID)
+RETURNS UUID AS $$
+    WITH RECURSIVE ancestors AS (
+        SELECT id, parent_id, deleted_at, 0 AS depth FROM folders WHERE id = p_folder_id
+        UNION
+        SELECT f.id, f.parent_id, f.deleted_at, a.depth + 1
+        FROM folders f
+        JOIN ancestors a ON f.id = a.parent_id
+    )
+    SELECT id FROM ancestors
+    WHERE deleted_at IS NULL AND can_edit_folder(id)
+    ORDER BY depth
+    LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- "name (n).ext" for files, "name (n)" for folders
+CREATE OR REPLACE FUNCTION numbered_name(p_name TEXT, p_n INT, p_keep_extension BOOLEAN)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN p_keep_extension AND p_name ~ '^.+\.[^.]*$' THEN
+            substring(p_name FROM '^(.+)\.[^.]*$') || ' (' || p_n || ')'
+                || substring(p_name FROM '^.+(\.[^.]*)$')
+        ELSE p_name || ' (' || p_n || ')'
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Restore a trashed folder. Items that were trashed separately stay in the trash.
+CREATE OR REPLACE FUNCTION restore_folder(p_folder_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    folder folders%ROWTYPE;
+    destination_id UUID;
+    restored_name TEXT;
+    n INT := 0;
+BEGIN
+    SELECT * INTO folder FROM folders WHERE id = p_folder_id;
+    IF folder.deleted_at IS NULL THEN
+        RETURN;
+    END IF;
+
+    destination_id := folder.parent_id;
+    IF destination_id IN (SELECT id FROM folders WHERE deleted_at IS NOT NULL) THEN
+        destination_id := restore_destination(destination_id);
+
+        IF destination_id IS NULL AND auth.uid() IS DISTINCT FROM folder.user_id THEN
+            RAISE EXCEPTION 'The folder this was in is in the trash. Restore that folder first.'
+                USING ERRCODE = '42501';
+        END IF;
+    END IF;
+
+    restored_name := folder.name;
+    WHILE EXISTS (
+        SELECT 1 FROM folders
+        WHERE user_id = folder.user_id
+          AND parent_id IS NOT DISTINCT FROM destination_id
+          AND name = restored_name
+          AND deleted_at IS NULL
+    ) LOOP
+        n := n + 1;
+        restored_name := numbered_name(folder.name, n, FALSE);
+    END LOOP;
+
+    UPDATE folders SET parent_id = destination_id, name = restored_name
+    WHERE id = p_folder_id
+      AND (parent_id IS DISTINCT FROM destination_id OR name <> restored_name);
+
+    UPDATE folders SET deleted_at = NULL
+    WHERE id IN (SELECT folder_subtree_ids(p_folder_id)) AND deleted_at = folder.deleted_at;
+
+    UPDATE files SET deleted_at = NULL
+    WHERE folder_id IN (SELECT folder_subtree_ids(p_folder_id)) AND deleted_at = folder.deleted_at;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION restore_file(p_file_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    file files%ROWTYPE;
+    destination_id UUID;
+    restored_name TEXT;
+    n INT := 0;
+BEGIN
+    SELECT * INTO file FROM files WHERE id = p_file_id;
+    IF file.deleted_at IS NULL THEN
+        RETURN;
+    END IF;
+
+    destination_id := file.folder_id;
+    IF destination_id IN (SELECT id FROM folders WHERE deleted_at IS NOT NULL) THEN
+        destination_id := restore_destination(destination_id);
+
+        IF destination_id IS NULL AND auth.uid() IS DISTINCT FROM file.user_id THEN
+            RAISE EXCEPTION 'The folder this was in is in the trash. Restore that folder first.'
+                USING ERRCODE = '42501';
+        END IF;
+    END IF;
+
+    restored_name := file.name;
+    WHILE EXISTS (
+        SELECT 1 FROM files
+        WHERE user_id = file.user_id
+          AND folder_id IS NOT DISTINCT FROM destination_id
+          AND name = restored_name
+          AND deleted_at IS NULL
+    ) LOOP
+        n := n + 1;
+        restored_name := numbered_name(file.name, n, TRUE);
+    END LOOP;
+
+    UPDATE files
+    SET deleted_at = NULL,
+        folder_id = destination_id,
+        name = restored_name
+    WHERE id = p_file_id;
+END;
+$$ LANGUAGE plpgsql;
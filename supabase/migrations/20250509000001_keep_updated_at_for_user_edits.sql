@@ -0,0 +1,25 @@
+-- files.updated_at was bumped by every write, so rendering thumbnails, extracting text and
+-- metadata, flagging missing objects and trashing all made a file look modified, and the
+-- "Modified" sort and date filter showed when the jobs ran. It now only moves when a column
+-- other than those changes: the name, the folder or the contents.
+CREATE OR REPLACE FUNCTION update_file_updated_at()
+RETURNS TRIGGER AS $$
+DECLARE
+    background_columns TEXT[] := ARRAY[
+        'updated_at', 'search_vector', 'thumbnail_s3_key', 'preview_s3_key', 'thumbnail_status',
+        'image_metadata', 'content_text', 'object_missing_at', 'deleted_at'
+    ];
+BEGIN
+    IF to_jsonb(NEW) - background_columns IS DISTINCT FROM to_jsonb(OLD) - background_columns THEN
+        NEW.updated_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER trigger_files_updated_at ON files;
+
+CREATE TRIGGER trigger_files_updated_at
+    BEFORE UPDATE ON files
+    FOR EACH ROW
+    EXECUTE FUNCTION update_file_updated_at();
@@ -0,0 +1,55 @@
+-- Deleting a folder forever only queued its objects, so the caller could not tell whether
+-- any were left behind. delete-folder now drains the objects it queued straight away and
+-- reports those that failed; they stay queued for drain-deletions to retry.
+
+-- Every object a folder's files and their versions point at, read before the rows go
+CREATE OR REPLACE FUNCTION folder_subtree_s3_keys(p_folder_id UUID)
+RETURNS SETOF TEXT AS $$
+    SELECT fi.s3_key FROM files fi
+    WHERE fi.folder_id IN (SELECT folder_subtree_ids(p_folder_id))
+    UNION
+    SELECT v.s3_key FROM file_versions v
+    JOIN files fi ON fi.id = v.file_id
+    WHERE fi.folder_id IN (SELECT folder_subtree_ids(p_folder_id));
+$$ LANGUAGE sql STABLE;
+
+-- p_s3_keys limits the claim to those objects; the drain-deletions job passes none
+DROP FUNCTION claim_pending_deletions(INT);
+
+CREATE OR REPLACE FUNCTION claim_pending_deletions(
+    p_limit INT DEFAULT 100,
+    p_s3_keys TEXT[] DEFAULT NULL
+)
+RETURNS SETOF pending_deletions AS $$
+    DELETE FROM pending_deletions p
+    USING blobs b
+    WHERE b.s3_key = p.s3_key AND b.ref_count > 0;
+
+    WITH leased AS (
+        UPDATE pending_deletions
+        SET next_attempt_at = NOW() + INTERVAL '10 minutes',
+            attempts = attempts + 1
+        WHERE id IN (
+            SELECT id FROM pending_deletions
+            WHERE next_attempt_at <= NOW()
+              AND (p_s3_keys IS NULL OR s3_key = ANY (p_s3_keys))
+            ORDER BY next_attempt_at
+            LIMIT p_limit
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+    ),
+    marked AS (
+        UPDATE blobs b
+        SET deleting_at = COALESCE(b.deleting_at, NOW())
+        FROM leased l
+        WHERE b.s3_key = l.s3_key AND b.ref_count = 0
+        RETURNING b.s3_key
+    )
+    SELECT l.*
+    FROM leased l
+    WHERE l.s3_key IN (SELECT s3_key FROM marked)
+       OR NOT EXISTS (SELECT 1 FROM blobs b WHERE b.s3_key = l.s3_key);
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION claim_pending_deletions(INT, TEXT[]) FROM PUBLIC, anon, authenticated;
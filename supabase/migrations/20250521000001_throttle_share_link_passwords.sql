@@ -0,0 +1,26 @@
+-- Password-protected links took any number of guesses. Each wrong password is now counted on
+-- the link, and after a few the link stops taking passwords for a while, twice as long after
+-- every further miss. share-link resets the count once the right password is given.
+ALTER TABLE share_links
+    ADD COLUMN failed_password_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN password_locked_until TIMESTAMPTZ;
+
+-- Counts a wrong password and returns when the link takes passwords again, NULL while the
+-- free attempts last. Locks start at 30 seconds and stop growing at a day.
+CREATE OR REPLACE FUNCTION record_share_link_password_failure(p_link_id UUID)
+RETURNS TIMESTAMPTZ AS $$
+    UPDATE share_links
+    SET failed_password_attempts = failed_password_attempts + 1,
+        password_locked_until = CASE
+            WHEN failed_password_attempts + 1 < 5 THEN NULL
+            ELSE NOW() + LEAST(
+                INTERVAL '30 seconds' * power(2, LEAST(failed_password_attempts + 1 - 5, 12)),
+                INTERVAL '1 day'
+            )
+        END
+    WHERE id = p_link_id
+    RETURNING password_locked_until;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION record_share_link_password_failure(UUID)
+    FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,123 @@
+-- Identical contents are stored once (see add_blobs), but the quota summed the size of every
+-- file and version, so a copy, a re-upload of the same bytes or a restored version was
+-- charged again for an object already paid for. Usage is now the size of each distinct
+-- object the account's files and versions point at, and a write is only charged when it
+-- points the account at an object it did not already have.
+CREATE OR REPLACE FUNCTION account_storage(p_user_id UUID)
+RETURNS TABLE (used_bytes BIGINT, quota_bytes BIGINT) AS $$
+    SELECT
+        (SELECT COALESCE(SUM(size_bytes), 0)::BIGINT
+         FROM (
+             SELECT s3_key, MAX(size_bytes) AS size_bytes
+             FROM (
+                 SELECT s3_key, size_bytes FROM files WHERE user_id = p_user_id
+                 UNION ALL
+                 SELECT s3_key, size_bytes FROM file_versions WHERE user_id = p_user_id
+             ) referenced
+             GROUP BY s3_key
+         ) objects),
+        COALESCE(
+            (SELECT q.quota_bytes FROM user_quotas q WHERE q.user_id = p_user_id),
+            default_storage_quota()
+        );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- What pointing the account at an object adds to its usage: nothing when a file or version
+-- of the account already points at it
+CREATE OR REPLACE FUNCTION storage_charge(p_user_id UUID, p_s3_key TEXT, p_size_bytes BIGINT)
+RETURNS BIGINT AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM files WHERE user_id = p_user_id AND s3_key = p_s3_key)
+          OR EXISTS (SELECT 1 FROM file_versions WHERE user_id = p_user_id AND s3_key = p_s3_key)
+        THEN 0
+        ELSE p_size_bytes
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION storage_charge(UUID, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- New contents are charged like a new file; the old ones stay counted through their version
+CREATE OR REPLACE FUNCTION enforce_storage_quota()
+RETURNS TRIGGER AS $$
+DECLARE
+    added_bytes BIGINT;
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.s3_key IS DISTINCT FROM OLD.s3_key THEN
+        added_bytes := storage_charge(NEW.user_id, NEW.s3_key, NEW.size_bytes);
+    ELSE
+        added_bytes := NEW.size_bytes - OLD.size_bytes;
+    END IF;
+
+    IF added_bytes <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM check_storage_quota(NEW.user_id, added_bytes);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER trigger_files_storage_quota ON files;
+
+CREATE TRIGGER trigger_files_storage_quota
+    BEFORE INSERT OR UPDATE OF size_bytes, s3_key ON files
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_storage_quota();
+
+CREATE OR REPLACE FUNCTION add_file_version(
+    p_file_id UUID,
+    p_s3_key TEXT,
+    p_s3_url TEXT,
+    p_size_bytes BIGINT,
+    p_mime_type TEXT,
+    p_checksum_sha256 TEXT
+)
+RETURNS files AS $$
+DECLARE
+    current_file files;
+BEGIN
+    SELECT * INTO current_file FROM files WHERE id = p_file_id AND deleted_at IS NULL FOR UPDATE;
+    IF current_file.id IS NULL THEN
+        RAISE EXCEPTION 'File not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    PERFORM check_storage_quota(
+        current_file.user_id, storage_charge(current_file.user_id, p_s3_key, p_size_bytes)
+    );
+
+    RETURN replace_file_contents(
+        current_file, p_s3_key, p_s3_url, p_size_bytes, p_mime_type, p_checksum_sha256
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A restored version points at an object the account still has, so it is free
+CREATE OR REPLACE FUNCTION restore_file_version(p_version_id UUID)
+RETURNS files AS $$
+DECLARE
+    target file_versions;
+    current_file files;
+BEGIN
+    SELECT * INTO target FROM file_versions WHERE id = p_version_id;
+    IF target.id IS NULL OR NOT can_edit_file(target.file_id) THEN
+        RAISE EXCEPTION 'Version not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO current_file FROM files
+    WHERE id = target.file_id AND deleted_at IS NULL
+    FOR UPDATE;
+    IF current_file.id IS NULL THEN
+        RAISE EXCEPTION 'File not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    PERFORM check_storage_quota(
+        current_file.user_id,
+        storage_charge(current_file.user_id, target.s3_key, target.size_bytes)
+    );
+
+    RETURN replace_file_contents(
+        current_file, target.s3_key, target.s3_url, target.size_bytes, target.mime_type,
+        target.checksum_sha256
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,113 @@
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+-- Alice owns a folder Bob can edit
+INSERT INTO auth.users (id, email) VALUES
+    ('11111111-1111-1111-1111-111111111111', 'alice@example.com'),
+    ('22222222-2222-2222-2222-222222222222', 'bob@example.com');
+
+INSERT INTO folders (id, name, user_id)
+VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'Shared', '11111111-1111-1111-1111-111111111111');
+
+INSERT INTO folder_members (folder_id, user_id, role)
+VALUES ('aaaaaaaa-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'editor');
+
+-- Two files with the same contents share one object
+INSERT INTO files (id, name, original_name, size_bytes, folder_id, user_id, s3_key, checksum_sha256, thumbnail_status)
+VALUES
+    ('ffffffff-0000-0000-0000-000000000001', 'a.bin', 'a.bin', 10,
+     'aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+     '11111111-1111-1111-1111-111111111111/shared.bin', 'checksum', 'unsupported'),
+    ('ffffffff-0000-0000-0000-000000000002', 'b.bin', 'b.bin', 10,
+     'aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+     '11111111-1111-1111-1111-111111111111/shared.bin', 'checksum', 'unsupported');
+
+-- upload-to-s3 records who uploaded the bytes
+UPDATE blobs SET uploaded_by = '11111111-1111-1111-1111-111111111111'
+WHERE s3_key = '11111111-1111-1111-1111-111111111111/shared.bin';
+
+SELECT is(
+    (SELECT ref_count FROM blobs WHERE s3_key = '11111111-1111-1111-1111-111111111111/shared.bin'),
+    2, 'each file referencing an object is counted'
+);
+
+-- Content is only offered back to the account member who uploaded it
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}';
+
+SELECT is(
+    find_blob('aaaaaaaa-0000-0000-0000-000000000001', 'checksum', 10),
+    '11111111-1111-1111-1111-111111111111/shared.bin',
+    'the uploader can reuse stored content'
+);
+
+SET LOCAL request.jwt.claims = '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}';
+
+SELECT is(
+    find_blob('aaaaaaaa-0000-0000-0000-000000000001', 'checksum', 10), NULL,
+    'another editor of the folder cannot reuse it by its checksum'
+);
+
+RESET ROLE;
+
+DELETE FROM files WHERE id = 'ffffffff-0000-0000-0000-000000000001';
+
+SELECT is(
+    (SELECT ref_count FROM blobs WHERE s3_key = '11111111-1111-1111-1111-111111111111/shared.bin'),
+    1, 'deleting a file drops its reference'
+);
+SELECT is_empty(
+    $$ SELECT id FROM pending_deletions
+       WHERE s3_key = '11111111-1111-1111-1111-111111111111/shared.bin' $$,
+    'an object still in use is not queued for deletion'
+);
+
+DELETE FROM files WHERE id = 'ffffffff-0000-0000-0000-000000000002';
+
+SELECT isnt_empty(
+    $$ SELECT id FROM pending_deletions
+       WHERE s3_key = '11111111-1111-1111-1111-111111111111/shared.bin' $$,
+    'the object is queued once nothing refers to it'
+);
+
+SELECT is(
+    (SELECT s3_key FROM claim_pending_deletions()),
+    '11111111-1111-1111-1111-111111111111/shared.bin',
+    'the queued object is handed out'
+);
+SELECT isnt(
+    (SELECT deleting_at FROM blobs WHERE s3_key = '11111111-1111-1111-1111-111111111111/shared.bin'),
+    NULL, 'a claimed blob is marked as deleting'
+);
+SELECT throws_ok(
+    $$ INSERT INTO files (name, original_name, size_bytes, user_id, s3_key, thumbnail_status)
+       VALUES ('c.bin', 'c.bin', 10, '11111111-1111-1111-1111-111111111111',
+               '11111111-1111-1111-1111-111111111111/shared.bin', 'unsupported') $$,
+    '55006', NULL, 'an object being deleted cannot be referenced again'
+);
+
+-- Pointing a file at new contents moves its reference. New contents would ask
+-- generate-thumbnail for renditions, which the test database cannot reach.
+ALTER TABLE files DISABLE TRIGGER trigger_files_request_thumbnail;
+
+INSERT INTO files (id, name, original_name, size_bytes, user_id, s3_key, thumbnail_status)
+VALUES ('ffffffff-0000-0000-0000-000000000003', 'd.bin', 'd.bin', 10,
+        '11111111-1111-1111-1111-111111111111',
+        '11111111-1111-1111-1111-111111111111/old.bin', 'unsupported');
+
+UPDATE files SET s3_key = '11111111-1111-1111-1111-111111111111/new.bin'
+WHERE id = 'ffffffff-0000-0000-0000-000000000003';
+
+SELECT is(
+    (SELECT ref_count FROM blobs WHERE s3_key = '11111111-1111-1111-1111-111111111111/old.bin'),
+    0, 'the old contents lose the reference'
+);
+SELECT is(
+    (SELECT ref_count FROM blobs WHERE s3_key = '11111111-1111-1111-1111-111111111111/new.bin'),
+    1, 'the new contents gain it'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
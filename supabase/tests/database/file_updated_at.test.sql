@@ -0,0 +1,42 @@
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email)
+VALUES ('11111111-1111-1111-1111-111111111111', 'alice@example.com');
+
+INSERT INTO files (id, name, original_name, size_bytes, user_id, s3_key, thumbnail_status, updated_at)
+VALUES ('ffffffff-0000-0000-0000-000000000001', 'photo.jpg', 'photo.jpg', 10,
+        '11111111-1111-1111-1111-111111111111',
+        '11111111-1111-1111-1111-111111111111/photo.jpg', 'unsupported', '2020-01-01');
+
+-- The jobs write these columns
+UPDATE files
+SET thumbnail_status = 'ready',
+    image_metadata = '{"width": 10}',
+    content_text = 'text',
+    object_missing_at = NOW()
+WHERE id = 'ffffffff-0000-0000-0000-000000000001';
+
+SELECT is(
+    (SELECT updated_at FROM files WHERE id = 'ffffffff-0000-0000-0000-000000000001'),
+    '2020-01-01'::TIMESTAMPTZ, 'background writes leave updated_at alone'
+);
+
+UPDATE files SET deleted_at = NOW() WHERE id = 'ffffffff-0000-0000-0000-000000000001';
+
+SELECT is(
+    (SELECT updated_at FROM files WHERE id = 'ffffffff-0000-0000-0000-000000000001'),
+    '2020-01-01'::TIMESTAMPTZ, 'trashing a file does not modify it'
+);
+
+UPDATE files SET name = 'holiday.jpg' WHERE id = 'ffffffff-0000-0000-0000-000000000001';
+
+SELECT is(
+    (SELECT updated_at FROM files WHERE id = 'ffffffff-0000-0000-0000-000000000001'),
+    NOW(), 'renaming a file modifies it'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,103 @@
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(16);
+
+-- Alice owns a folder shared with Bob as a viewer; Carol has no access to it
+INSERT INTO auth.users (id, email) VALUES
+    ('11111111-1111-1111-1111-111111111111', 'alice@example.com'),
+    ('22222222-2222-2222-2222-222222222222', 'bob@example.com'),
+    ('33333333-3333-3333-3333-333333333333', 'carol@example.com');
+
+INSERT INTO folders (id, name, user_id)
+VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'Shared', '11111111-1111-1111-1111-111111111111');
+
+INSERT INTO folder_members (folder_id, user_id, role)
+VALUES ('aaaaaaaa-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'viewer');
+
+INSERT INTO files (id, name, original_name, size_bytes, folder_id, user_id, s3_key, thumbnail_status)
+VALUES (
+    'ffffffff-0000-0000-0000-000000000001', 'report.pdf', 'report.pdf', 10,
+    'aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+    '11111111-1111-1111-1111-111111111111/report.pdf', 'unsupported'
+);
+
+INSERT INTO share_links (file_id, user_id, token)
+VALUES ('ffffffff-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'token');
+
+-- Grants
+SELECT ok(NOT has_table_privilege('authenticated', 'files', 'INSERT'), 'users cannot insert files');
+SELECT ok(
+    NOT has_column_privilege('authenticated', 'files', 's3_key', 'UPDATE'),
+    'users cannot repoint a file at another object'
+);
+SELECT ok(
+    NOT has_column_privilege('authenticated', 'files', 'size_bytes', 'UPDATE'),
+    'users cannot change the size of a file'
+);
+SELECT ok(
+    has_column_privilege('authenticated', 'files', 'name', 'UPDATE'),
+    'users can rename files'
+);
+SELECT ok(
+    NOT has_table_privilege('authenticated', 'share_links', 'INSERT'),
+    'users cannot insert share links'
+);
+SELECT ok(
+    NOT has_table_privilege('authenticated', 'share_links', 'UPDATE'),
+    'users cannot update share links'
+);
+
+-- The owner
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}';
+
+SELECT throws_ok(
+    $$ INSERT INTO files (name, original_name, size_bytes, user_id, s3_key)
+       VALUES ('other.pdf', 'other.pdf', 10, '11111111-1111-1111-1111-111111111111',
+               '22222222-2222-2222-2222-222222222222/private.pdf') $$,
+    '42501', NULL, 'the owner cannot insert a file record'
+);
+SELECT throws_ok(
+    $$ UPDATE files SET s3_key = '22222222-2222-2222-2222-222222222222/private.pdf'
+       WHERE id = 'ffffffff-0000-0000-0000-000000000001' $$,
+    '42501', NULL, 'the owner cannot change the key of a file'
+);
+SELECT lives_ok(
+    $$ UPDATE files SET name = 'renamed.pdf' WHERE id = 'ffffffff-0000-0000-0000-000000000001' $$,
+    'the owner can rename a file'
+);
+SELECT throws_ok(
+    $$ UPDATE share_links SET download_count = 0 $$,
+    '42501', NULL, 'the owner cannot reset the download count of a link'
+);
+SELECT is(
+    (SELECT count(*) FROM share_links)::INT, 1,
+    'the owner sees their share links'
+);
+
+-- A viewer
+SET LOCAL request.jwt.claims = '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}';
+
+SELECT is(
+    (SELECT name FROM files WHERE id = 'ffffffff-0000-0000-0000-000000000001'), 'renamed.pdf',
+    'a viewer sees files in the shared folder'
+);
+SELECT is_empty(
+    $$ UPDATE files SET name = 'mine.pdf' WHERE id = 'ffffffff-0000-0000-0000-000000000001'
+       RETURNING id $$,
+    'a viewer cannot rename files'
+);
+SELECT is_empty($$ SELECT id FROM share_links $$, 'a viewer does not see the owner''s links');
+
+-- Someone the folder is not shared with
+SET LOCAL request.jwt.claims = '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}';
+
+SELECT is_empty($$ SELECT id FROM files $$, 'other users see no files');
+SELECT is_empty(
+    $$ UPDATE files SET deleted_at = NOW() RETURNING id $$,
+    'other users cannot trash files'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
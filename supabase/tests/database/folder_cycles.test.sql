@@ -0,0 +1,46 @@
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- Alice has Projects > Current > Drafts, Bob has a folder of his own
+INSERT INTO auth.users (id, email) VALUES
+    ('11111111-1111-1111-1111-111111111111', 'alice@example.com'),
+    ('22222222-2222-2222-2222-222222222222', 'bob@example.com');
+
+INSERT INTO folders (id, name, parent_id, user_id) VALUES
+    ('aaaaaaaa-0000-0000-0000-000000000001', 'Projects', NULL, '11111111-1111-1111-1111-111111111111'),
+    ('aaaaaaaa-0000-0000-0000-000000000002', 'Current', 'aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111'),
+    ('aaaaaaaa-0000-0000-0000-000000000003', 'Drafts', 'aaaaaaaa-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111'),
+    ('bbbbbbbb-0000-0000-0000-000000000001', 'Bob', NULL, '22222222-2222-2222-2222-222222222222');
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}';
+
+SELECT throws_ok(
+    $$ UPDATE folders SET parent_id = 'aaaaaaaa-0000-0000-0000-000000000001'
+       WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001' $$,
+    '23514', NULL, 'a folder cannot be moved into itself'
+);
+SELECT throws_ok(
+    $$ UPDATE folders SET parent_id = 'aaaaaaaa-0000-0000-0000-000000000003'
+       WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001' $$,
+    '23514', NULL, 'a folder cannot be moved into a folder below it'
+);
+SELECT lives_ok(
+    $$ UPDATE folders SET parent_id = NULL WHERE id = 'aaaaaaaa-0000-0000-0000-000000000003' $$,
+    'a folder can be moved to the top level'
+);
+SELECT lives_ok(
+    $$ UPDATE folders SET parent_id = 'aaaaaaaa-0000-0000-0000-000000000003'
+       WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001' $$,
+    'a folder can be moved into one that is no longer below it'
+);
+SELECT throws_ok(
+    $$ UPDATE folders SET parent_id = 'bbbbbbbb-0000-0000-0000-000000000001'
+       WHERE id = 'aaaaaaaa-0000-0000-0000-000000000002' $$,
+    '42501', NULL, 'a folder cannot be moved into another user''s folder'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
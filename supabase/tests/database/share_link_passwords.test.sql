@@ -0,0 +1,47 @@
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email)
+VALUES ('11111111-1111-1111-1111-111111111111', 'alice@example.com');
+
+INSERT INTO files (id, name, original_name, size_bytes, user_id, s3_key, thumbnail_status)
+VALUES ('ffffffff-0000-0000-0000-000000000001', 'report.pdf', 'report.pdf', 10,
+        '11111111-1111-1111-1111-111111111111',
+        '11111111-1111-1111-1111-111111111111/report.pdf', 'unsupported');
+
+INSERT INTO share_links (id, file_id, user_id, token, password_hash)
+VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'ffffffff-0000-0000-0000-000000000001',
+        '11111111-1111-1111-1111-111111111111', 'token', 'hash');
+
+SELECT record_share_link_password_failure('aaaaaaaa-0000-0000-0000-000000000001')
+FROM generate_series(1, 4);
+
+SELECT is(
+    (SELECT password_locked_until FROM share_links
+     WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+    NULL, 'the first wrong passwords do not lock the link'
+);
+
+SELECT is(
+    record_share_link_password_failure('aaaaaaaa-0000-0000-0000-000000000001'),
+    NOW() + INTERVAL '30 seconds', 'the fifth wrong password locks it for 30 seconds'
+);
+
+SELECT is(
+    record_share_link_password_failure('aaaaaaaa-0000-0000-0000-000000000001'),
+    NOW() + INTERVAL '1 minute', 'each further one doubles the lock'
+);
+
+SELECT record_share_link_password_failure('aaaaaaaa-0000-0000-0000-000000000001')
+FROM generate_series(1, 20);
+
+SELECT is(
+    (SELECT password_locked_until FROM share_links
+     WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+    NOW() + INTERVAL '1 day', 'locks stop growing at a day'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,91 @@
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+-- Alice has 100 bytes and a folder Bob can upload into
+INSERT INTO auth.users (id, email) VALUES
+    ('11111111-1111-1111-1111-111111111111', 'alice@example.com'),
+    ('22222222-2222-2222-2222-222222222222', 'bob@example.com');
+
+INSERT INTO user_quotas (user_id, quota_bytes)
+VALUES ('11111111-1111-1111-1111-111111111111', 100);
+
+INSERT INTO folders (id, name, user_id)
+VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'Shared', '11111111-1111-1111-1111-111111111111');
+
+INSERT INTO folder_members (folder_id, user_id, role)
+VALUES ('aaaaaaaa-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'editor');
+
+-- Files are written with the service role, as upload-to-s3 does
+SELECT lives_ok(
+    $$ INSERT INTO files (id, name, original_name, size_bytes, user_id, s3_key, thumbnail_status)
+       VALUES ('ffffffff-0000-0000-0000-000000000001', 'a.bin', 'a.bin', 60,
+               '11111111-1111-1111-1111-111111111111',
+               '11111111-1111-1111-1111-111111111111/a.bin', 'unsupported') $$,
+    'a file within the quota is stored'
+);
+SELECT throws_ok(
+    $$ INSERT INTO files (name, original_name, size_bytes, user_id, s3_key, thumbnail_status)
+       VALUES ('b.bin', 'b.bin', 50, '11111111-1111-1111-1111-111111111111',
+               '11111111-1111-1111-1111-111111111111/b.bin', 'unsupported') $$,
+    '53400', NULL, 'a file past the quota is refused'
+);
+SELECT throws_ok(
+    $$ INSERT INTO files (name, original_name, size_bytes, folder_id, user_id, s3_key, thumbnail_status)
+       VALUES ('c.bin', 'c.bin', 50, 'aaaaaaaa-0000-0000-0000-000000000001',
+               '22222222-2222-2222-2222-222222222222',
+               '11111111-1111-1111-1111-111111111111/c.bin', 'unsupported') $$,
+    '53400', NULL, 'uploads into a shared folder are charged to its owner'
+);
+SELECT lives_ok(
+    $$ INSERT INTO files (name, original_name, size_bytes, user_id, s3_key, thumbnail_status)
+       VALUES ('d.bin', 'd.bin', 40, '11111111-1111-1111-1111-111111111111',
+               '11111111-1111-1111-1111-111111111111/d.bin', 'unsupported') $$,
+    'the quota can be filled exactly'
+);
+SELECT throws_ok(
+    $$ UPDATE files SET size_bytes = 61 WHERE id = 'ffffffff-0000-0000-0000-000000000001' $$,
+    '53400', NULL, 'a file cannot grow past the quota'
+);
+SELECT lives_ok(
+    $$ UPDATE files SET size_bytes = 10 WHERE id = 'ffffffff-0000-0000-0000-000000000001' $$,
+    'a file can always shrink'
+);
+SELECT is(
+    (SELECT used_bytes FROM account_storage('11111111-1111-1111-1111-111111111111')), 50::BIGINT,
+    'usage follows the stored sizes'
+);
+
+-- Contents are stored once, however many files and versions point at them
+SELECT lives_ok(
+    $$ INSERT INTO files (name, original_name, size_bytes, user_id, s3_key, thumbnail_status)
+       VALUES ('e.bin', 'e.bin', 50, '11111111-1111-1111-1111-111111111111',
+               '11111111-1111-1111-1111-111111111111/e.bin', 'unsupported') $$,
+    'the quota is filled again'
+);
+SELECT lives_ok(
+    $$ INSERT INTO files (name, original_name, size_bytes, user_id, s3_key, thumbnail_status)
+       VALUES ('d copy.bin', 'd copy.bin', 40, '11111111-1111-1111-1111-111111111111',
+               '11111111-1111-1111-1111-111111111111/d.bin', 'unsupported') $$,
+    'a copy of stored contents is not charged again'
+);
+SELECT add_file_version(
+    'ffffffff-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111/e.bin',
+    NULL, 50, NULL, NULL
+);
+-- Restores are made by the user
+SET LOCAL request.jwt.claims = '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}';
+SELECT lives_ok(
+    $$ SELECT restore_file_version(
+           (SELECT id FROM file_versions WHERE file_id = 'ffffffff-0000-0000-0000-000000000001')
+       ) $$,
+    'restoring a version is not charged again'
+);
+SELECT is(
+    (SELECT used_bytes FROM account_storage('11111111-1111-1111-1111-111111111111')), 100::BIGINT,
+    'each stored object counts once'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
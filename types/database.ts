@@ -1,8 +1,11 @@
-import { Tables } from './supabase';
+import { Database, Tables } from './supabase';
 
 export type Folder = Tables<'folders'> & { type: 'folder' };
 export type File = Tables<'files'> & { type: 'file' };
 
+// An earlier version of a file; the files row holds the current one
+export type FileVersion = Tables<'file_versions'>;
+
 export interface FileWithFolder extends File {
   folder?: Folder;
 }
@@ -12,6 +15,53 @@ export interface FolderWithContents extends Folder {
   subfolders: Folder[];
 }
 
+export type FolderRole = 'viewer' | 'editor' | 'owner';
+
+export type FolderMember =
+  Database['public']['Functions']['folder_members_with_email']['Returns'][number] & {
+    role: FolderRole;
+  };
+
+// A folder someone else shared with the current user
+export type SharedFolder = Folder & { role: FolderRole; owner_email: string };
+
+// Shape returned by the share link actions; the password hash never leaves the server
+export type ShareLink = Omit<Tables<'share_links'>, 'password_hash' | 'user_id'> & {
+  has_password: boolean;
+  url: string;
+};
+
+export interface FolderPathEntry {
+  id: string;
+  name: string;
+}
+
+// A match from search_items; path runs from the top folder down to where the item lives
+export type SearchResult = Omit<
+  Database['public']['Functions']['search_items']['Returns'][number],
+  'item_type' | 'path'
+> & {
+  item_type: 'folder' | 'file';
+  path: FolderPathEntry[];
+};
+
+// What generate-thumbnail reads from an image, stored in files.image_metadata; keep in step
+// with supabase/functions/_shared/thumbnails.ts
+export interface ImageMetadata {
+  width?: number;
+  height?: number;
+  capturedAt?: string;
+  cameraMake?: string;
+  cameraModel?: string;
+  lensModel?: string;
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;
+  latitude?: number;
+  longitude?: number;
+}
+
 export type FileIconType =
   | 'document'
   | 'image'
@@ -64,3 +114,14 @@ export const isVideoFile = (mimeType?: string): boolean => {
 export const isAudioFile = (mimeType?: string): boolean => {
   return mimeType?.startsWith('audio/') ?? false;
 };
+
+export const getFileExtension = (fileName: string): string => {
+  const dotIndex = fileName.lastIndexOf('.');
+  // A leading dot (".env") marks a hidden file, not an extension
+  return dotIndex > 0 ? fileName.slice(dotIndex) : '';
+};
+
+export const getFileBaseName = (fileName: string): string => {
+  const extension = getFileExtension(fileName);
+  return extension ? fileName.slice(0, -extension.length) : fileName;
+};
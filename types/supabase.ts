@@ -8,45 +8,161 @@ export type Database = {
   };
   public: {
     Tables: {
+      blobs: {
+        Row: {
+          checksum_sha256: string | null;
+          created_at: string | null;
+          deleting_at: string | null;
+          id: string;
+          ref_count: number;
+          s3_key: string;
+          size_bytes: number;
+          uploaded_by: string | null;
+          user_id: string;
+        };
+        Insert: {
+          checksum_sha256?: string | null;
+          created_at?: string | null;
+          deleting_at?: string | null;
+          id?: string;
+          ref_count?: number;
+          s3_key: string;
+          size_bytes: number;
+          uploaded_by?: string | null;
+          user_id: string;
+        };
+        Update: {
+          checksum_sha256?: string | null;
+          created_at?: string | null;
+          deleting_at?: string | null;
+          id?: string;
+          ref_count?: number;
+          s3_key?: string;
+          size_bytes?: number;
+          uploaded_by?: string | null;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      file_versions: {
+        Row: {
+          checksum_sha256: string | null;
+          created_at: string | null;
+          file_id: string;
+          id: string;
+          mime_type: string | null;
+          s3_key: string;
+          s3_url: string | null;
+          size_bytes: number;
+          user_id: string;
+          version: number;
+        };
+        Insert: {
+          checksum_sha256?: string | null;
+          created_at?: string | null;
+          file_id: string;
+          id?: string;
+          mime_type?: string | null;
+          s3_key: string;
+          s3_url?: string | null;
+          size_bytes: number;
+          user_id: string;
+          version: number;
+        };
+        Update: {
+          checksum_sha256?: string | null;
+          created_at?: string | null;
+          file_id?: string;
+          id?: string;
+          mime_type?: string | null;
+          s3_key?: string;
+          s3_url?: string | null;
+          size_bytes?: number;
+          user_id?: string;
+          version?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'file_versions_file_id_fkey';
+            columns: ['file_id'];
+            isOneToOne: false;
+            referencedRelation: 'files';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       files: {
         Row: {
+          checksum_sha256: string | null;
+          content_text: string | null;
           created_at: string | null;
+          deleted_at: string | null;
           folder_id: string | null;
           id: string;
+          image_metadata: Json | null;
           mime_type: string | null;
           name: string;
+          object_missing_at: string | null;
           original_name: string;
+          preview_s3_key: string | null;
           s3_key: string;
           s3_url: string | null;
+          search_vector: unknown;
           size_bytes: number;
+          thumbnail_s3_key: string | null;
+          thumbnail_status: string;
           updated_at: string | null;
           user_id: string;
+          version: number;
+          version_created_at: string | null;
         };
         Insert: {
+          checksum_sha256?: string | null;
+          content_text?: string | null;
           created_at?: string | null;
+          deleted_at?: string | null;
           folder_id?: string | null;
           id?: string;
+          image_metadata?: Json | null;
           mime_type?: string | null;
           name: string;
+          object_missing_at?: string | null;
           original_name: string;
+          preview_s3_key?: string | null;
           s3_key: string;
           s3_url?: string | null;
+          search_vector?: never;
           size_bytes: number;
+          thumbnail_s3_key?: string | null;
+          thumbnail_status?: string;
           updated_at?: string | null;
           user_id: string;
+          version?: number;
+          version_created_at?: string | null;
         };
         Update: {
+          checksum_sha256?: string | null;
+          content_text?: string | null;
           created_at?: string | null;
+          deleted_at?: string | null;
           folder_id?: string | null;
           id?: string;
+          image_metadata?: Json | null;
           mime_type?: string | null;
           name?: string;
+          object_missing_at?: string | null;
           original_name?: string;
+          preview_s3_key?: string | null;
           s3_key?: string;
           s3_url?: string | null;
+          search_vector?: never;
           size_bytes?: number;
+          thumbnail_s3_key?: string | null;
+          thumbnail_status?: string;
           updated_at?: string | null;
           user_id?: string;
+          version?: number;
+          version_created_at?: string | null;
         };
         Relationships: [
           {
@@ -58,28 +174,69 @@ export type Database = {
           },
         ];
       };
+      folder_members: {
+        Row: {
+          created_at: string | null;
+          folder_id: string;
+          id: string;
+          invited_by: string | null;
+          role: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          folder_id: string;
+          id?: string;
+          invited_by?: string | null;
+          role: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          folder_id?: string;
+          id?: string;
+          invited_by?: string | null;
+          role?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'folder_members_folder_id_fkey';
+            columns: ['folder_id'];
+            isOneToOne: false;
+            referencedRelation: 'folders';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       folders: {
         Row: {
           created_at: string | null;
+          deleted_at: string | null;
           id: string;
           name: string;
           parent_id: string | null;
+          search_vector: unknown;
           updated_at: string | null;
           user_id: string;
         };
         Insert: {
           created_at?: string | null;
+          deleted_at?: string | null;
           id?: string;
           name: string;
           parent_id?: string | null;
+          search_vector?: never;
           updated_at?: string | null;
           user_id: string;
         };
         Update: {
           created_at?: string | null;
+          deleted_at?: string | null;
           id?: string;
           name?: string;
           parent_id?: string | null;
+          search_vector?: never;
           updated_at?: string | null;
           user_id?: string;
         };
@@ -93,11 +250,354 @@ export type Database = {
           },
         ];
       };
+      pending_deletions: {
+        Row: {
+          attempts: number;
+          created_at: string | null;
+          id: string;
+          last_error: string | null;
+          next_attempt_at: string;
+          s3_key: string;
+          user_id: string;
+        };
+        Insert: {
+          attempts?: number;
+          created_at?: string | null;
+          id?: string;
+          last_error?: string | null;
+          next_attempt_at?: string;
+          s3_key: string;
+          user_id: string;
+        };
+        Update: {
+          attempts?: number;
+          created_at?: string | null;
+          id?: string;
+          last_error?: string | null;
+          next_attempt_at?: string;
+          s3_key?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      share_links: {
+        Row: {
+          created_at: string | null;
+          download_count: number;
+          expires_at: string | null;
+          failed_password_attempts: number;
+          file_id: string;
+          id: string;
+          max_downloads: number | null;
+          password_hash: string | null;
+          password_locked_until: string | null;
+          revoked_at: string | null;
+          token: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          download_count?: number;
+          expires_at?: string | null;
+          failed_password_attempts?: number;
+          file_id: string;
+          id?: string;
+          max_downloads?: number | null;
+          password_hash?: string | null;
+          password_locked_until?: string | null;
+          revoked_at?: string | null;
+          token: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          download_count?: number;
+          expires_at?: string | null;
+          failed_password_attempts?: number;
+          file_id?: string;
+          id?: string;
+          max_downloads?: number | null;
+          password_hash?: string | null;
+          password_locked_until?: string | null;
+          revoked_at?: string | null;
+          token?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'share_links_file_id_fkey';
+            columns: ['file_id'];
+            isOneToOne: false;
+            referencedRelation: 'files';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      storage_reconciliation_runs: {
+        Row: {
+          dry_run: boolean;
+          finished_at: string;
+          id: string;
+          next_user_id: string | null;
+          pass_started_at: string | null;
+          report: Json;
+          started_at: string;
+        };
+        Insert: {
+          dry_run: boolean;
+          finished_at?: string;
+          id?: string;
+          next_user_id?: string | null;
+          pass_started_at?: string | null;
+          report: Json;
+          started_at: string;
+        };
+        Update: {
+          dry_run?: boolean;
+          finished_at?: string;
+          id?: string;
+          next_user_id?: string | null;
+          pass_started_at?: string | null;
+          report?: Json;
+          started_at?: string;
+        };
+        Relationships: [];
+      };
+      user_quotas: {
+        Row: {
+          created_at: string | null;
+          quota_bytes: number;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          quota_bytes: number;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          quota_bytes?: number;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
+      add_file_version: {
+        Args: {
+          p_checksum_sha256: string | null;
+          p_file_id: string;
+          p_mime_type: string | null;
+          p_s3_key: string;
+          p_s3_url: string | null;
+          p_size_bytes: number;
+        };
+        Returns: Database['public']['Tables']['files']['Row'];
+      };
+      can_edit_file: {
+        Args: { p_file_id: string };
+        Returns: boolean;
+      };
+      can_edit_folder: {
+        Args: { p_folder_id: string };
+        Returns: boolean;
+      };
+      claim_pending_deletions: {
+        Args: { p_limit?: number; p_s3_keys?: string[] };
+        Returns: {
+          attempts: number;
+          created_at: string | null;
+          id: string;
+          last_error: string | null;
+          next_attempt_at: string;
+          s3_key: string;
+          user_id: string;
+        }[];
+      };
+      consume_share_link: {
+        Args: { p_link_id: string };
+        Returns: boolean;
+      };
+      default_storage_quota: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      find_blob: {
+        Args: { p_folder_id: string | null; p_checksum_sha256: string; p_size_bytes: number };
+        Returns: string | null;
+      };
+      folder_members_with_email: {
+        Args: { p_folder_id: string };
+        Returns: {
+          created_at: string;
+          email: string;
+          folder_id: string;
+          id: string;
+          role: string;
+          user_id: string;
+        }[];
+      };
+      folder_path: {
+        Args: { p_folder_id: string };
+        Returns: Json;
+      };
+      folder_role: {
+        Args: { p_folder_id: string };
+        Returns: string;
+      };
+      folder_subtree_ids: {
+        Args: { p_folder_id: string };
+        Returns: string[];
+      };
+      folder_subtree_s3_keys: {
+        Args: { p_folder_id: string };
+        Returns: string[];
+      };
+      numbered_name: {
+        Args: { p_keep_extension: boolean; p_n: number; p_name: string };
+        Returns: string;
+      };
+      prune_file_versions: {
+        Args: { p_before?: string; p_file_id: string; p_keep?: number };
+        Returns: number;
+      };
+      reconciliation_user_ids: {
+        Args: { p_from: string | null; p_limit: number };
+        Returns: string[];
+      };
+      record_share_link_password_failure: {
+        Args: { p_link_id: string };
+        Returns: string | null;
+      };
+      restore_destination: {
+        Args: { p_folder_id: string };
+        Returns: string;
+      };
+      restore_file: {
+        Args: { p_file_id: string };
+        Returns: undefined;
+      };
+      restore_file_version: {
+        Args: { p_version_id: string };
+        Returns: Database['public']['Tables']['files']['Row'];
+      };
+      restore_folder: {
+        Args: { p_folder_id: string };
+        Returns: undefined;
+      };
+      search_items: {
+        Args: {
+          p_query: string;
+          p_limit?: number;
+          p_offset?: number;
+          p_mime_patterns?: string[];
+          p_min_size?: number;
+          p_max_size?: number;
+          p_date_field?: string;
+          p_date_from?: string;
+          p_date_to?: string;
+          p_scope?: string;
+          p_scope_folder_id?: string;
+        };
+        Returns: {
+          item_type: string;
+          id: string;
+          name: string;
+          folder_id: string | null;
+          mime_type: string | null;
+          size_bytes: number | null;
+          created_at: string | null;
+          path: Json;
+          snippet: string | null;
+          rank: number;
+        }[];
+      };
+      search_tsquery: {
+        Args: { p_query: string };
+        Returns: unknown;
+      };
+      share_folder: {
+        Args: { p_email: string; p_folder_id: string; p_role: string };
+        Returns: {
+          created_at: string | null;
+          folder_id: string;
+          id: string;
+          invited_by: string | null;
+          role: string;
+          user_id: string;
+        };
+      };
+      shared_folders: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          created_at: string;
+          deleted_at: string;
+          id: string;
+          name: string;
+          owner_email: string;
+          parent_id: string;
+          role: string;
+          updated_at: string;
+          user_id: string;
+        }[];
+      };
+      storage_usage: {
+        Args: { p_folder_id?: string };
+        Returns: {
+          quota_bytes: number;
+          used_bytes: number;
+        }[];
+      };
+      trash_folder: {
+        Args: { p_folder_id: string };
+        Returns: undefined;
+      };
+      trashed_files: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          checksum_sha256: string | null;
+          content_text: string | null;
+          created_at: string | null;
+          deleted_at: string | null;
+          folder_id: string | null;
+          id: string;
+          image_metadata: Json | null;
+          mime_type: string | null;
+          name: string;
+          object_missing_at: string | null;
+          original_name: string;
+          preview_s3_key: string | null;
+          s3_key: string;
+          s3_url: string | null;
+          search_vector: unknown;
+          size_bytes: number;
+          thumbnail_s3_key: string | null;
+          thumbnail_status: string;
+          updated_at: string | null;
+          user_id: string;
+          version: number;
+          version_created_at: string | null;
+        }[];
+      };
+      trashed_folders: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          created_at: string | null;
+          deleted_at: string | null;
+          id: string;
+          name: string;
+          parent_id: string | null;
+          search_vector: unknown;
+          updated_at: string | null;
+          user_id: string;
+        }[];
+      };
       uuid_generate_v1: {
         Args: Record<PropertyKey, never>;
         Returns: string;